@@ -0,0 +1,6 @@
+-- Migration: Add recurrence rules to todos
+-- Created: 2026-10-18
+
+-- RRULE-style schedule (e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU").
+-- Completing a recurring todo creates the next occurrence and hands the rule over to it.
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS recurrence TEXT;
@@ -0,0 +1,8 @@
+-- Migration: Add parent/child hierarchy to todos
+-- Created: 2026-10-18
+
+-- Subtasks reference their parent todo and are removed with it
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS parent_id INTEGER REFERENCES todos(id) ON DELETE CASCADE;
+
+-- Create index on parent_id for faster child lookups
+CREATE INDEX IF NOT EXISTS idx_todos_parent_id ON todos(parent_id);
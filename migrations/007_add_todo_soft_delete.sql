@@ -0,0 +1,8 @@
+-- Migration: Soft delete (trash) for todos
+-- Created: 2026-10-18
+
+-- Deleted todos keep their row with a deleted_at timestamp until restored or purged
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS deleted_at TIMESTAMP;
+
+-- Partial index for trash listings and the retention purge
+CREATE INDEX IF NOT EXISTS idx_todos_deleted_at ON todos(deleted_at) WHERE deleted_at IS NOT NULL;
@@ -0,0 +1,13 @@
+-- Migration: Add user_preferences table
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS user_preferences (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL UNIQUE,
+
+  -- Review AI-extracted todos before they are saved
+  review_before_save BOOLEAN NOT NULL DEFAULT FALSE,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
@@ -0,0 +1,16 @@
+-- Migration: Add todo_batches table for idempotent batch creation
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS todo_batches (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+
+  -- Client-supplied draft ID; retrying the same draft returns the original todos
+  draft_id TEXT NOT NULL,
+  todo_ids JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- One batch per draft per user (also serializes concurrent retries)
+CREATE UNIQUE INDEX IF NOT EXISTS idx_todo_batches_user_draft ON todo_batches(user_id, draft_id);
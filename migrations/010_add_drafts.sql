@@ -0,0 +1,31 @@
+-- Migration: Add drafts table for the server-side AI pipeline
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS drafts (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+
+  -- Raw input and where it came from
+  client_id TEXT,
+  text TEXT NOT NULL,
+  source TEXT NOT NULL DEFAULT 'web',
+  project_id INTEGER REFERENCES projects(id) ON DELETE SET NULL,
+
+  -- Pipeline state: queued -> processing -> completed | query | review | error
+  status TEXT NOT NULL DEFAULT 'queued',
+  attempts INTEGER NOT NULL DEFAULT 0,
+  error TEXT,
+  result JSONB,
+  next_attempt_at TIMESTAMP,
+  locked_at TIMESTAMP,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  completed_at TIMESTAMP
+);
+
+-- Resubmitting the same client draft returns the existing row
+CREATE UNIQUE INDEX IF NOT EXISTS idx_drafts_user_client ON drafts(user_id, client_id);
+
+-- Worker scans for pending drafts in arrival order
+CREATE INDEX IF NOT EXISTS idx_drafts_pending ON drafts(created_at) WHERE status IN ('queued', 'processing');
@@ -0,0 +1,5 @@
+-- Migration: Per-user AI provider order
+-- Created: 2026-10-18
+
+-- Provider names to try in order (e.g. ["local", "anthropic"]); NULL falls back to AI_PROVIDER_ORDER
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_provider_order JSONB;
@@ -0,0 +1,29 @@
+-- Migration: Add ai_requests ledger for per-call token and cost accounting
+-- Created: 2026-10-18
+
+-- Append-only: one row per provider call, including repair round-trips and escalations
+CREATE TABLE IF NOT EXISTS ai_requests (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  route TEXT NOT NULL,
+  task TEXT NOT NULL,
+  provider TEXT NOT NULL,
+  model TEXT NOT NULL,
+  tier TEXT NOT NULL,
+  escalated BOOLEAN NOT NULL DEFAULT FALSE,
+
+  -- success | invalid (answer failed validation) | error
+  outcome TEXT NOT NULL,
+  error TEXT,
+
+  -- Token counts are NULL when the provider doesn't report them; cost is NULL for unpriced models
+  input_tokens INTEGER,
+  output_tokens INTEGER,
+  latency_ms INTEGER NOT NULL,
+  estimated_cost_usd DOUBLE PRECISION,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+-- Per-user history and the usage breakdown by day
+CREATE INDEX IF NOT EXISTS idx_ai_requests_user_created ON ai_requests(user_id, created_at);
@@ -0,0 +1,8 @@
+-- Migration: Per-user AI budgets
+-- Created: 2026-10-18
+
+-- Personal quotas; NULL falls back to the deployment limits (AI_REQUESTS_PER_MINUTE,
+-- AI_DAILY_TOKEN_BUDGET, AI_DAILY_COST_BUDGET_USD), which they can never exceed
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_requests_per_minute INTEGER;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_daily_token_budget INTEGER;
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_daily_cost_budget_usd DOUBLE PRECISION;
@@ -0,0 +1,27 @@
+-- Migration: Archive usage periods instead of wiping counters on reset
+-- Created: 2026-10-18
+
+-- Start of the current counting period
+ALTER TABLE usage ADD COLUMN IF NOT EXISTS period_started_at TIMESTAMP NOT NULL DEFAULT NOW();
+
+-- One row per reset: the counters as they were, plus ledger totals for the same window
+CREATE TABLE IF NOT EXISTS usage_periods (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  started_at TIMESTAMP NOT NULL,
+  ended_at TIMESTAMP NOT NULL,
+
+  total_requests INTEGER NOT NULL DEFAULT 0,
+  extract_requests INTEGER NOT NULL DEFAULT 0,
+  query_requests INTEGER NOT NULL DEFAULT 0,
+  anthropic_requests INTEGER NOT NULL DEFAULT 0,
+  openai_requests INTEGER NOT NULL DEFAULT 0,
+
+  input_tokens INTEGER NOT NULL DEFAULT 0,
+  output_tokens INTEGER NOT NULL DEFAULT 0,
+  estimated_cost_usd DOUBLE PRECISION NOT NULL DEFAULT 0,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_usage_periods_user_ended ON usage_periods(user_id, ended_at);
@@ -0,0 +1,5 @@
+-- Migration: Choose which profile fields are shared with AI providers
+-- Created: 2026-10-18
+
+-- Profile field groups included in AI prompts (e.g. ["occupation", "schedule", "bio"]); NULL = the default set
+ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_shared_profile_fields JSONB;
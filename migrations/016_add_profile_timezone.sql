@@ -0,0 +1,5 @@
+-- Migration: Store the user's time zone on their profile
+-- Created: 2026-10-18
+
+-- IANA time zone name (e.g. "Europe/Berlin"); NULL falls back to UTC on the server and the browser's zone in the app
+ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS timezone TEXT;
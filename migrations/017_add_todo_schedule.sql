@@ -0,0 +1,11 @@
+-- Migration: Add start dates, due times and all-day flags to todos
+-- Created: 2026-10-18
+
+-- All-day todos store dates as UTC midnight (like due_date); timed todos store exact instants.
+-- due_date stays as the calendar day the todo is due, kept in step with due_at.
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS start_at TIMESTAMP;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS due_at TIMESTAMP;
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS all_day BOOLEAN DEFAULT TRUE NOT NULL;
+
+-- Existing due dates become all-day dues
+UPDATE todos SET due_at = due_date WHERE due_at IS NULL AND due_date IS NOT NULL;
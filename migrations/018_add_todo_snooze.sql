@@ -0,0 +1,5 @@
+-- Migration: Add snoozing to todos
+-- Created: 2026-10-18
+
+-- Hidden from the list until this instant; NULL (or a time in the past) means not snoozed
+ALTER TABLE todos ADD COLUMN IF NOT EXISTS snoozed_until TIMESTAMP;
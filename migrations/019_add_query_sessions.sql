@@ -0,0 +1,18 @@
+-- Migration: Add query sessions for follow-up questions in the query box
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS query_sessions (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+
+  -- Recent questions and answers, oldest first: [{ question, intent, response, matchingTodoIds }]
+  turns JSONB NOT NULL DEFAULT '[]'::jsonb,
+
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_query_sessions_user_id ON query_sessions(user_id);
+
+-- Questions submitted through the draft pipeline carry the conversation they continue
+ALTER TABLE drafts ADD COLUMN IF NOT EXISTS query_session_id INTEGER REFERENCES query_sessions(id) ON DELETE SET NULL;
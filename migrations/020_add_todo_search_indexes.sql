@@ -0,0 +1,11 @@
+-- Migration: Indexes for server-side todo search, filtering and pagination
+-- Created: 2026-10-18
+
+-- Keyset pagination in the default order (newest first)
+CREATE INDEX IF NOT EXISTS idx_todos_user_created ON todos(user_id, created_at, id);
+
+-- Tag filters (tags ?| array[...])
+CREATE INDEX IF NOT EXISTS idx_todos_tags ON todos USING GIN (tags);
+
+-- Full-text search over the text and original context; queries must use the same expression
+CREATE INDEX IF NOT EXISTS idx_todos_search ON todos USING GIN (to_tsvector('simple', text || ' ' || coalesce(context, '')));
@@ -0,0 +1,17 @@
+-- Migration: Add saved views (named filter combinations shown as smart lists)
+-- Created: 2026-10-18
+
+CREATE TABLE IF NOT EXISTS saved_views (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  name TEXT NOT NULL,
+
+  -- Filters as GET /api/todos query parameters, e.g. 'priority=high&tag=work&due=this-week'
+  query TEXT NOT NULL,
+
+  sort_order INTEGER NOT NULL DEFAULT 0,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW(),
+  updated_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_saved_views_user_id ON saved_views(user_id);
@@ -0,0 +1,7 @@
+-- Migration: Search tags along with the text and original context
+-- Created: 2026-10-18
+
+-- The old index only covered text and context; queries must use the same expression as the new one
+DROP INDEX IF EXISTS idx_todos_search;
+
+CREATE INDEX IF NOT EXISTS idx_todos_search_document ON todos USING GIN (to_tsvector('simple', text || ' ' || coalesce(context, '') || ' ' || translate(tags::text, '[]",', '    ')));
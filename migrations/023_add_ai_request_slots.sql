@@ -0,0 +1,13 @@
+-- Migration: Add ai_request_slots for the per-minute AI rate limit
+-- Created: 2026-10-18
+
+-- One row per user-facing request (not per provider call), reserved before the first call.
+-- Rows older than a minute no longer count and are deleted as the user makes new requests.
+CREATE TABLE IF NOT EXISTS ai_request_slots (
+  id SERIAL PRIMARY KEY,
+  user_id TEXT NOT NULL,
+  route TEXT NOT NULL,
+  created_at TIMESTAMP NOT NULL DEFAULT NOW()
+);
+
+CREATE INDEX IF NOT EXISTS idx_ai_request_slots_user_created ON ai_request_slots(user_id, created_at);
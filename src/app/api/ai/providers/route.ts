@@ -0,0 +1,24 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getDefaultProviderOrder, getProvider, PROVIDER_NAMES } from "@/lib/aiProviders";
+
+// GET /api/ai/providers - Registered AI providers, whether this deployment can use them, and the default order
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const providers = PROVIDER_NAMES.map(getProvider).map((provider) => ({
+      name: provider.name,
+      label: provider.label,
+      configured: provider.isConfigured(),
+    }));
+
+    return NextResponse.json({ providers, defaultOrder: getDefaultProviderOrder() });
+  } catch (error) {
+    console.error("Error fetching AI providers:", error);
+    return NextResponse.json({ error: "Failed to fetch AI providers" }, { status: 500 });
+  }
+}
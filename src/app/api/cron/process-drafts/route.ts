@@ -0,0 +1,21 @@
+import { NextRequest, NextResponse } from "next/server";
+import { runDraftWorker } from "@/lib/drafts";
+
+// GET /api/cron/process-drafts - Sweep the draft queue (retries that came due, drafts orphaned by a dead worker)
+// Called by Vercel Cron (see vercel.json), authenticated with CRON_SECRET instead of Clerk
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const processed = await runDraftWorker({ limit: 25 });
+
+    console.log(`Draft worker: processed ${processed} draft(s)`);
+    return NextResponse.json({ processed });
+  } catch (error) {
+    console.error("Error processing drafts:", error);
+    return NextResponse.json({ error: "Failed to process drafts" }, { status: 500 });
+  }
+}
@@ -0,0 +1,25 @@
+import { NextRequest, NextResponse } from "next/server";
+import { getTrashRetentionDays, purgeExpiredTrash } from "@/lib/trash";
+import { purgeExpiredQuerySessions } from "@/lib/querySessions";
+
+// GET /api/cron/purge-trash - Retention job: purge trashed todos older than TRASH_RETENTION_DAYS
+// and query sessions that have expired
+// Called by Vercel Cron (see vercel.json), authenticated with CRON_SECRET instead of Clerk
+export async function GET(request: NextRequest) {
+  const cronSecret = process.env.CRON_SECRET;
+  if (!cronSecret || request.headers.get("authorization") !== `Bearer ${cronSecret}`) {
+    return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+  }
+
+  try {
+    const retentionDays = getTrashRetentionDays();
+    const purged = await purgeExpiredTrash(retentionDays);
+    const purgedSessions = await purgeExpiredQuerySessions();
+
+    console.log(`Trash retention: purged ${purged} todo(s) older than ${retentionDays} days and ${purgedSessions} expired query session(s)`);
+    return NextResponse.json({ purged, retentionDays, purgedSessions });
+  } catch (error) {
+    console.error("Error purging trash:", error);
+    return NextResponse.json({ error: "Failed to purge trash" }, { status: 500 });
+  }
+}
@@ -0,0 +1,31 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { retryDraft, runDraftWorker } from "@/lib/drafts";
+
+// POST /api/drafts/[id]/retry - Re-queue a draft that ran out of automatic retries
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid draft ID" }, { status: 400 });
+    }
+
+    const draft = await retryDraft(userId, id);
+    if (!draft) {
+      return NextResponse.json({ error: "Draft not found or not in an error state" }, { status: 404 });
+    }
+
+    after(() => runDraftWorker({ draftId: draft.id, limit: 1 }).catch((error) => console.error(`Error processing draft ${draft.id}:`, error)));
+
+    return NextResponse.json({ draft }, { status: 202 });
+  } catch (error) {
+    console.error("Error retrying draft:", error);
+    return NextResponse.json({ error: "Failed to retry draft" }, { status: 500 });
+  }
+}
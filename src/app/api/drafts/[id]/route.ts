@@ -0,0 +1,54 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { deleteDraft, getUserDrafts } from "@/lib/drafts";
+
+// GET /api/drafts/[id] - Get a draft's status and result
+export async function GET(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid draft ID" }, { status: 400 });
+    }
+
+    const [draft] = await getUserDrafts(userId, [id]);
+    if (!draft) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(draft);
+  } catch (error) {
+    console.error("Error fetching draft:", error);
+    return NextResponse.json({ error: "Failed to fetch draft" }, { status: 500 });
+  }
+}
+
+// DELETE /api/drafts/[id] - Dismiss a draft (acknowledge its result, or discard it)
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid draft ID" }, { status: 400 });
+    }
+
+    if (!(await deleteDraft(userId, id))) {
+      return NextResponse.json({ error: "Draft not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Draft deleted" });
+  } catch (error) {
+    console.error("Error deleting draft:", error);
+    return NextResponse.json({ error: "Failed to delete draft" }, { status: 500 });
+  }
+}
@@ -0,0 +1,70 @@
+import { NextRequest, NextResponse, after } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { createDraft, getUserDrafts, parseDraftInput, runDraftWorker } from "@/lib/drafts";
+import { isUserProject } from "@/lib/projects";
+
+// GET /api/drafts - List the current user's drafts (?ids=1,2,3 to poll specific ones)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const idsParam = request.nextUrl.searchParams.get("ids");
+    const ids = idsParam ? idsParam.split(",").map((id) => parseInt(id)) : undefined;
+    if (ids && ids.some((id) => isNaN(id))) {
+      return NextResponse.json({ error: "Invalid draft IDs" }, { status: 400 });
+    }
+
+    const userDrafts = await getUserDrafts(userId, ids);
+
+    // Polling doubles as a fallback worker, so drafts whose background run died still get picked up
+    if (userDrafts.some((draft) => draft.status === "queued" || draft.status === "processing")) {
+      after(() => runDraftWorker({ userId, limit: 3 }).catch((error) => console.error("Error processing drafts:", error)));
+    }
+
+    return NextResponse.json(userDrafts);
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('relation "drafts" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+    console.error("Error fetching drafts:", error);
+    return NextResponse.json({ error: "Failed to fetch drafts" }, { status: 500 });
+  }
+}
+
+// POST /api/drafts - Submit raw text for the AI pipeline (query detection, extraction, save)
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = parseDraftInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (parsed.value.projectId !== null && !(await isUserProject(userId, parsed.value.projectId))) {
+      return NextResponse.json({ error: "Project not found" }, { status: 404 });
+    }
+
+    const { draft, created } = await createDraft(userId, parsed.value);
+
+    // Process right after responding; the cron job picks up anything this misses
+    if (created) {
+      after(() => runDraftWorker({ draftId: draft.id, limit: 1 }).catch((error) => console.error(`Error processing draft ${draft.id}:`, error)));
+    }
+
+    return NextResponse.json({ draft }, { status: created ? 202 : 200 });
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('relation "drafts" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+    console.error("Error creating draft:", error);
+    return NextResponse.json({ error: "Failed to create draft" }, { status: 500 });
+  }
+}
@@ -0,0 +1,42 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUserPreferences, parsePreferencesInput, updateUserPreferences } from "@/lib/preferences";
+
+// GET /api/preferences - Get the current user's preferences (defaults if never saved)
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(await getUserPreferences(userId));
+  } catch (error) {
+    if (error instanceof Error && error.message.includes('relation "user_preferences" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+    console.error("Error fetching preferences:", error);
+    return NextResponse.json({ error: "Failed to fetch preferences" }, { status: 500 });
+  }
+}
+
+// PUT /api/preferences - Update one or more preferences
+export async function PUT(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = parsePreferencesInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    return NextResponse.json(await updateUserPreferences(userId, parsed.value));
+  } catch (error) {
+    console.error("Error updating preferences:", error);
+    return NextResponse.json({ error: "Failed to update preferences" }, { status: 500 });
+  }
+}
@@ -2,6 +2,14 @@ import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db, userProfiles } from "@/lib/db";
 import { eq } from "drizzle-orm";
+import { isValidTimeZone } from "@/lib/timezone";
+
+const PROFILE_FIELDS = ["age", "gender", "occupation", "currentWakeTime", "idealWakeTime", "currentBedtime", "idealBedtime", "bio", "timezone"] as const;
+
+// null clears the time zone; anything else must be an IANA name
+function isValidTimeZoneInput(timezone: unknown): boolean {
+  return timezone === undefined || timezone === null || isValidTimeZone(timezone);
+}
 
 // GET /api/profile - Fetch user profile
 export async function GET(req: NextRequest) {
@@ -35,7 +43,11 @@ export async function POST(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { age, gender, occupation, currentWakeTime, idealWakeTime, currentBedtime, idealBedtime, bio } = body;
+    const { age, gender, occupation, currentWakeTime, idealWakeTime, currentBedtime, idealBedtime, bio, timezone } = body;
+
+    if (!isValidTimeZoneInput(timezone)) {
+      return NextResponse.json({ error: "Time zone must be an IANA time zone name (e.g. Europe/Berlin)" }, { status: 400 });
+    }
 
     // Check if profile already exists
     const existing = await db.select().from(userProfiles).where(eq(userProfiles.userId, userId)).limit(1);
@@ -56,6 +68,7 @@ export async function POST(req: NextRequest) {
         currentBedtime,
         idealBedtime,
         bio,
+        timezone,
       })
       .returning();
 
@@ -76,7 +89,11 @@ export async function PUT(req: NextRequest) {
     }
 
     const body = await req.json();
-    const { age, gender, occupation, currentWakeTime, idealWakeTime, currentBedtime, idealBedtime, bio } = body;
+    const { age, gender, occupation, currentWakeTime, idealWakeTime, currentBedtime, idealBedtime, bio, timezone } = body;
+
+    if (!isValidTimeZoneInput(timezone)) {
+      return NextResponse.json({ error: "Time zone must be an IANA time zone name (e.g. Europe/Berlin)" }, { status: 400 });
+    }
 
     const updatedProfile = await db
       .update(userProfiles)
@@ -89,6 +106,7 @@ export async function PUT(req: NextRequest) {
         currentBedtime,
         idealBedtime,
         bio,
+        timezone,
         updatedAt: new Date(),
       })
       .where(eq(userProfiles.userId, userId))
@@ -105,6 +123,36 @@ export async function PUT(req: NextRequest) {
   }
 }
 
+// PATCH /api/profile - Update only the fields given, creating the profile if needed
+// Lets the app record the browser's time zone without touching the rest of the profile
+export async function PATCH(req: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await req.json();
+    const changes = Object.fromEntries(PROFILE_FIELDS.filter((field) => body?.[field] !== undefined).map((field) => [field, body[field]]));
+
+    if (!isValidTimeZoneInput(changes.timezone)) {
+      return NextResponse.json({ error: "Time zone must be an IANA time zone name (e.g. Europe/Berlin)" }, { status: 400 });
+    }
+
+    const [profile] = await db
+      .insert(userProfiles)
+      .values({ userId, ...changes })
+      .onConflictDoUpdate({ target: userProfiles.userId, set: { ...changes, updatedAt: new Date() } })
+      .returning();
+
+    return NextResponse.json(profile);
+  } catch (error) {
+    console.error("Error updating profile:", error);
+    return NextResponse.json({ error: "Failed to update profile" }, { status: 500 });
+  }
+}
+
 // DELETE /api/profile - Delete user profile
 export async function DELETE(req: NextRequest) {
   try {
@@ -0,0 +1,69 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, projects } from "@/lib/db";
+import { eq, max } from "drizzle-orm";
+import { getUserProjects, parseProjectInput } from "@/lib/projects";
+
+// GET /api/projects - List the current user's projects (?includeArchived=true to include archived)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const includeArchived = request.nextUrl.searchParams.get("includeArchived") === "true";
+    const userProjects = await getUserProjects(userId, includeArchived);
+
+    return NextResponse.json(userProjects);
+  } catch (error) {
+    console.error("Error fetching projects:", error);
+
+    if (error instanceof Error && error.message.includes('relation "projects" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to fetch projects" }, { status: 500 });
+  }
+}
+
+// POST /api/projects - Create a project (appended to the end of the list unless sortOrder is given)
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = parseProjectInput(body, true);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    let sortOrder = parsed.value.sortOrder;
+    if (sortOrder === undefined) {
+      const [{ maxOrder }] = await db
+        .select({ maxOrder: max(projects.sortOrder) })
+        .from(projects)
+        .where(eq(projects.userId, userId));
+      sortOrder = (maxOrder ?? -1) + 1;
+    }
+
+    const newProject = await db
+      .insert(projects)
+      .values({
+        userId,
+        name: parsed.value.name!,
+        color: parsed.value.color,
+        archived: parsed.value.archived ?? false,
+        sortOrder,
+      })
+      .returning();
+
+    return NextResponse.json(newProject[0], { status: 201 });
+  } catch (error) {
+    console.error("Error creating project:", error);
+    return NextResponse.json({ error: "Failed to create project" }, { status: 500 });
+  }
+}
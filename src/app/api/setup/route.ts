@@ -5,6 +5,20 @@ export async function POST() {
   try {
     console.log("Setting up database...");
 
+    // Create the projects table (before todos, which reference it)
+    await sql`
+      CREATE TABLE IF NOT EXISTS projects (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        name text NOT NULL,
+        color text DEFAULT '#8b5cf6' NOT NULL,
+        archived boolean DEFAULT false NOT NULL,
+        sort_order integer DEFAULT 0 NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
     // Create the todos table
     await sql`
       CREATE TABLE IF NOT EXISTS todos (
@@ -17,6 +31,14 @@ export async function POST() {
         due_date timestamp,
         context text,
         ai_generated boolean DEFAULT false NOT NULL,
+        recurrence text,
+        start_at timestamp,
+        due_at timestamp,
+        all_day boolean DEFAULT true NOT NULL,
+        snoozed_until timestamp,
+        parent_id integer REFERENCES todos(id) ON DELETE CASCADE,
+        project_id integer REFERENCES projects(id) ON DELETE SET NULL,
+        deleted_at timestamp,
         created_at timestamp DEFAULT now() NOT NULL,
         updated_at timestamp DEFAULT now() NOT NULL
       );
@@ -52,6 +74,130 @@ export async function POST() {
         current_bedtime text,
         ideal_bedtime text,
         bio text,
+        timezone text,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the todo_batches table (idempotency for batch creation)
+    await sql`
+      CREATE TABLE IF NOT EXISTS todo_batches (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        draft_id text NOT NULL,
+        todo_ids jsonb DEFAULT '[]'::jsonb NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the query_sessions table
+    await sql`
+      CREATE TABLE IF NOT EXISTS query_sessions (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        turns jsonb DEFAULT '[]'::jsonb NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the saved views table (named filter combinations)
+    await sql`
+      CREATE TABLE IF NOT EXISTS saved_views (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        name text NOT NULL,
+        query text NOT NULL,
+        sort_order integer DEFAULT 0 NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the drafts table (server-side AI pipeline queue)
+    await sql`
+      CREATE TABLE IF NOT EXISTS drafts (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        client_id text,
+        text text NOT NULL,
+        source text DEFAULT 'web' NOT NULL,
+        project_id integer REFERENCES projects(id) ON DELETE SET NULL,
+        query_session_id integer REFERENCES query_sessions(id) ON DELETE SET NULL,
+        status text DEFAULT 'queued' NOT NULL,
+        attempts integer DEFAULT 0 NOT NULL,
+        error text,
+        result jsonb,
+        next_attempt_at timestamp,
+        locked_at timestamp,
+        created_at timestamp DEFAULT now() NOT NULL,
+        updated_at timestamp DEFAULT now() NOT NULL,
+        completed_at timestamp
+      );
+    `;
+
+    // Create the usage_periods archive
+    await sql`
+      CREATE TABLE IF NOT EXISTS usage_periods (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        started_at timestamp NOT NULL,
+        ended_at timestamp NOT NULL,
+        total_requests integer DEFAULT 0 NOT NULL,
+        extract_requests integer DEFAULT 0 NOT NULL,
+        query_requests integer DEFAULT 0 NOT NULL,
+        anthropic_requests integer DEFAULT 0 NOT NULL,
+        openai_requests integer DEFAULT 0 NOT NULL,
+        input_tokens integer DEFAULT 0 NOT NULL,
+        output_tokens integer DEFAULT 0 NOT NULL,
+        estimated_cost_usd double precision DEFAULT 0 NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the ai_requests ledger
+    await sql`
+      CREATE TABLE IF NOT EXISTS ai_requests (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        route text NOT NULL,
+        task text NOT NULL,
+        provider text NOT NULL,
+        model text NOT NULL,
+        tier text NOT NULL,
+        escalated boolean DEFAULT false NOT NULL,
+        outcome text NOT NULL,
+        error text,
+        input_tokens integer,
+        output_tokens integer,
+        latency_ms integer NOT NULL,
+        estimated_cost_usd double precision,
+        created_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the ai_request_slots table (per-minute rate limit)
+    await sql`
+      CREATE TABLE IF NOT EXISTS ai_request_slots (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL,
+        route text NOT NULL,
+        created_at timestamp DEFAULT now() NOT NULL
+      );
+    `;
+
+    // Create the user_preferences table
+    await sql`
+      CREATE TABLE IF NOT EXISTS user_preferences (
+        id serial PRIMARY KEY NOT NULL,
+        user_id text NOT NULL UNIQUE,
+        review_before_save boolean DEFAULT false NOT NULL,
+        ai_provider_order jsonb,
+        ai_requests_per_minute integer,
+        ai_daily_token_budget integer,
+        ai_daily_cost_budget_usd double precision,
+        ai_shared_profile_fields jsonb,
         created_at timestamp DEFAULT now() NOT NULL,
         updated_at timestamp DEFAULT now() NOT NULL
       );
@@ -61,10 +207,67 @@ export async function POST() {
     await sql`CREATE INDEX IF NOT EXISTS idx_todos_user_id ON todos(user_id);`;
     await sql`CREATE INDEX IF NOT EXISTS idx_usage_user_id ON usage(user_id);`;
     await sql`CREATE INDEX IF NOT EXISTS idx_user_profiles_user_id ON user_profiles(user_id);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_projects_user_id ON projects(user_id);`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_todo_batches_user_draft ON todo_batches(user_id, draft_id);`;
+    await sql`CREATE UNIQUE INDEX IF NOT EXISTS idx_drafts_user_client ON drafts(user_id, client_id);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_drafts_pending ON drafts(created_at) WHERE status IN ('queued', 'processing');`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ai_requests_user_created ON ai_requests(user_id, created_at);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_ai_request_slots_user_created ON ai_request_slots(user_id, created_at);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_usage_periods_user_ended ON usage_periods(user_id, ended_at);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_query_sessions_user_id ON query_sessions(user_id);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_saved_views_user_id ON saved_views(user_id);`;
 
     // Add model tracking columns if they don't exist (for existing tables)
     await sql`ALTER TABLE usage ADD COLUMN IF NOT EXISTS last_anthropic_model text;`;
     await sql`ALTER TABLE usage ADD COLUMN IF NOT EXISTS last_openai_model text;`;
+    await sql`ALTER TABLE usage ADD COLUMN IF NOT EXISTS period_started_at timestamp DEFAULT now() NOT NULL;`;
+
+    // Add recurrence column if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS recurrence text;`;
+
+    // Add subtask hierarchy column if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS parent_id integer REFERENCES todos(id) ON DELETE CASCADE;`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_todos_parent_id ON todos(parent_id);`;
+
+    // Add project column if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS project_id integer REFERENCES projects(id) ON DELETE SET NULL;`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_todos_project_id ON todos(project_id);`;
+
+    // Add soft delete column if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS deleted_at timestamp;`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_todos_deleted_at ON todos(deleted_at) WHERE deleted_at IS NOT NULL;`;
+
+    // Add AI provider order preference if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_provider_order jsonb;`;
+
+    // Add AI budget preferences if they don't exist (for existing tables)
+    await sql`ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_requests_per_minute integer;`;
+    await sql`ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_daily_token_budget integer;`;
+    await sql`ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_daily_cost_budget_usd double precision;`;
+
+    // Add profile time zone if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE user_profiles ADD COLUMN IF NOT EXISTS timezone text;`;
+
+    // Add profile sharing preference if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE user_preferences ADD COLUMN IF NOT EXISTS ai_shared_profile_fields jsonb;`;
+
+    // Add start/due schedule columns if they don't exist (for existing tables); existing due dates become all-day dues
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS start_at timestamp;`;
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS due_at timestamp;`;
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS all_day boolean DEFAULT true NOT NULL;`;
+    await sql`UPDATE todos SET due_at = due_date WHERE due_at IS NULL AND due_date IS NOT NULL;`;
+
+    // Add snooze column if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE todos ADD COLUMN IF NOT EXISTS snoozed_until timestamp;`;
+
+    // Add the draft's query session if it doesn't exist (for existing tables)
+    await sql`ALTER TABLE drafts ADD COLUMN IF NOT EXISTS query_session_id integer REFERENCES query_sessions(id) ON DELETE SET NULL;`;
+
+    // Indexes for searching, filtering and paging the todo list
+    await sql`CREATE INDEX IF NOT EXISTS idx_todos_user_created ON todos(user_id, created_at, id);`;
+    await sql`CREATE INDEX IF NOT EXISTS idx_todos_tags ON todos USING gin (tags);`;
+    await sql`DROP INDEX IF EXISTS idx_todos_search;`; // Replaced by idx_todos_search_document, which also covers tags
+    await sql`CREATE INDEX IF NOT EXISTS idx_todos_search_document ON todos USING gin (to_tsvector('simple', text || ' ' || coalesce(context, '') || ' ' || translate(tags::text, '[]",', '    ')));`;
 
     console.log("Database setup complete!");
     return NextResponse.json({ message: "Database setup complete!" });
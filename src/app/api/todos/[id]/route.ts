@@ -1,10 +1,15 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db, todos } from "@/lib/db";
-import { eq, and } from "drizzle-orm";
+import { eq, and, isNull } from "drizzle-orm";
 import { auth } from "@clerk/nextjs/server";
+import { isUserProject } from "@/lib/projects";
+import { parseTodoPatch, resolveSchedule, saveTodoUpdate, validateParentMove, type TodoPatch } from "@/lib/todos";
+import { softDeleteTodo } from "@/lib/trash";
+import { getUserTimeZone } from "@/lib/profileContext";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
 
-// PUT /api/todos/[id] - Update a todo (only if owned by current user)
-export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+// PATCH /api/todos/[id] - Update any editable field of a todo (only if owned by current user)
+export async function PATCH(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { userId } = await auth();
     if (!userId) {
@@ -17,42 +22,69 @@ export async function PUT(request: NextRequest, { params }: { params: Promise<{
       return NextResponse.json({ error: "Invalid todo ID" }, { status: 400 });
     }
 
-    const body = await request.json();
-    const { text, completed } = body;
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
 
-    // Build update object dynamically
-    const updateData: any = { updatedAt: new Date() };
-    if (text !== undefined) {
-      if (typeof text !== "string" || text.trim() === "") {
-        return NextResponse.json({ error: "Text must be a non-empty string" }, { status: 400 });
-      }
-      updateData.text = text.trim();
+    const parsed = parseTodoPatch(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const { completed } = parsed.value;
+    const updateData: TodoPatch = { ...parsed.value };
+
+    if (updateData.projectId !== undefined && updateData.projectId !== null && !(await isUserProject(userId, updateData.projectId))) {
+      return NextResponse.json({ error: "Project not found" }, { status: 400 });
     }
-    if (completed !== undefined) {
-      if (typeof completed !== "boolean") {
-        return NextResponse.json({ error: "Completed must be a boolean" }, { status: 400 });
+    if (updateData.parentId !== undefined && updateData.parentId !== null) {
+      const parentError = await validateParentMove(userId, id, updateData.parentId);
+      if (parentError) {
+        return NextResponse.json({ error: parentError }, { status: 400 });
       }
-      updateData.completed = completed;
     }
 
-    const updatedTodos = await db
-      .update(todos)
-      .set(updateData)
-      .where(and(eq(todos.id, id), eq(todos.userId, userId)))
-      .returning();
+    const existingTodos = await db
+      .select()
+      .from(todos)
+      .where(and(eq(todos.id, id), eq(todos.userId, userId), isNull(todos.deletedAt)))
+      .limit(1);
 
-    if (updatedTodos.length === 0) {
+    if (existingTodos.length === 0) {
       return NextResponse.json({ error: "Todo not found" }, { status: 404 });
     }
+    // Schedules and "today" are read in the user's time zone
+    const timeZone = parsed.schedule || completed === true ? await getUserTimeZone(userId) : DEFAULT_TIME_ZONE;
 
-    return NextResponse.json(updatedTodos[0]);
+    // Schedule fields are resolved against what the todo has now
+    if (parsed.schedule) {
+      const schedule = resolveSchedule(parsed.schedule, { todo: existingTodos[0], timeZone });
+      if ("error" in schedule) {
+        return NextResponse.json({ error: schedule.error }, { status: 400 });
+      }
+      Object.assign(updateData, schedule.value);
+    }
+
+    // The completed todo gives up its rule in the same transaction that hands it to the next occurrence
+    const saved = await db.transaction((tx) => saveTodoUpdate(tx, userId, existingTodos[0], updateData, timeZone));
+    if (!saved) {
+      return NextResponse.json({ error: "Todo not found" }, { status: 404 });
+    }
+
+    // Completing a recurring todo returns the occurrence that took over the rule
+    return NextResponse.json(saved.nextOccurrence ? { ...saved.todo, nextOccurrence: saved.nextOccurrence } : saved.todo);
   } catch (error) {
     console.error("Error updating todo:", error);
     return NextResponse.json({ error: "Failed to update todo" }, { status: 500 });
   }
 }
 
-// DELETE /api/todos/[id] - Delete a todo (only if owned by current user)
+// PUT /api/todos/[id] - Kept for existing clients; same partial-update semantics as PATCH
+export const PUT = PATCH;
+
+// DELETE /api/todos/[id] - Move a todo and its subtasks to the trash (only if owned by current user)
 export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
   try {
     const { userId } = await auth();
@@ -66,16 +98,13 @@ export async function DELETE(request: NextRequest, { params }: { params: Promise
       return NextResponse.json({ error: "Invalid todo ID" }, { status: 400 });
     }
 
-    const deletedTodos = await db
-      .delete(todos)
-      .where(and(eq(todos.id, id), eq(todos.userId, userId)))
-      .returning();
+    const trashedIds = await softDeleteTodo(userId, id);
 
-    if (deletedTodos.length === 0) {
+    if (trashedIds.length === 0) {
       return NextResponse.json({ error: "Todo not found" }, { status: 404 });
     }
 
-    return NextResponse.json({ message: "Todo deleted successfully" });
+    return NextResponse.json({ message: "Todo moved to trash", trashedIds });
   } catch (error) {
     console.error("Error deleting todo:", error);
     return NextResponse.json({ error: "Failed to delete todo" }, { status: 500 });
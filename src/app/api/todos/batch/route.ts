@@ -0,0 +1,55 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { collectProjectIds, insertTodoBatch, MAX_BATCH_SIZE, parseTodoInput, type TodoInput } from "@/lib/todos";
+import { isUserProject } from "@/lib/projects";
+
+// POST /api/todos/batch - Create several todos (with subtasks) atomically, idempotent per draft ID
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const { draftId, todos: items } = body ?? {};
+
+    if (typeof draftId !== "string" || draftId.trim() === "" || draftId.length > 200) {
+      return NextResponse.json({ error: "Draft ID is required and must be a non-empty string (max 200 characters)" }, { status: 400 });
+    }
+    if (!Array.isArray(items) || items.length === 0) {
+      return NextResponse.json({ error: "Todos must be a non-empty array" }, { status: 400 });
+    }
+    if (items.length > MAX_BATCH_SIZE) {
+      return NextResponse.json({ error: `A batch can contain at most ${MAX_BATCH_SIZE} todos` }, { status: 400 });
+    }
+
+    // Validate everything up front so the batch is all-or-nothing
+    const inputs: TodoInput[] = [];
+    for (const [index, item] of items.entries()) {
+      const parsed = parseTodoInput(item);
+      if ("error" in parsed) {
+        return NextResponse.json({ error: `Todo ${index + 1}: ${parsed.error}` }, { status: 400 });
+      }
+      inputs.push(parsed.value);
+    }
+
+    for (const projectId of new Set(inputs.flatMap(collectProjectIds))) {
+      if (!(await isUserProject(userId, projectId))) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+      }
+    }
+
+    const { todos: created, replayed } = await insertTodoBatch(userId, draftId.trim(), inputs);
+
+    return NextResponse.json({ draftId: draftId.trim(), todos: created, replayed }, { status: replayed ? 200 : 201 });
+  } catch (error) {
+    console.error("Error creating todo batch:", error);
+
+    if (error instanceof Error && error.message.includes('relation "todo_batches" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to create todos" }, { status: 500 });
+  }
+}
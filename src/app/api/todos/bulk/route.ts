@@ -0,0 +1,46 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { applyBulkChanges, parseBulkChanges } from "@/lib/todoActions";
+import { isUserProject } from "@/lib/projects";
+import { getUserTimeZone } from "@/lib/profileContext";
+
+// POST /api/todos/bulk - Apply a change set (patches and deletions) to several todos atomically
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    let body: unknown;
+    try {
+      body = await request.json();
+    } catch {
+      return NextResponse.json({ error: "Request body must be valid JSON" }, { status: 400 });
+    }
+
+    const parsed = parseBulkChanges(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const projectIds = new Set(parsed.value.flatMap((change) => (!change.delete && typeof change.patch.projectId === "number" ? [change.patch.projectId] : [])));
+    for (const projectId of projectIds) {
+      if (!(await isUserProject(userId, projectId))) {
+        return NextResponse.json({ error: "Project not found" }, { status: 400 });
+      }
+    }
+
+    // Schedules and "today" are read in the user's time zone
+    const timeZone = await getUserTimeZone(userId);
+    const applied = await applyBulkChanges(userId, parsed.value, timeZone);
+    if ("error" in applied) {
+      return NextResponse.json({ error: applied.error }, { status: applied.status });
+    }
+
+    return NextResponse.json(applied.value);
+  } catch (error) {
+    console.error("Error applying bulk changes:", error);
+    return NextResponse.json({ error: "Failed to update todos" }, { status: 500 });
+  }
+}
@@ -0,0 +1,18 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getTodoFacets } from "@/lib/todoSearch";
+
+// GET /api/todos/facets - Todo totals for every view (all, inbox, each project) and the tags in use
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    return NextResponse.json(await getTodoFacets(userId));
+  } catch (error) {
+    console.error("Error fetching todo facets:", error);
+    return NextResponse.json({ error: "Failed to fetch todo facets" }, { status: 500 });
+  }
+}
@@ -1,19 +1,44 @@
 import { NextRequest, NextResponse } from "next/server";
 import { db, todos } from "@/lib/db";
-import { desc, eq } from "drizzle-orm";
+import { and, eq, isNull } from "drizzle-orm";
 import { auth } from "@clerk/nextjs/server";
+import { buildTodoTree, collectProjectIds, insertTodoTree, parseTodoInput, validateNewSubtree } from "@/lib/todos";
+import { isUserProject } from "@/lib/projects";
+import { listTodos, parseTodoListQuery } from "@/lib/todoSearch";
+import { getUserTimeZone } from "@/lib/profileContext";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
 
-// GET /api/todos - Get all todos for the current user
-export async function GET() {
+// GET /api/todos - List todos (excluding trash) for the current user, optionally searched, filtered, sorted and paginated
+// (?limit= returns { todos, nextCursor } pages; ?nested=true returns parent/subtask trees of every match)
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
     if (!userId) {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const allTodos = await db.select().from(todos).where(eq(todos.userId, userId)).orderBy(desc(todos.createdAt));
+    const { searchParams } = request.nextUrl;
+    const parsed = parseTodoListQuery(searchParams);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+    const nested = searchParams.get("nested") === "true";
+    if (nested && parsed.value.limit !== null) {
+      return NextResponse.json({ error: "Nested trees can't be paginated" }, { status: 400 });
+    }
+
+    // Due presets ("today", "overdue") and a filter's relative days are read in the user's time zone
+    const timeZone = parsed.value.due.length > 0 || parsed.value.filter ? await getUserTimeZone(userId) : DEFAULT_TIME_ZONE;
+    const page = await listTodos(userId, parsed.value, timeZone);
+
+    if (nested) {
+      return NextResponse.json(buildTodoTree(page.todos));
+    }
+    if (parsed.value.limit !== null) {
+      return NextResponse.json(page);
+    }
 
-    return NextResponse.json(allTodos);
+    return NextResponse.json(page.todos);
   } catch (error) {
     console.error("Error fetching todos:", error);
 
@@ -32,7 +57,7 @@ export async function GET() {
   }
 }
 
-// POST /api/todos - Create a new todo for the current user
+// POST /api/todos - Create a new todo (optionally with nested subtasks) for the current user
 export async function POST(request: NextRequest) {
   try {
     const { userId } = await auth();
@@ -41,27 +66,45 @@ export async function POST(request: NextRequest) {
     }
 
     const body = await request.json();
-    const { text, tags, priority, dueDate, context, aiGenerated } = body;
+    const parsed = parseTodoInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    for (const projectId of new Set(collectProjectIds(parsed.value))) {
+      if (!(await isUserProject(userId, projectId))) {
+        return NextResponse.json({ error: "Project not found" }, { status: 404 });
+      }
+    }
+
+    // Attach to an existing parent todo if requested
+    const { parentId } = body;
+    let parentProjectId: number | null = null;
+    if (parentId !== undefined && parentId !== null) {
+      if (typeof parentId !== "number" || !Number.isInteger(parentId)) {
+        return NextResponse.json({ error: "Parent ID must be an integer" }, { status: 400 });
+      }
+      const parent = await db
+        .select({ id: todos.id, projectId: todos.projectId })
+        .from(todos)
+        .where(and(eq(todos.id, parentId), eq(todos.userId, userId), isNull(todos.deletedAt)))
+        .limit(1);
+      if (parent.length === 0) {
+        return NextResponse.json({ error: "Parent todo not found" }, { status: 404 });
+      }
+      parentProjectId = parent[0].projectId;
 
-    if (!text || typeof text !== "string" || text.trim() === "") {
-      return NextResponse.json({ error: "Text is required and must be a non-empty string" }, { status: 400 });
+      // The new todo's own subtasks count towards the depth below the parent
+      const depthError = await validateNewSubtree(userId, parentId, parsed.value);
+      if (depthError) {
+        return NextResponse.json({ error: depthError }, { status: 400 });
+      }
     }
 
-    const newTodo = await db
-      .insert(todos)
-      .values({
-        userId,
-        text: text.trim(),
-        completed: false,
-        tags: tags || [],
-        priority: priority || "medium",
-        dueDate: dueDate ? new Date(dueDate) : null,
-        context: context || null,
-        aiGenerated: aiGenerated || false,
-      })
-      .returning();
+    // Insert the whole tree atomically so a failed subtask doesn't leave a half-built parent
+    const newTodo = await db.transaction((tx) => insertTodoTree(tx, userId, parsed.value, parentId ?? null, parentProjectId));
 
-    return NextResponse.json(newTodo[0], { status: 201 });
+    return NextResponse.json(newTodo, { status: 201 });
   } catch (error) {
     console.error("Error creating todo:", error);
     return NextResponse.json({ error: "Failed to create todo" }, { status: 500 });
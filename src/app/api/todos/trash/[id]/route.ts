@@ -0,0 +1,61 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, todos } from "@/lib/db";
+import { inArray } from "drizzle-orm";
+import { purgeTodo, restoreTodo } from "@/lib/trash";
+
+// POST /api/todos/trash/[id] - Restore a trashed todo (and the subtasks trashed with it)
+export async function POST(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid todo ID" }, { status: 400 });
+    }
+
+    const restoredIds = await restoreTodo(userId, id);
+
+    if (restoredIds.length === 0) {
+      return NextResponse.json({ error: "Todo not found in trash" }, { status: 404 });
+    }
+
+    const restored = await db.select().from(todos).where(inArray(todos.id, restoredIds));
+
+    return NextResponse.json({ todos: restored });
+  } catch (error) {
+    console.error("Error restoring todo:", error);
+    return NextResponse.json({ error: "Failed to restore todo" }, { status: 500 });
+  }
+}
+
+// DELETE /api/todos/trash/[id] - Permanently delete a trashed todo
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid todo ID" }, { status: 400 });
+    }
+
+    const purged = await purgeTodo(userId, id);
+
+    if (!purged) {
+      return NextResponse.json({ error: "Todo not found in trash" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "Todo permanently deleted" });
+  } catch (error) {
+    console.error("Error purging todo:", error);
+    return NextResponse.json({ error: "Failed to permanently delete todo" }, { status: 500 });
+  }
+}
@@ -0,0 +1,46 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, todos } from "@/lib/db";
+import { and, desc, eq, isNotNull } from "drizzle-orm";
+import { emptyTrash, getTrashRetentionDays, purgeExpiredTrash } from "@/lib/trash";
+
+// GET /api/todos/trash - List trashed todos for the current user (expired items are purged first)
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const retentionDays = getTrashRetentionDays();
+    await purgeExpiredTrash(retentionDays, userId);
+
+    const trashed = await db
+      .select()
+      .from(todos)
+      .where(and(eq(todos.userId, userId), isNotNull(todos.deletedAt)))
+      .orderBy(desc(todos.deletedAt));
+
+    return NextResponse.json({ todos: trashed, retentionDays });
+  } catch (error) {
+    console.error("Error fetching trash:", error);
+    return NextResponse.json({ error: "Failed to fetch trash" }, { status: 500 });
+  }
+}
+
+// DELETE /api/todos/trash - Permanently delete everything in the current user's trash
+export async function DELETE() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const purged = await emptyTrash(userId);
+
+    return NextResponse.json({ message: "Trash emptied", purged });
+  } catch (error) {
+    console.error("Error emptying trash:", error);
+    return NextResponse.json({ error: "Failed to empty trash" }, { status: 500 });
+  }
+}
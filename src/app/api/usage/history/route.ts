@@ -0,0 +1,40 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUsageHistory, type HistoryBucketSize } from "@/lib/aiLedger";
+
+const DEFAULT_DAYS: Record<HistoryBucketSize, number> = { day: 30, week: 84 };
+const MAX_HISTORY_DAYS = 365;
+
+// GET /api/usage/history - Requests over time by task, provider and model tier
+// ?bucket=day|week (default day) and ?days= (default 30 for daily, 84 for weekly)
+export async function GET(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const bucket = request.nextUrl.searchParams.get("bucket") ?? "day";
+    if (bucket !== "day" && bucket !== "week") {
+      return NextResponse.json({ error: 'Bucket must be "day" or "week"' }, { status: 400 });
+    }
+
+    const daysParam = request.nextUrl.searchParams.get("days");
+    const days = daysParam === null ? DEFAULT_DAYS[bucket] : Number(daysParam);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_HISTORY_DAYS) {
+      return NextResponse.json({ error: `Days must be an integer between 1 and ${MAX_HISTORY_DAYS}` }, { status: 400 });
+    }
+
+    const history = await getUsageHistory(userId, bucket, days);
+    return NextResponse.json({ bucket, days, history });
+  } catch (error) {
+    console.error("Error fetching usage history:", error);
+
+    if (error instanceof Error && error.message.includes('relation "ai_requests" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to fetch usage history" }, { status: 500 });
+  }
+}
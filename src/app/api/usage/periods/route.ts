@@ -0,0 +1,25 @@
+import { NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { getUsagePeriods } from "@/lib/usagePeriods";
+
+// GET /api/usage/periods - The current usage period and archived ones, newest first
+export async function GET() {
+  try {
+    const { userId } = await auth();
+
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const periods = await getUsagePeriods(userId);
+    return NextResponse.json({ periods });
+  } catch (error) {
+    console.error("Error fetching usage periods:", error);
+
+    if (error instanceof Error && error.message.includes('relation "usage_periods" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to fetch usage periods" }, { status: 500 });
+  }
+}
@@ -1,10 +1,18 @@
-import { NextResponse } from "next/server";
+import { NextRequest, NextResponse } from "next/server";
 import { auth } from "@clerk/nextjs/server";
 import { db, usage } from "@/lib/db";
 import { eq } from "drizzle-orm";
+import { getUsageBreakdown } from "@/lib/aiLedger";
+import { getAIBudgetStatus, getDeploymentLimits } from "@/lib/aiBudget";
+import { archiveUsagePeriod } from "@/lib/usagePeriods";
+
+const DEFAULT_BREAKDOWN_DAYS = 30;
+const MAX_BREAKDOWN_DAYS = 365;
 
 // GET /api/usage - Get usage statistics for the current user
-export async function GET() {
+// Lifetime counters, a token/cost breakdown from the ai_requests ledger (?days=30 by default)
+// and where the user stands against today's AI budget
+export async function GET(request: NextRequest) {
   try {
     const { userId } = await auth();
 
@@ -12,6 +20,14 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const daysParam = request.nextUrl.searchParams.get("days");
+    const days = daysParam === null ? DEFAULT_BREAKDOWN_DAYS : Number(daysParam);
+    if (!Number.isInteger(days) || days < 1 || days > MAX_BREAKDOWN_DAYS) {
+      return NextResponse.json({ error: `Days must be an integer between 1 and ${MAX_BREAKDOWN_DAYS}` }, { status: 400 });
+    }
+    const breakdown = await getUsageBreakdown(userId, days);
+    const budget = { ...(await getAIBudgetStatus(userId)), maxLimits: getDeploymentLimits() };
+
     // Get or create usage record for this user
     let userUsage = await db.select().from(usage).where(eq(usage.userId, userId)).limit(1);
 
@@ -37,7 +53,10 @@ export async function GET() {
         openaiRequests: 0,
         lastAnthropicModel: null,
         lastOpenaiModel: null,
+        periodStartedAt: newUsage[0].periodStartedAt,
         lastUpdated: newUsage[0].updatedAt,
+        breakdown,
+        budget,
       });
     }
 
@@ -50,7 +69,10 @@ export async function GET() {
       openaiRequests: stats.openaiRequests,
       lastAnthropicModel: stats.lastAnthropicModel,
       lastOpenaiModel: stats.lastOpenaiModel,
+      periodStartedAt: stats.periodStartedAt,
       lastUpdated: stats.updatedAt,
+      breakdown,
+      budget,
     });
   } catch (error: any) {
     console.error("Error fetching usage:", error);
@@ -65,6 +87,7 @@ export async function GET() {
 }
 
 // DELETE /api/usage - Reset usage statistics for the current user
+// The current period is archived to usage_periods (see GET /api/usage/periods) before the counters restart
 export async function DELETE() {
   try {
     const { userId } = await auth();
@@ -73,20 +96,9 @@ export async function DELETE() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    // Reset all counters to 0
-    await db
-      .update(usage)
-      .set({
-        totalRequests: 0,
-        extractRequests: 0,
-        queryRequests: 0,
-        anthropicRequests: 0,
-        openaiRequests: 0,
-        updatedAt: new Date(),
-      })
-      .where(eq(usage.userId, userId));
+    const archived = await archiveUsagePeriod(userId);
 
-    return NextResponse.json({ message: "Usage statistics reset successfully" });
+    return NextResponse.json({ message: "Usage statistics reset successfully", archived });
   } catch (error) {
     console.error("Error resetting usage:", error);
     return NextResponse.json({ error: "Failed to reset usage statistics" }, { status: 500 });
@@ -0,0 +1,72 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, savedViews } from "@/lib/db";
+import { and, eq } from "drizzle-orm";
+import { parseSavedViewInput } from "@/lib/savedViews";
+
+// PUT /api/views/[id] - Rename, change the filters of, or reorder a saved view (only if owned by current user)
+export async function PUT(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid view ID" }, { status: 400 });
+    }
+
+    const body = await request.json();
+    const parsed = parseSavedViewInput(body, false);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const updatedViews = await db
+      .update(savedViews)
+      .set({ ...parsed.value, updatedAt: new Date() })
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)))
+      .returning();
+
+    if (updatedViews.length === 0) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    return NextResponse.json(updatedViews[0]);
+  } catch (error) {
+    console.error("Error updating saved view:", error);
+    return NextResponse.json({ error: "Failed to update saved view" }, { status: 500 });
+  }
+}
+
+// DELETE /api/views/[id] - Delete a saved view (its todos are untouched)
+export async function DELETE(request: NextRequest, { params }: { params: Promise<{ id: string }> }) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { id: idParam } = await params;
+    const id = parseInt(idParam);
+    if (isNaN(id)) {
+      return NextResponse.json({ error: "Invalid view ID" }, { status: 400 });
+    }
+
+    const deletedViews = await db
+      .delete(savedViews)
+      .where(and(eq(savedViews.id, id), eq(savedViews.userId, userId)))
+      .returning();
+
+    if (deletedViews.length === 0) {
+      return NextResponse.json({ error: "View not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({ message: "View deleted successfully" });
+  } catch (error) {
+    console.error("Error deleting saved view:", error);
+    return NextResponse.json({ error: "Failed to delete saved view" }, { status: 500 });
+  }
+}
@@ -0,0 +1,76 @@
+import { NextRequest, NextResponse } from "next/server";
+import { auth } from "@clerk/nextjs/server";
+import { db, savedViews } from "@/lib/db";
+import { count, eq, max } from "drizzle-orm";
+import { getUserViews, MAX_SAVED_VIEWS, parseSavedViewInput } from "@/lib/savedViews";
+import { countTodosByQuery, parseTodoListQuery, type TodoListQuery } from "@/lib/todoSearch";
+import { getUserTimeZone } from "@/lib/profileContext";
+import { DEFAULT_TIME_ZONE } from "@/lib/timezone";
+
+// GET /api/views - List the current user's saved views, each with a live count of matching todos
+export async function GET() {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const views = await getUserViews(userId);
+    // Due presets ("today", "this-week") are read in the user's time zone
+    const timeZone = views.length > 0 ? await getUserTimeZone(userId) : DEFAULT_TIME_ZONE;
+    const queries = views.map((view) => parseTodoListQuery(new URLSearchParams(view.query)));
+    const valid = queries.flatMap((parsed): TodoListQuery[] => ("value" in parsed ? [parsed.value] : []));
+    const counts = await countTodosByQuery(userId, valid, timeZone);
+
+    // A view whose stored query no longer parses counts nothing
+    let next = 0;
+    return NextResponse.json(views.map((view, i) => ({ ...view, count: "value" in queries[i] ? counts[next++] : 0 })));
+  } catch (error) {
+    console.error("Error fetching saved views:", error);
+
+    if (error instanceof Error && error.message.includes('relation "saved_views" does not exist')) {
+      return NextResponse.json({ error: "Database not initialized", needsSetup: true }, { status: 503 });
+    }
+
+    return NextResponse.json({ error: "Failed to fetch saved views" }, { status: 500 });
+  }
+}
+
+// POST /api/views - Save a view (appended to the end of the list unless sortOrder is given)
+export async function POST(request: NextRequest) {
+  try {
+    const { userId } = await auth();
+    if (!userId) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const body = await request.json();
+    const parsed = parseSavedViewInput(body, true);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const [{ total, maxOrder }] = await db
+      .select({ total: count(), maxOrder: max(savedViews.sortOrder) })
+      .from(savedViews)
+      .where(eq(savedViews.userId, userId));
+    if (total >= MAX_SAVED_VIEWS) {
+      return NextResponse.json({ error: `You can save at most ${MAX_SAVED_VIEWS} views` }, { status: 400 });
+    }
+
+    const newView = await db
+      .insert(savedViews)
+      .values({
+        userId,
+        name: parsed.value.name!,
+        query: parsed.value.query!,
+        sortOrder: parsed.value.sortOrder ?? (maxOrder ?? -1) + 1,
+      })
+      .returning();
+
+    return NextResponse.json(newView[0], { status: 201 });
+  } catch (error) {
+    console.error("Error creating saved view:", error);
+    return NextResponse.json({ error: "Failed to create saved view" }, { status: 500 });
+  }
+}
@@ -3,6 +3,7 @@
 import { useState, useEffect } from "react";
 import { UserButton, useUser } from "@clerk/nextjs";
 import Link from "next/link";
+import { getBrowserTimeZone } from "@/lib/timezone";
 
 interface UserProfile {
   userId: string;
@@ -14,6 +15,7 @@ interface UserProfile {
   currentBedtime: string | null;
   idealBedtime: string | null;
   bio: string | null;
+  timezone: string | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -35,6 +37,7 @@ export default function ProfilePage() {
   const [currentBedtime, setCurrentBedtime] = useState<string>("");
   const [idealBedtime, setIdealBedtime] = useState<string>("");
   const [bio, setBio] = useState<string>("");
+  const [timezone, setTimezone] = useState<string>(() => getBrowserTimeZone());
 
   // Load profile on mount
   useEffect(() => {
@@ -61,6 +64,7 @@ export default function ProfilePage() {
         setCurrentBedtime(data.currentBedtime || "");
         setIdealBedtime(data.idealBedtime || "");
         setBio(data.bio || "");
+        setTimezone(data.timezone || getBrowserTimeZone());
       } else if (res.status === 404) {
         // No profile yet - that's ok, form will be empty
         setProfile(null);
@@ -91,6 +95,7 @@ export default function ProfilePage() {
         currentBedtime: currentBedtime || null,
         idealBedtime: idealBedtime || null,
         bio: bio || null,
+        timezone,
       };
 
       const res = await fetch("/api/profile", {
@@ -269,6 +274,22 @@ export default function ProfilePage() {
                 </div>
               </div>
               <p className="text-xs text-gray-500 mt-2">💡 AI uses this to suggest optimal times for tasks based on your energy levels</p>
+
+              <div className="mt-4">
+                <label className="block text-sm font-medium text-gray-700 mb-1">Time Zone</label>
+                <select
+                  value={timezone}
+                  onChange={(e) => setTimezone(e.target.value)}
+                  className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-purple-500 focus:border-transparent text-black bg-white"
+                >
+                  {[...new Set([timezone, ...Intl.supportedValuesOf("timeZone")])].map((zone) => (
+                    <option key={zone} value={zone}>
+                      {zone.replace(/_/g, " ")}
+                    </option>
+                  ))}
+                </select>
+                <p className="text-xs text-gray-500 mt-2">💡 Decides what &quot;today&quot; and &quot;tomorrow&quot; mean for due dates, your schedule and AI suggestions</p>
+              </div>
             </div>
 
             {/* Bio Section */}
@@ -322,7 +343,12 @@ Example: I'm a morning person who likes to tackle creative work early. I have yo
           </h4>
           <ul className="text-sm text-blue-800 space-y-1">
             <li>• Your profile data is private and only visible to you</li>
-            <li>• AI uses this context to enhance your todo suggestions</li>
+            <li>
+              • AI uses this context to enhance your todo suggestions; choose which fields are shared with AI providers in{" "}
+              <Link href="/settings" className="underline hover:text-blue-900">
+                Settings
+              </Link>
+            </li>
             <li>• You can update or delete your information anytime</li>
             <li>• All data is encrypted and stored securely</li>
           </ul>
@@ -3,6 +3,53 @@
 import { useState, useEffect } from "react";
 import { UserButton } from "@clerk/nextjs";
 import Link from "next/link";
+import UsageHistoryChart, { type UsageHistoryBucket } from "@/components/UsageHistoryChart";
+import { DEFAULT_SHARED_PROFILE_FIELDS, PROFILE_FIELD_LABELS, PROFILE_FIELDS, type ProfileField } from "@/lib/profileFields";
+
+interface UsageBucket {
+  key: string;
+  requests: number;
+  failures: number;
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+interface UsageBreakdown {
+  days: number;
+  totals: UsageBucket;
+  byDay: UsageBucket[];
+  byModel: UsageBucket[];
+  byRoute: UsageBucket[];
+  escalations: UsageBucket;
+}
+
+interface BudgetLimits {
+  requestsPerMinute: number;
+  dailyTokens: number;
+  dailyCostUsd: number;
+}
+
+interface BudgetStatus {
+  limits: BudgetLimits;
+  maxLimits: BudgetLimits;
+  requestsLastMinute: number;
+  tokensToday: number;
+  costTodayUsd: number;
+  remainingTokens: number;
+  remainingCostUsd: number;
+  downgraded: boolean;
+  blocked: { reason: string; retryAfterSeconds: number } | null;
+  resetsAt: string;
+}
+
+// Personal limits as typed into the form ("" = use the deployment limit)
+interface BudgetForm {
+  aiRequestsPerMinute: string;
+  aiDailyTokenBudget: string;
+  aiDailyCostBudgetUsd: string;
+}
 
 interface UsageStats {
   totalRequests: number;
@@ -12,7 +59,33 @@ interface UsageStats {
   openaiRequests: number;
   lastAnthropicModel: string | null;
   lastOpenaiModel: string | null;
+  periodStartedAt: string;
   lastUpdated: string;
+  breakdown?: UsageBreakdown;
+  budget?: BudgetStatus;
+}
+
+const formatCost = (usd: number) => (usd > 0 && usd < 0.01 ? "<$0.01" : `$${usd.toFixed(2)}`);
+
+// A reset archives the current period; the open one has no id or end
+interface UsagePeriod {
+  id: number | null;
+  startedAt: string;
+  endedAt: string | null;
+  totalRequests: number;
+  extractRequests: number;
+  queryRequests: number;
+  anthropicRequests: number;
+  openaiRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+interface ProviderInfo {
+  name: string;
+  label: string;
+  configured: boolean;
 }
 
 export default function SettingsPage() {
@@ -20,11 +93,201 @@ export default function SettingsPage() {
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
   const [needsSetup, setNeedsSetup] = useState(false);
+  const [reviewBeforeSave, setReviewBeforeSave] = useState(false);
+  const [savingPreferences, setSavingPreferences] = useState(false);
+  const [providers, setProviders] = useState<ProviderInfo[]>([]);
+  const [defaultProviderOrder, setDefaultProviderOrder] = useState<string[]>([]);
+  const [aiProviderOrder, setAiProviderOrder] = useState<string[] | null>(null);
+  const [aiSharedProfileFields, setAiSharedProfileFields] = useState<ProfileField[] | null>(null);
+  const [budgetForm, setBudgetForm] = useState<BudgetForm>({ aiRequestsPerMinute: "", aiDailyTokenBudget: "", aiDailyCostBudgetUsd: "" });
+  const [historyBucket, setHistoryBucket] = useState<"day" | "week">("day");
+  const [history, setHistory] = useState<UsageHistoryBucket[]>([]);
+  const [periods, setPeriods] = useState<UsagePeriod[]>([]);
 
   useEffect(() => {
     fetchUsageStats();
+    fetchPreferences();
+    fetchProviders();
+    fetchPeriods();
   }, []);
 
+  useEffect(() => {
+    fetchHistory(historyBucket);
+  }, [historyBucket]);
+
+  const fetchHistory = async (bucket: "day" | "week") => {
+    try {
+      const response = await fetch(`/api/usage/history?bucket=${bucket}`);
+      if (!response.ok) return;
+      const data = await response.json();
+      setHistory(data.history);
+    } catch (err) {
+      console.error("Error fetching usage history:", err);
+    }
+  };
+
+  const fetchPeriods = async () => {
+    try {
+      const response = await fetch("/api/usage/periods");
+      if (!response.ok) return;
+      const data = await response.json();
+      setPeriods(data.periods);
+    } catch (err) {
+      console.error("Error fetching usage periods:", err);
+    }
+  };
+
+  const fetchProviders = async () => {
+    try {
+      const response = await fetch("/api/ai/providers");
+      if (!response.ok) return;
+      const data = await response.json();
+      setProviders(data.providers);
+      setDefaultProviderOrder(data.defaultOrder);
+    } catch (err) {
+      console.error("Error fetching AI providers:", err);
+    }
+  };
+
+  const fetchPreferences = async () => {
+    try {
+      const response = await fetch("/api/preferences");
+      if (!response.ok) return;
+      const data = await response.json();
+      setReviewBeforeSave(data.reviewBeforeSave === true);
+      setAiProviderOrder(Array.isArray(data.aiProviderOrder) ? data.aiProviderOrder : null);
+      setAiSharedProfileFields(Array.isArray(data.aiSharedProfileFields) ? data.aiSharedProfileFields : null);
+      setBudgetForm({
+        aiRequestsPerMinute: data.aiRequestsPerMinute?.toString() ?? "",
+        aiDailyTokenBudget: data.aiDailyTokenBudget?.toString() ?? "",
+        aiDailyCostBudgetUsd: data.aiDailyCostBudgetUsd?.toString() ?? "",
+      });
+    } catch (err) {
+      console.error("Error fetching preferences:", err);
+    }
+  };
+
+  const toggleReviewBeforeSave = async () => {
+    const enabled = !reviewBeforeSave;
+    try {
+      setSavingPreferences(true);
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewBeforeSave: enabled }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update preferences");
+      }
+
+      setReviewBeforeSave(enabled);
+    } catch (err) {
+      setError("Failed to update preferences");
+      console.error("Error updating preferences:", err);
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  // null resets to the deployment's order
+  const saveProviderOrder = async (order: string[] | null) => {
+    try {
+      setSavingPreferences(true);
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ aiProviderOrder: order }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update preferences");
+      }
+
+      setAiProviderOrder(order);
+    } catch (err) {
+      setError("Failed to update preferences");
+      console.error("Error updating preferences:", err);
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  const toggleSharedProfileField = async (name: ProfileField) => {
+    const current = aiSharedProfileFields ?? DEFAULT_SHARED_PROFILE_FIELDS;
+    const fields = current.includes(name) ? current.filter((field) => field !== name) : [...current, name];
+    try {
+      setSavingPreferences(true);
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ aiSharedProfileFields: fields }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update preferences");
+      }
+
+      setAiSharedProfileFields(fields);
+    } catch (err) {
+      setError("Failed to update preferences");
+      console.error("Error updating preferences:", err);
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  const saveBudgetLimits = async () => {
+    const toLimit = (value: string) => (value.trim() === "" ? null : Number(value));
+    try {
+      setSavingPreferences(true);
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({
+          aiRequestsPerMinute: toLimit(budgetForm.aiRequestsPerMinute),
+          aiDailyTokenBudget: toLimit(budgetForm.aiDailyTokenBudget),
+          aiDailyCostBudgetUsd: toLimit(budgetForm.aiDailyCostBudgetUsd),
+        }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => ({}));
+        throw new Error(data.error || "Failed to update budget");
+      }
+
+      // Remaining budget depends on the new limits
+      fetchUsageStats();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to update budget");
+      console.error("Error updating budget:", err);
+    } finally {
+      setSavingPreferences(false);
+    }
+  };
+
+  // Usable providers, the ones in use first (in order), then the rest
+  const activeProviderOrder = (aiProviderOrder ?? defaultProviderOrder).filter((name) => providers.some((p) => p.name === name && p.configured));
+  const orderedProviders = [
+    ...activeProviderOrder.map((name) => providers.find((p) => p.name === name)!),
+    ...providers.filter((p) => p.configured && !activeProviderOrder.includes(p.name)),
+  ];
+
+  const moveProvider = (name: string, offset: number) => {
+    const order = [...activeProviderOrder];
+    const index = order.indexOf(name);
+    const target = index + offset;
+    if (index < 0 || target < 0 || target >= order.length) return;
+    [order[index], order[target]] = [order[target], order[index]];
+    saveProviderOrder(order);
+  };
+
+  const toggleProvider = (name: string) => {
+    const order = activeProviderOrder.includes(name) ? activeProviderOrder.filter((n) => n !== name) : [...activeProviderOrder, name];
+    if (order.length === 0) return; // Keep at least one provider
+    saveProviderOrder(order);
+  };
+
   const fetchUsageStats = async () => {
     try {
       setLoading(true);
@@ -77,7 +340,7 @@ export default function SettingsPage() {
   };
 
   const resetStats = async () => {
-    if (!confirm("Are you sure you want to reset your usage statistics?")) {
+    if (!confirm("Reset your usage statistics? The current period will be archived so you can still compare it later.")) {
       return;
     }
 
@@ -90,7 +353,7 @@ export default function SettingsPage() {
         throw new Error("Failed to reset stats");
       }
 
-      await fetchUsageStats();
+      await Promise.all([fetchUsageStats(), fetchPeriods()]);
     } catch (err) {
       setError("Failed to reset statistics");
       console.error("Error resetting stats:", err);
@@ -185,6 +448,198 @@ export default function SettingsPage() {
           </div>
         )}
 
+        {/* Preferences */}
+        <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 mb-6">
+          <div className="flex items-center gap-2 mb-4">
+            <span className="text-2xl">⚙️</span>
+            <h3 className="text-xl font-semibold text-gray-900">Preferences</h3>
+          </div>
+          <label className="flex items-start justify-between gap-4 cursor-pointer">
+            <div>
+              <p className="font-medium text-gray-800">Review AI suggestions before saving</p>
+              <p className="text-sm text-gray-600">Extracted todos wait in a review tray where you can edit, accept or reject them. Turn off to save them automatically.</p>
+            </div>
+            <input
+              type="checkbox"
+              checked={reviewBeforeSave}
+              onChange={toggleReviewBeforeSave}
+              disabled={savingPreferences}
+              className="mt-1 h-5 w-5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+            />
+          </label>
+
+          {orderedProviders.length > 0 && (
+            <div className="mt-6 pt-6 border-t border-gray-200">
+              <div className="flex items-start justify-between gap-4 mb-3">
+                <div>
+                  <p className="font-medium text-gray-800">AI provider order</p>
+                  <p className="text-sm text-gray-600">Providers are tried top to bottom; if one fails, the next takes over.</p>
+                </div>
+                {aiProviderOrder && (
+                  <button
+                    onClick={() => saveProviderOrder(null)}
+                    disabled={savingPreferences}
+                    className="px-3 py-1 text-sm text-gray-600 hover:bg-gray-100 border border-gray-300 rounded-lg transition-colors whitespace-nowrap disabled:opacity-50"
+                  >
+                    Use default
+                  </button>
+                )}
+              </div>
+              <ul className="space-y-2">
+                {orderedProviders.map((provider) => {
+                  const position = activeProviderOrder.indexOf(provider.name);
+                  return (
+                    <li key={provider.name} className="flex items-center gap-3 p-2 border border-gray-200 rounded-lg">
+                      <input
+                        type="checkbox"
+                        checked={position >= 0}
+                        onChange={() => toggleProvider(provider.name)}
+                        disabled={savingPreferences || (position >= 0 && activeProviderOrder.length === 1)}
+                        className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                      />
+                      <span className={`flex-1 text-sm ${position >= 0 ? "text-gray-800" : "text-gray-400"}`}>
+                        {position >= 0 && <span className="font-mono text-xs text-gray-500 mr-2">{position + 1}.</span>}
+                        {provider.label}
+                      </span>
+                      {position >= 0 && (
+                        <div className="flex gap-1">
+                          <button
+                            onClick={() => moveProvider(provider.name, -1)}
+                            disabled={savingPreferences || position === 0}
+                            className="px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+                            title="Move up"
+                          >
+                            ▲
+                          </button>
+                          <button
+                            onClick={() => moveProvider(provider.name, 1)}
+                            disabled={savingPreferences || position === activeProviderOrder.length - 1}
+                            className="px-2 py-0.5 text-xs text-gray-600 hover:bg-gray-100 rounded disabled:opacity-30"
+                            title="Move down"
+                          >
+                            ▼
+                          </button>
+                        </div>
+                      )}
+                    </li>
+                  );
+                })}
+              </ul>
+            </div>
+          )}
+
+          <div className="mt-6 pt-6 border-t border-gray-200">
+            <p className="font-medium text-gray-800">Share profile with AI</p>
+            <p className="text-sm text-gray-600 mb-3">
+              Checked fields from your{" "}
+              <Link href="/profile" className="text-purple-600 hover:underline">
+                profile
+              </Link>{" "}
+              are sent to AI providers so &quot;after work&quot; or &quot;before bed&quot; land at the right time and tags fit your life.
+            </p>
+            <div className="flex flex-wrap gap-x-6 gap-y-2">
+              {PROFILE_FIELDS.map((field) => (
+                <label key={field} className="flex items-center gap-2 text-sm text-gray-800 cursor-pointer">
+                  <input
+                    type="checkbox"
+                    checked={(aiSharedProfileFields ?? DEFAULT_SHARED_PROFILE_FIELDS).includes(field)}
+                    onChange={() => toggleSharedProfileField(field)}
+                    disabled={savingPreferences}
+                    className="h-4 w-4 text-purple-600 focus:ring-purple-500 border-gray-300 rounded"
+                  />
+                  {PROFILE_FIELD_LABELS[field]}
+                </label>
+              ))}
+            </div>
+          </div>
+        </div>
+
+        {/* AI Budget */}
+        {usage?.budget && (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 mb-6">
+            <div className="flex items-center gap-2 mb-4">
+              <span className="text-2xl">💰</span>
+              <h3 className="text-xl font-semibold text-gray-900">Today&apos;s AI Budget</h3>
+            </div>
+
+            {usage.budget.blocked ? (
+              <p className="mb-4 p-3 bg-red-50 border border-red-200 rounded-lg text-sm text-red-700">
+                {usage.budget.blocked.reason}. AI features resume in {Math.ceil(usage.budget.blocked.retryAfterSeconds / 60)} min.
+              </p>
+            ) : (
+              usage.budget.downgraded && (
+                <p className="mb-4 p-3 bg-amber-50 border border-amber-200 rounded-lg text-sm text-amber-800">Budget running low: AI requests use the fast models only until it resets.</p>
+              )
+            )}
+
+            <div className="space-y-3 mb-4">
+              {[
+                {
+                  label: "Tokens",
+                  used: usage.budget.tokensToday,
+                  limit: usage.budget.limits.dailyTokens,
+                  text: `${usage.budget.remainingTokens.toLocaleString()} of ${usage.budget.limits.dailyTokens.toLocaleString()} left`,
+                },
+                {
+                  label: "Cost",
+                  used: usage.budget.costTodayUsd,
+                  limit: usage.budget.limits.dailyCostUsd,
+                  text: `${formatCost(usage.budget.remainingCostUsd)} of ${formatCost(usage.budget.limits.dailyCostUsd)} left`,
+                },
+              ].map((meter) => (
+                <div key={meter.label}>
+                  <div className="flex justify-between text-sm mb-1">
+                    <span className="text-gray-700 font-medium">{meter.label}</span>
+                    <span className="text-gray-600">{meter.text}</span>
+                  </div>
+                  <div className="h-2 bg-gray-100 rounded-full overflow-hidden">
+                    <div
+                      className={`h-full rounded-full ${meter.used / meter.limit > 0.8 ? "bg-amber-500" : "bg-purple-500"}`}
+                      style={{ width: `${Math.min((meter.used / meter.limit) * 100, 100)}%` }}
+                    ></div>
+                  </div>
+                </div>
+              ))}
+              <p className="text-xs text-gray-500">
+                {usage.budget.requestsLastMinute} of {usage.budget.limits.requestsPerMinute} requests used this minute · Resets at {new Date(usage.budget.resetsAt).toLocaleTimeString()}
+              </p>
+            </div>
+
+            <div className="border-t border-gray-200 pt-4">
+              <p className="font-medium text-gray-800 mb-1">Personal limits</p>
+              <p className="text-sm text-gray-600 mb-3">Cap your own AI usage below the app limits. Leave a field empty to use the app limit.</p>
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3 mb-3">
+                {[
+                  { key: "aiRequestsPerMinute" as const, label: "Requests / minute", max: usage.budget.maxLimits.requestsPerMinute, step: "1" },
+                  { key: "aiDailyTokenBudget" as const, label: "Tokens / day", max: usage.budget.maxLimits.dailyTokens, step: "1000" },
+                  { key: "aiDailyCostBudgetUsd" as const, label: "Cost / day (USD)", max: usage.budget.maxLimits.dailyCostUsd, step: "0.01" },
+                ].map((field) => (
+                  <label key={field.key} className="text-sm text-gray-700">
+                    {field.label}
+                    <input
+                      type="number"
+                      min="0"
+                      max={field.max}
+                      step={field.step}
+                      value={budgetForm[field.key]}
+                      placeholder={`${field.max}`}
+                      onChange={(e) => setBudgetForm((prev) => ({ ...prev, [field.key]: e.target.value }))}
+                      className="mt-1 w-full px-3 py-2 border border-gray-300 rounded-lg text-gray-900 focus:ring-2 focus:ring-purple-500 focus:border-transparent"
+                    />
+                  </label>
+                ))}
+              </div>
+              <button
+                onClick={saveBudgetLimits}
+                disabled={savingPreferences}
+                className="px-4 py-2 bg-purple-600 text-white text-sm rounded-lg hover:bg-purple-700 transition-colors disabled:opacity-50"
+              >
+                Save limits
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* AI Usage Statistics */}
         <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 mb-6">
           <div className="flex items-center justify-between mb-4">
@@ -193,7 +648,7 @@ export default function SettingsPage() {
               <h3 className="text-xl font-semibold text-gray-900">AI Usage Statistics</h3>
             </div>
             <button onClick={resetStats} className="px-3 py-1 text-sm text-red-600 hover:bg-red-50 border border-red-300 rounded-lg transition-colors">
-              Reset Stats
+              Archive & Reset
             </button>
           </div>
 
@@ -249,14 +704,139 @@ export default function SettingsPage() {
                 </div>
               </div>
 
+              {/* Tokens & Cost (from the per-request ledger) */}
+              {usage.breakdown && usage.breakdown.totals.requests > 0 && (
+                <div className="border-t border-gray-200 pt-4">
+                  <p className="text-sm font-semibold text-gray-700 mb-3">Tokens & Estimated Cost (last {usage.breakdown.days} days)</p>
+                  <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                      <p className="text-xs text-gray-600">Calls</p>
+                      <p className="text-lg font-bold text-gray-900">{usage.breakdown.totals.requests}</p>
+                      {usage.breakdown.totals.failures > 0 && <p className="text-xs text-red-600">{usage.breakdown.totals.failures} failed or invalid</p>}
+                    </div>
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                      <p className="text-xs text-gray-600">Tokens in / out</p>
+                      <p className="text-lg font-bold text-gray-900">
+                        {usage.breakdown.totals.inputTokens.toLocaleString()} / {usage.breakdown.totals.outputTokens.toLocaleString()}
+                      </p>
+                    </div>
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                      <p className="text-xs text-gray-600">Estimated cost</p>
+                      <p className="text-lg font-bold text-gray-900">{formatCost(usage.breakdown.totals.costUsd)}</p>
+                    </div>
+                    <div className="bg-gray-50 border border-gray-200 rounded-lg p-3">
+                      <p className="text-xs text-gray-600">Escalations</p>
+                      <p className="text-lg font-bold text-gray-900">{usage.breakdown.escalations.requests}</p>
+                      <p className="text-xs text-gray-500">{formatCost(usage.breakdown.escalations.costUsd)}</p>
+                    </div>
+                  </div>
+                  <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                    {[
+                      { title: "By model", buckets: usage.breakdown.byModel },
+                      { title: "By route", buckets: usage.breakdown.byRoute },
+                    ].map(({ title, buckets }) => (
+                      <table key={title} className="w-full text-sm">
+                        <thead>
+                          <tr className="text-left text-xs text-gray-500">
+                            <th className="font-medium pb-1">{title}</th>
+                            <th className="font-medium pb-1 text-right">Calls</th>
+                            <th className="font-medium pb-1 text-right">Tokens</th>
+                            <th className="font-medium pb-1 text-right">Cost</th>
+                          </tr>
+                        </thead>
+                        <tbody>
+                          {buckets.map((bucket) => (
+                            <tr key={bucket.key} className="border-t border-gray-100">
+                              <td className="py-1 font-mono text-xs text-gray-700">{bucket.key}</td>
+                              <td className="py-1 text-right text-gray-700">{bucket.requests}</td>
+                              <td className="py-1 text-right text-gray-700">{(bucket.inputTokens + bucket.outputTokens).toLocaleString()}</td>
+                              <td className="py-1 text-right text-gray-700">{formatCost(bucket.costUsd)}</td>
+                            </tr>
+                          ))}
+                        </tbody>
+                      </table>
+                    ))}
+                  </div>
+                </div>
+              )}
+
               {/* Last Updated */}
-              <div className="text-xs text-gray-500 text-center pt-2">Last updated: {new Date(usage.lastUpdated).toLocaleString()}</div>
+              <div className="text-xs text-gray-500 text-center pt-2">
+                Counting since {new Date(usage.periodStartedAt).toLocaleDateString()} · Last updated: {new Date(usage.lastUpdated).toLocaleString()}
+              </div>
             </div>
           ) : (
             <div className="text-center py-8 text-gray-500">No usage data available</div>
           )}
         </div>
 
+        {/* Usage History */}
+        {!loading && usage && (
+          <div className="bg-white rounded-xl shadow-lg border border-gray-200 p-6 mb-6">
+            <div className="flex items-center justify-between mb-4">
+              <div className="flex items-center gap-2">
+                <span className="text-2xl">📈</span>
+                <h3 className="text-xl font-semibold text-gray-900">Usage History</h3>
+              </div>
+              <div className="flex border border-gray-300 rounded-lg overflow-hidden text-sm">
+                {(["day", "week"] as const).map((bucket) => (
+                  <button
+                    key={bucket}
+                    onClick={() => setHistoryBucket(bucket)}
+                    className={`px-3 py-1 transition-colors ${historyBucket === bucket ? "bg-purple-600 text-white" : "text-gray-700 hover:bg-gray-50"}`}
+                  >
+                    {bucket === "day" ? "Daily" : "Weekly"}
+                  </button>
+                ))}
+              </div>
+            </div>
+
+            {history.some((bucket) => bucket.requests > 0) ? (
+              <div className="space-y-6">
+                <UsageHistoryChart title="Requests by type" buckets={history} series="byTask" />
+                <UsageHistoryChart title="Requests by provider" buckets={history} series="byProvider" />
+                <UsageHistoryChart title="Requests by model tier" buckets={history} series="byTier" />
+              </div>
+            ) : (
+              <div className="text-center py-6 text-gray-500 text-sm">No AI requests in this window yet</div>
+            )}
+
+            {/* Periods (one per reset) */}
+            {periods.length > 1 && (
+              <div className="border-t border-gray-200 pt-4 mt-6">
+                <p className="text-sm font-semibold text-gray-700 mb-3">Periods</p>
+                <table className="w-full text-sm">
+                  <thead>
+                    <tr className="text-left text-xs text-gray-500">
+                      <th className="font-medium pb-1">Period</th>
+                      <th className="font-medium pb-1 text-right">Requests</th>
+                      <th className="font-medium pb-1 text-right">Extract / Query</th>
+                      <th className="font-medium pb-1 text-right">Tokens</th>
+                      <th className="font-medium pb-1 text-right">Cost</th>
+                    </tr>
+                  </thead>
+                  <tbody>
+                    {periods.map((period) => (
+                      <tr key={period.id ?? "current"} className="border-t border-gray-100">
+                        <td className="py-1 text-gray-700">
+                          {new Date(period.startedAt).toLocaleDateString()} – {period.endedAt ? new Date(period.endedAt).toLocaleDateString() : "now"}
+                          {period.id === null && <span className="ml-2 text-xs text-purple-600">current</span>}
+                        </td>
+                        <td className="py-1 text-right text-gray-700">{period.totalRequests}</td>
+                        <td className="py-1 text-right text-gray-700">
+                          {period.extractRequests} / {period.queryRequests}
+                        </td>
+                        <td className="py-1 text-right text-gray-700">{(period.inputTokens + period.outputTokens).toLocaleString()}</td>
+                        <td className="py-1 text-right text-gray-700">{formatCost(period.estimatedCostUsd)}</td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            )}
+          </div>
+        )}
+
         {/* Info Section */}
         <div className="bg-blue-50 border border-blue-200 rounded-lg p-4">
           <div className="flex items-start gap-3">
@@ -1,8 +1,13 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { UserButton } from "@clerk/nextjs";
+import { useState, useEffect, useRef } from "react";
+import { UserButton, useAuth } from "@clerk/nextjs";
 import { getRandomTagline, getTopTagline } from "@/lib/taglines";
+import { describeRecurrence } from "@/lib/recurrence";
+import { addDaysToKey, dueDateKey, formatDateKey, formatTimeInZone, getBrowserTimeZone, isValidTimeZone, scheduleDateKey, toDateKey, todayKey, toLocalSchedule, toScheduleInput, toZonedISOString, zonedDateTime, type LocalSchedule } from "@/lib/timezone";
+import { isSnoozed, resolveSnoozePreset, SNOOZE_PRESETS, type SnoozePreset } from "@/lib/snooze";
+import { deleteDraft, getRetryDelay, loadDrafts, MAX_AUTO_RETRIES, saveDraft, type Draft } from "@/lib/draftStore";
+import type { TodoFilter } from "@/lib/queryFilter";
 import Link from "next/link";
 
 interface Todo {
@@ -13,20 +18,128 @@ interface Todo {
   // AI-enhanced fields
   tags: string[];
   priority: "high" | "medium" | "low";
-  dueDate: string | null;
+  dueDate: string | null; // Calendar day it's due
+  dueAt: string | null; // Exact due time unless allDay
+  startAt: string | null; // Hidden from Today until it starts
+  allDay: boolean;
+  snoozedUntil: string | null; // Hidden from the list until then
   context: string | null;
   aiGenerated: boolean;
+  recurrence: string | null; // RRULE string
+  parentId: number | null; // Set on subtasks
+  projectId: number | null; // null = inbox
 
   createdAt: string;
   updatedAt: string;
 }
 
-interface Draft {
-  id: string; // client-generated id
+// POST /api/todos returns the created todo with its subtasks nested
+type SavedTodoTree = Todo & { subtasks?: SavedTodoTree[] };
+
+const flattenTodoTree = (tree: SavedTodoTree): Todo[] => {
+  const { subtasks = [], ...todo } = tree;
+  return [todo, ...subtasks.flatMap(flattenTodoTree)];
+};
+
+interface Project {
+  id: number;
+  name: string;
+  color: string;
+  archived: boolean;
+  sortOrder: number;
+}
+
+// Todo as returned by /api/ai/extract (loosely typed - the model may omit fields)
+interface ExtractedTodo {
+  text: string;
+  tags?: string[];
+  priority?: "high" | "medium" | "low";
+  dueDate?: string | null;
+  dueTime?: string | null; // HH:MM, local
+  startDate?: string | null;
+  startTime?: string | null;
+  context?: string | null;
+  recurrence?: string | null;
+  subtasks?: unknown[];
+  projectId?: number | null;
+}
+
+const isExtractedTodo = (value: unknown): value is ExtractedTodo => !!value && typeof (value as ExtractedTodo).text === "string";
+
+// Local dates and times from extraction or a form ("" means none)
+const readLocalSchedule = (todo: { dueDate?: string | null; dueTime?: string | null; startDate?: string | null; startTime?: string | null }): LocalSchedule => ({
+  dueDate: todo.dueDate || null,
+  dueTime: todo.dueTime || null,
+  startDate: todo.startDate || null,
+  startTime: todo.startTime || null,
+});
+
+// Extracted subtasks as sent to the API, their local dates and times turned into dueAt/startAt/allDay
+const toSubtaskPayloads = (subtasks: unknown[] | undefined, timeZone: string): Record<string, unknown>[] =>
+  (Array.isArray(subtasks) ? subtasks.filter(isExtractedTodo) : []).map((subtask) => ({
+    ...subtask,
+    ...toScheduleInput(readLocalSchedule(subtask), timeZone),
+    subtasks: toSubtaskPayloads(subtask.subtasks, timeZone),
+  }));
+
+// AI-extracted todo waiting in the review tray (nothing is persisted until accepted)
+interface ReviewCandidate {
+  key: string; // client-generated id
   text: string;
-  status: "queued" | "processing" | "error";
-  error?: string;
-  createdAt: string; // ISO
+  tags: string[];
+  priority: "high" | "medium" | "low";
+  dueDate: string; // yyyy-mm-dd, empty for none
+  dueTime: string; // HH:MM, empty for all-day
+  startDate: string;
+  startTime: string;
+  context: string | null;
+  recurrence: string | null;
+  projectId: number | null;
+  subtasks: unknown[]; // Passed through to POST /api/todos as extracted
+  selected: boolean;
+}
+
+// Which container the list is scoped to
+type ProjectView = "all" | "inbox" | number;
+
+// Last reversible action, offered in the undo toast
+interface UndoAction {
+  message: string;
+  undo: () => Promise<void>;
+}
+
+const UNDO_TIMEOUT_MS = 6000;
+
+const DRAFT_POLL_INTERVAL_MS = 1500;
+
+// Todos loaded per request; more pages load on demand (GET /api/todos?limit=&cursor=)
+const TODO_PAGE_SIZE = 100;
+const SEARCH_DEBOUNCE_MS = 300;
+const VIEW_COUNT_REFRESH_MS = 5000; // Saved view counts catch up after a burst of edits instead of on each one
+const MAX_LIST_IDS = 500; // Server limit on ?ids=; bigger query answers are filtered among the loaded todos
+const MAX_BULK_CHANGES = 100; // Server limit on one POST /api/todos/bulk change set
+
+// Draft as tracked by the server pipeline (GET /api/drafts)
+interface ServerDraft {
+  id: number;
+  status: "queued" | "processing" | "completed" | "query" | "review" | "error";
+  attempts: number;
+  error: string | null;
+  result: { partial: ExtractedTodo[] } | { todos: SavedTodoTree[] } | { query: QueryResult } | { candidates: ExtractedTodo[] } | null;
+}
+
+// Working copy of the fields edited in the inline detail editor
+interface TodoDetailsDraft {
+  tags: string[];
+  tagInput: string;
+  priority: "high" | "medium" | "low";
+  dueDate: string; // yyyy-mm-dd, empty for none
+  dueTime: string; // HH:MM, empty for all-day
+  startDate: string;
+  startTime: string;
+  context: string;
+  recurrence: string;
+  projectId: number | null;
 }
 
 interface QueryResult {
@@ -35,32 +148,118 @@ interface QueryResult {
   keywords: string[];
   response: string;
   matchingTodoIds: number[];
+  filter?: TodoFilter; // What the answer matched, re-run live when saved as a view
+  snoozeUntil?: string; // Snooze intent: when the matching todos come back
+  changes?: TodoChange[]; // Action intents: proposed changes, applied once the user confirms
+  followUp?: boolean; // Narrowed the previous answer
+  sessionId?: number; // Query session the next question continues
+}
+
+// A past question in the query history
+interface QueryHistoryEntry {
+  question: string;
+  result: QueryResult;
+  askedAt: string;
+}
+
+const MAX_QUERY_HISTORY = 50;
+
+// One todo's part of an action command's change set (see POST /api/todos/bulk)
+type TodoChange = { id: number; patch: Record<string, unknown> } | { id: number; delete: true };
+
+// POST /api/todos/bulk response
+interface BulkChangeResult {
+  todos: Todo[];
+  nextOccurrences: Todo[];
+  deletedIds: number[];
+}
+
+// GET /api/todos/facets response: totals for every view and the tags in use, including todos that aren't loaded yet
+interface TodoCounts {
+  total: number;
+  completed: number;
+}
+interface TodoFacets {
+  all: TodoCounts;
+  inbox: TodoCounts;
+  projects: Record<number, TodoCounts>;
+  tags: string[];
+}
+
+// GET /api/views entry: a named filter combination with the number of todos it matches now
+interface SavedView {
+  id: number;
+  name: string;
+  query: string; // GET /api/todos filter parameters
+  sortOrder: number;
+  count: number;
 }
 
 export default function TodoApp() {
+  const { userId } = useAuth();
   const [todos, setTodos] = useState<Todo[]>([]);
   const [inputText, setInputText] = useState("");
   const [editingId, setEditingId] = useState<number | null>(null);
   const [editText, setEditText] = useState("");
+  const [detailsId, setDetailsId] = useState<number | null>(null);
+  const [detailsDraft, setDetailsDraft] = useState<TodoDetailsDraft | null>(null);
+  const [isSavingDetails, setIsSavingDetails] = useState(false);
   const [loading, setLoading] = useState(true);
+  const [nextCursor, setNextCursor] = useState<string | null>(null); // More todos match than are loaded
+  const [isLoadingMore, setIsLoadingMore] = useState(false);
+  const listRequestId = useRef(0); // Responses to an older filter combination are dropped
+  const [todoFacets, setTodoFacets] = useState<TodoFacets | null>(null);
   const [error, setError] = useState<string | null>(null);
   const [needsSetup, setNeedsSetup] = useState(false);
 
   // AI extraction state
-  const [isExtracting, setIsExtracting] = useState(false);
-  const [extractedTodos, setExtractedTodos] = useState<any[]>([]);
   const [newTodoIds, setNewTodoIds] = useState<Set<number>>(new Set());
 
+  // Review-before-save tray for AI extraction (per-user preference)
+  const [reviewBeforeSave, setReviewBeforeSave] = useState(false);
+  const [reviewCandidates, setReviewCandidates] = useState<ReviewCandidate[]>([]);
+  const [isSavingReview, setIsSavingReview] = useState(false);
+
+  // The user's time zone (from their profile) decides which day is "today"
+  const [timeZone, setTimeZone] = useState(() => getBrowserTimeZone());
+
+  // Projects and the currently selected container
+  const [projects, setProjects] = useState<Project[]>([]);
+  const [activeProject, setActiveProject] = useState<ProjectView>("all");
+  const [showProjectMenu, setShowProjectMenu] = useState(false);
+  const [newProjectName, setNewProjectName] = useState("");
+
+  // Undo toast and trash
+  const [undoAction, setUndoAction] = useState<UndoAction | null>(null);
+  const [undoTimer, setUndoTimer] = useState<NodeJS.Timeout | null>(null);
+  const [showTrash, setShowTrash] = useState(false);
+  const [trashedTodos, setTrashedTodos] = useState<Todo[]>([]);
+  const [trashRetentionDays, setTrashRetentionDays] = useState<number | null>(null);
+
+  // Parents whose subtasks are collapsed
+  const [collapsedParents, setCollapsedParents] = useState<Set<number>>(new Set());
+
+  // Snooze menu (one todo at a time) and a clock that brings snoozed todos back on time
+  const [snoozeMenuId, setSnoozeMenuId] = useState<number | null>(null);
+  const [customSnooze, setCustomSnooze] = useState(""); // datetime-local value
+  const [now, setNow] = useState(() => new Date());
+
   // Draft buffer for FIFO AI processing
   const [drafts, setDrafts] = useState<Draft[]>([]);
+  const [retryTick, setRetryTick] = useState(0); // Bumped when a backed-off draft becomes due
+  const persistedDrafts = useRef<Map<string, Draft>>(new Map());
+  const isPollingDrafts = useRef(false); // Skip a poll tick while the previous one is still running
   const [isProcessingDraft, setIsProcessingDraft] = useState(false);
   const aiActive = isProcessingDraft || drafts.some((d) => d.status === "queued" || d.status === "processing");
 
   // Query state for intelligent filtering
   const [activeQuery, setActiveQuery] = useState<QueryResult | null>(null);
   const [filteredTodoIds, setFilteredTodoIds] = useState<Set<number>>(new Set());
-  const [isQuerying, setIsQuerying] = useState(false);
-  const [queryClearTimer, setQueryClearTimer] = useState<NodeJS.Timeout | null>(null);
+  const querySessionId = useRef<number | null>(null); // Conversation the next question continues (null = a fresh one)
+  const [queryHistory, setQueryHistory] = useState<QueryHistoryEntry[]>([]); // Newest first
+  const [showQueryHistory, setShowQueryHistory] = useState(false);
+  const [pendingChanges, setPendingChanges] = useState<QueryResult | null>(null); // Action command waiting for confirmation
+  const [isApplyingChanges, setIsApplyingChanges] = useState(false);
 
   // Search and filter state
   const [searchQuery, setSearchQuery] = useState("");
@@ -68,6 +267,11 @@ export default function TodoApp() {
   const [tagFilter, setTagFilter] = useState<Set<string>>(new Set());
   const [statusFilter, setStatusFilter] = useState<"all" | "active" | "completed">("all");
   const [dateFilter, setDateFilter] = useState<Set<string>>(new Set()); // "overdue", "today", "this-week"
+  const [queryFilter, setQueryFilter] = useState<TodoFilter | null>(null); // From the pinned answer or a saved view, run by the server
+
+  // Saved views (smart lists)
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  const [newViewName, setNewViewName] = useState("");
 
   // Schedule generation state
   const [showSchedule, setShowSchedule] = useState(false);
@@ -112,14 +316,119 @@ export default function TodoApp() {
     return () => clearInterval(interval);
   }, [recentlyUsedQuotes]);
 
-  // Load todos from API on component mount
+  // The active filters as list parameters: what a saved view stores and the address bar shows
+  const getViewParams = (): URLSearchParams => {
+    const params = new URLSearchParams();
+    if (searchQuery.trim()) params.set("q", searchQuery.trim());
+    if (priorityFilter.size > 0) params.set("priority", [...priorityFilter].join(","));
+    if (tagFilter.size > 0) params.set("tag", [...tagFilter].join(","));
+    if (statusFilter !== "all") params.set("status", statusFilter);
+    if (dateFilter.size > 0) params.set("due", [...dateFilter].join(","));
+    if (activeProject !== "all") params.set("project", String(activeProject));
+    if (queryFilter) params.set("filter", JSON.stringify(queryFilter));
+    return params;
+  };
+
+  // Server-side version of the active filters (and the query answer's todos), so only matches are downloaded
+  const getListParams = (): URLSearchParams => {
+    const params = getViewParams();
+    params.set("limit", String(TODO_PAGE_SIZE));
+    if (activeQuery && filteredTodoIds.size > 0 && filteredTodoIds.size <= MAX_LIST_IDS) params.set("ids", [...filteredTodoIds].join(","));
+    return params;
+  };
+
+  // Reload the first page whenever the filters change; typing in the search box waits for a pause
+  const listParams = getListParams().toString();
+  useEffect(() => {
+    const timer = setTimeout(fetchTodos, searchQuery.trim() ? SEARCH_DEBOUNCE_MS : 0);
+    return () => clearTimeout(timer);
+  }, [listParams]);
+
+  // Totals and tags follow the list as todos are added, completed or removed
+  const loadedCompletedCount = todos.filter((todo) => todo.completed).length;
+  useEffect(() => {
+    fetchTodoFacets();
+  }, [todos.length, loadedCompletedCount]);
+
+  useEffect(() => {
+    const timer = setTimeout(fetchSavedViews, VIEW_COUNT_REFRESH_MS);
+    return () => clearTimeout(timer);
+  }, [todos.length, loadedCompletedCount]);
+
+  // Load projects and settings on component mount, and the filters of a shared link
   useEffect(() => {
-    fetchTodos();
+    fetchProjects();
+    fetchSavedViews();
+    fetchPreferences();
+    fetchTimeZone();
+    if (window.location.search) applyViewParams(new URLSearchParams(window.location.search));
   }, []);
 
-  // Auto-process drafts when they're added to the queue
+  // Keep the address bar in step with the filters, so the current view can be bookmarked or shared
+  const viewParams = getViewParams().toString();
+  useEffect(() => {
+    window.history.replaceState(null, "", viewParams ? `?${viewParams}` : window.location.pathname);
+  }, [viewParams]);
+
+  // Resume drafts left over from a previous session (refresh, closed tab, crash)
+  useEffect(() => {
+    if (!userId) return;
+    loadDrafts(userId)
+      .then((saved) => {
+        if (saved.length === 0) return;
+        console.log(`Resuming ${saved.length} saved draft(s)`);
+        saved.forEach((draft) => persistedDrafts.current.set(draft.id, draft));
+        setDrafts((prev) => [...prev, ...saved.filter((draft) => !prev.some((d) => d.id === draft.id))]);
+      })
+      .catch((err) => console.error("Error loading saved drafts:", err));
+  }, [userId]);
+
+  // Mirror the draft queue into IndexedDB (only writing what changed)
+  useEffect(() => {
+    const previous = persistedDrafts.current;
+    const current = new Map(drafts.map((draft) => [draft.id, draft]));
+
+    for (const draft of drafts) {
+      if (previous.get(draft.id) !== draft) {
+        saveDraft(draft).catch((err) => console.error("Error saving draft:", err));
+      }
+    }
+    for (const id of previous.keys()) {
+      if (!current.has(id)) {
+        deleteDraft(id).catch((err) => console.error("Error deleting draft:", err));
+      }
+    }
+
+    persistedDrafts.current = current;
+  }, [drafts]);
+
+  // Wake the queue when the earliest backed-off draft becomes due
+  useEffect(() => {
+    const waits = drafts.filter((d) => d.status === "queued" && d.nextAttemptAt).map((d) => new Date(d.nextAttemptAt!).getTime() - Date.now());
+    if (waits.length === 0) return;
+
+    const timer = setTimeout(() => setRetryTick((tick) => tick + 1), Math.max(Math.min(...waits), 0));
+    return () => clearTimeout(timer);
+  }, [drafts, retryTick]);
+
+  // Poll the server pipeline while submitted drafts are in flight
+  const submittedDraftKey = drafts
+    .filter((d) => d.status === "processing" && d.serverId !== undefined)
+    .map((d) => d.serverId)
+    .join(",");
   useEffect(() => {
-    const hasQueuedDrafts = drafts.some((d) => d.status === "queued");
+    if (!submittedDraftKey) return;
+
+    const interval = setInterval(() => {
+      pollDrafts(drafts.filter((d) => d.status === "processing" && d.serverId !== undefined));
+    }, DRAFT_POLL_INTERVAL_MS);
+    return () => clearInterval(interval);
+  }, [submittedDraftKey]);
+
+  // Auto-process drafts when they're added to the queue (or re-queued for a retry)
+  const queuedDraftCount = drafts.filter((d) => d.status === "queued").length;
+  useEffect(() => {
+    const hasQueuedDrafts = drafts.some(isDraftDue);
 
     if (!isProcessingDraft && hasQueuedDrafts) {
       // Use a small delay to ensure state has settled
@@ -128,7 +437,7 @@ export default function TodoApp() {
       }, 100);
       return () => clearTimeout(timer);
     }
-  }, [drafts.length, isProcessingDraft]);
+  }, [drafts.length, queuedDraftCount, isProcessingDraft, retryTick]);
 
   // Keyboard shortcuts
   useEffect(() => {
@@ -147,25 +456,42 @@ export default function TodoApp() {
 
     window.addEventListener("keydown", handleKeyDown);
     return () => window.removeEventListener("keydown", handleKeyDown);
-  }, [searchQuery, priorityFilter, tagFilter, statusFilter, dateFilter]);
+  }, [searchQuery, priorityFilter, tagFilter, statusFilter, dateFilter, queryFilter]);
 
-  // Cleanup query timer on unmount
+  // Cleanup undo timer on unmount
   useEffect(() => {
     return () => {
-      if (queryClearTimer) {
-        clearTimeout(queryClearTimer);
+      if (undoTimer) {
+        clearTimeout(undoTimer);
       }
     };
-  }, [queryClearTimer]);
+  }, [undoTimer]);
+
+  // Re-check snoozes once a minute
+  useEffect(() => {
+    const interval = setInterval(() => setNow(new Date()), 60 * 1000);
+    return () => clearInterval(interval);
+  }, []);
+
+  // Calendar date a todo starts on in the user's zone (null without a start)
+  const getStartKey = (todo: Todo): string | null => (todo.startAt ? scheduleDateKey(todo.startAt, todo.allDay, timeZone) : null);
+
+  // Starts after today, so it stays out of Today until then
+  const isDeferred = (todo: Todo): boolean => {
+    const start = getStartKey(todo);
+    return start !== null && start > todayKey(timeZone);
+  };
+
+  // Badge text for a start or due value: the date, plus the local time for timed todos
+  const formatScheduleValue = (value: string, todo: Pick<Todo, "allDay">): string =>
+    `${formatDateKey(scheduleDateKey(value, todo.allDay, timeZone))}${todo.allDay ? "" : `, ${formatTimeInZone(value, timeZone)}`}`;
 
   // Helper function to group todos by date
+  // Due dates and today are compared as YYYY-MM-DD keys in the user's time zone
   const groupTodosByDate = (todos: Todo[]) => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const weekFromNow = new Date(today);
-    weekFromNow.setDate(weekFromNow.getDate() + 7);
+    const today = todayKey(timeZone);
+    const tomorrow = addDaysToKey(today, 1);
+    const weekFromNow = addDaysToKey(today, 7);
 
     const groups: Record<string, Todo[]> = {
       Overdue: [],
@@ -180,21 +506,27 @@ export default function TodoApp() {
     const activeTodos = todos.filter((todo) => !todo.completed);
 
     activeTodos.forEach((todo) => {
+      // Not started yet: wait in the group of its start date instead of showing up in Today
+      const start = getStartKey(todo);
+      if (start && start > today) {
+        groups[start === tomorrow ? "Tomorrow" : start < weekFromNow ? "This Week" : "Later"].push(todo);
+        return;
+      }
+
       if (!todo.dueDate) {
         groups["No Due Date"].push(todo);
         return;
       }
 
-      const dueDate = new Date(todo.dueDate);
-      const dueDateOnly = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+      const due = dueDateKey(todo.dueDate);
 
-      if (dueDateOnly < today) {
+      if (due < today) {
         groups.Overdue.push(todo);
-      } else if (dueDateOnly.getTime() === today.getTime()) {
+      } else if (due === today) {
         groups.Today.push(todo);
-      } else if (dueDateOnly.getTime() === tomorrow.getTime()) {
+      } else if (due === tomorrow) {
         groups.Tomorrow.push(todo);
-      } else if (dueDateOnly < weekFromNow) {
+      } else if (due < weekFromNow) {
         groups["This Week"].push(todo);
       } else {
         groups.Later.push(todo);
@@ -204,85 +536,82 @@ export default function TodoApp() {
     return groups;
   };
 
-  // Extract all unique tags from todos
-  const getAllTags = (): string[] => {
-    const tagSet = new Set<string>();
-    todos.forEach((todo) => {
-      todo.tags?.forEach((tag) => tagSet.add(tag));
-    });
-    return Array.from(tagSet).sort();
+  // Collect ids of every subtask below a todo (any depth)
+  const getDescendantIds = (id: number, list: Todo[] = todos): number[] => {
+    const children = list.filter((t) => t.parentId === id);
+    return children.flatMap((child) => [child.id, ...getDescendantIds(child.id, list)]);
   };
 
-  // Apply all active filters to todos
-  const getFilteredTodos = (): Todo[] => {
-    let filtered = [...todos];
-
-    // AI Query filter (takes priority when active)
-    if (activeQuery && filteredTodoIds.size > 0) {
-      filtered = filtered.filter((todo) => filteredTodoIds.has(todo.id));
-    }
+  // Snoozed todos and everything under them stay out of the list until the snooze ends
+  const getSnoozedIds = (): Set<number> => new Set(todos.filter((todo) => isSnoozed(todo, now)).flatMap((todo) => [todo.id, ...getDescendantIds(todo.id)]));
 
-    // Text search filter
-    if (searchQuery.trim()) {
-      const query = searchQuery.toLowerCase();
-      filtered = filtered.filter((todo) => todo.text.toLowerCase().includes(query) || todo.tags?.some((tag) => tag.toLowerCase().includes(query)) || todo.context?.toLowerCase().includes(query));
-    }
+  // "Oct 20, 9:00 AM" - when a snooze ends, in the user's zone
+  const formatSnoozeUntil = (value: string): string => `${formatDateKey(toDateKey(new Date(value), timeZone))}, ${formatTimeInZone(value, timeZone)}`;
 
-    // Priority filter
-    if (priorityFilter.size > 0) {
-      filtered = filtered.filter((todo) => priorityFilter.has(todo.priority));
-    }
+  // Rolled-up completion across all subtasks of a parent
+  const getSubtaskProgress = (id: number) => {
+    const descendantIds = new Set(getDescendantIds(id));
+    const descendants = todos.filter((t) => descendantIds.has(t.id));
+    return { done: descendants.filter((t) => t.completed).length, total: descendants.length };
+  };
 
-    // Tag filter
-    if (tagFilter.size > 0) {
-      filtered = filtered.filter((todo) => todo.tags?.some((tag) => tagFilter.has(tag)));
-    }
+  // Only todos whose parent isn't shown are rendered at the top level
+  const getRootTodos = (list: Todo[]): Todo[] => {
+    const shownIds = new Set(list.map((t) => t.id));
+    return list.filter((t) => t.parentId === null || !shownIds.has(t.parentId));
+  };
 
-    // Status filter
-    if (statusFilter === "active") {
-      filtered = filtered.filter((todo) => !todo.completed);
-    } else if (statusFilter === "completed") {
-      filtered = filtered.filter((todo) => todo.completed);
-    }
+  const toggleCollapsed = (id: number) => {
+    setCollapsedParents((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
 
-    // Date filter
-    if (dateFilter.size > 0) {
-      const now = new Date();
-      const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-      const weekFromNow = new Date(today);
-      weekFromNow.setDate(weekFromNow.getDate() + 7);
+  // Every tag in use (not just on loaded todos), plus any on todos added since the facets were fetched
+  const getAllTags = (): string[] => {
+    const tagSet = new Set<string>(todoFacets?.tags ?? []);
+    todos.forEach((todo) => {
+      todo.tags?.forEach((tag) => tagSet.add(tag));
+    });
+    return Array.from(tagSet).sort();
+  };
 
-      filtered = filtered.filter((todo) => {
-        if (!todo.dueDate && dateFilter.has("no-date")) return true;
-        if (!todo.dueDate) return false;
+  // Todos in the selected project (or inbox / everything)
+  const getProjectTodos = (): Todo[] => {
+    if (activeProject === "all") return todos;
+    if (activeProject === "inbox") return todos.filter((todo) => todo.projectId === null);
+    return todos.filter((todo) => todo.projectId === activeProject);
+  };
 
-        const dueDate = new Date(todo.dueDate);
-        const dueDateOnly = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
+  const getProject = (id: number | null): Project | undefined => projects.find((p) => p.id === id);
 
-        if (dateFilter.has("overdue") && dueDateOnly < today) return true;
-        if (dateFilter.has("today") && dueDateOnly.getTime() === today.getTime()) return true;
-        if (dateFilter.has("this-week") && dueDateOnly >= today && dueDateOnly < weekFromNow) return true;
+  // Project new todos land in when nothing else decides
+  const getDefaultProjectId = (): number | null => (typeof activeProject === "number" ? activeProject : null);
 
-        return false;
-      });
+  // The loaded todos in view. Search and filters already ran on the server (see getListParams); only an
+  // AI answer too big to send as ?ids= is narrowed here
+  const getFilteredTodos = (): Todo[] => {
+    const projectTodos = getProjectTodos();
+    if (activeQuery && filteredTodoIds.size > MAX_LIST_IDS) {
+      return projectTodos.filter((todo) => filteredTodoIds.has(todo.id));
     }
-
-    return filtered;
+    return projectTodos;
   };
 
   // Check if any filters are active
   const hasActiveFilters = (): boolean => {
-    return (activeQuery && filteredTodoIds.size > 0) || searchQuery.trim() !== "" || priorityFilter.size > 0 || tagFilter.size > 0 || statusFilter !== "all" || dateFilter.size > 0;
+    return (activeQuery && filteredTodoIds.size > 0) || queryFilter !== null || searchQuery.trim() !== "" || priorityFilter.size > 0 || tagFilter.size > 0 || statusFilter !== "all" || dateFilter.size > 0;
   };
 
   // Clear all filters
   const clearAllFilters = () => {
-    if (queryClearTimer) {
-      clearTimeout(queryClearTimer);
-      setQueryClearTimer(null);
-    }
-    setActiveQuery(null);
-    setFilteredTodoIds(new Set());
+    dismissQuery();
     setSearchQuery("");
     setPriorityFilter(new Set());
     setTagFilter(new Set());
@@ -290,16 +619,39 @@ export default function TodoApp() {
     setDateFilter(new Set());
   };
 
-  // Highlight search term in text
+  // Replace the filters with a saved view's or a shared link's (unknown or malformed values are dropped)
+  const applyViewParams = (params: URLSearchParams) => {
+    const readList = (key: string) => new Set((params.get(key) ?? "").split(",").filter(Boolean));
+    const status = params.get("status");
+    const project = params.get("project");
+    let filter: TodoFilter | null = null;
+    try {
+      filter = params.has("filter") ? JSON.parse(params.get("filter") ?? "") : null;
+    } catch {
+      filter = null;
+    }
+
+    dismissQuery();
+    setSearchQuery(params.get("q") ?? "");
+    setPriorityFilter(readList("priority"));
+    setTagFilter(readList("tag"));
+    setStatusFilter(status === "active" || status === "completed" ? status : "all");
+    setDateFilter(readList("due"));
+    setActiveProject(project === "inbox" ? "inbox" : project && /^\d+$/.test(project) ? Number(project) : "all");
+    setQueryFilter(filter);
+  };
+
+  // Highlight the starts of words matching the search (the server matches each word as a prefix, in any order)
   const highlightSearchTerm = (text: string): React.ReactNode => {
-    if (!searchQuery.trim()) return text;
+    const words = searchQuery.match(/[\p{L}\p{N}]+/gu);
+    if (!words) return text;
 
-    const query = searchQuery.trim();
-    const regex = new RegExp(`(${query})`, "gi");
+    const regex = new RegExp(`(${words.join("|")})`, "giu");
     const parts = text.split(regex);
 
+    // Splitting on a capture group puts the matches at the odd positions
     return parts.map((part, i) =>
-      regex.test(part) ? (
+      i % 2 === 1 ? (
         <mark key={i} className="bg-yellow-200 text-gray-900 rounded px-0.5">
           {part}
         </mark>
@@ -335,32 +687,18 @@ export default function TodoApp() {
 
   // Generate smart summary
   const getSummary = () => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
-    const tomorrow = new Date(today);
-    tomorrow.setDate(tomorrow.getDate() + 1);
-    const weekFromNow = new Date(today);
-    weekFromNow.setDate(weekFromNow.getDate() + 7);
+    const today = todayKey(timeZone);
+    const tomorrow = addDaysToKey(today, 1);
+    const weekFromNow = addDaysToKey(today, 7);
 
     const activeTodos = todos.filter((t) => !t.completed);
-    const overdue = activeTodos.filter((t) => t.dueDate && new Date(t.dueDate) < today);
-    const todayTodos = activeTodos.filter((t) => {
-      if (!t.dueDate) return false;
-      const dueDate = new Date(t.dueDate);
-      const dueDateOnly = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
-      return dueDateOnly.getTime() === today.getTime();
-    });
-    const tomorrowTodos = activeTodos.filter((t) => {
-      if (!t.dueDate) return false;
-      const dueDate = new Date(t.dueDate);
-      const dueDateOnly = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
-      return dueDateOnly.getTime() === tomorrow.getTime();
-    });
+    const overdue = activeTodos.filter((t) => t.dueDate && dueDateKey(t.dueDate) < today);
+    const todayTodos = activeTodos.filter((t) => t.dueDate && dueDateKey(t.dueDate) === today);
+    const tomorrowTodos = activeTodos.filter((t) => t.dueDate && dueDateKey(t.dueDate) === tomorrow);
     const thisWeekTodos = activeTodos.filter((t) => {
       if (!t.dueDate) return false;
-      const dueDate = new Date(t.dueDate);
-      const dueDateOnly = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
-      return dueDateOnly >= today && dueDateOnly < weekFromNow;
+      const due = dueDateKey(t.dueDate);
+      return due >= today && due < weekFromNow;
     });
     const highPriority = activeTodos.filter((t) => t.priority === "high");
 
@@ -420,44 +758,48 @@ export default function TodoApp() {
 
   // Generate printable schedule
   const generateSchedule = () => {
-    const now = new Date();
-    const today = new Date(now.getFullYear(), now.getMonth(), now.getDate());
+    const today = todayKey(timeZone);
 
+    // Date keys, end exclusive
     let startDate = today;
-    let endDate = new Date(today);
+    let endDate = addDaysToKey(today, 1);
     let title = "";
 
     if (scheduleRange === "today") {
-      title = `Today's Schedule - ${today.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" })}`;
-      endDate.setDate(endDate.getDate() + 1);
+      title = `Today's Schedule - ${formatDateKey(today, { weekday: "long", month: "long", day: "numeric", year: "numeric" }, "en-US")}`;
     } else if (scheduleRange === "tomorrow") {
-      startDate.setDate(startDate.getDate() + 1);
-      endDate.setDate(endDate.getDate() + 2);
-      title = `Tomorrow's Schedule - ${startDate.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric", year: "numeric" })}`;
+      startDate = addDaysToKey(today, 1);
+      endDate = addDaysToKey(today, 2);
+      title = `Tomorrow's Schedule - ${formatDateKey(startDate, { weekday: "long", month: "long", day: "numeric", year: "numeric" }, "en-US")}`;
     } else {
       // week
-      endDate.setDate(endDate.getDate() + 7);
-      title = `Weekly Schedule - ${startDate.toLocaleDateString("en-US", { month: "short", day: "numeric" })} to ${new Date(endDate.getTime() - 86400000).toLocaleDateString("en-US", {
-        month: "short",
-        day: "numeric",
-        year: "numeric",
-      })}`;
+      endDate = addDaysToKey(today, 7);
+      title = `Weekly Schedule - ${formatDateKey(startDate, { month: "short", day: "numeric" }, "en-US")} to ${formatDateKey(
+        addDaysToKey(endDate, -1),
+        { month: "short", day: "numeric", year: "numeric" },
+        "en-US"
+      )}`;
     }
 
     // Filter todos within date range
     const scheduledTodos = todos.filter((t) => {
       if (!t.dueDate) return false;
-      const dueDate = new Date(t.dueDate);
-      const dueDateOnly = new Date(dueDate.getFullYear(), dueDate.getMonth(), dueDate.getDate());
-      return dueDateOnly >= startDate && dueDateOnly < endDate;
+      const due = dueDateKey(t.dueDate);
+      return due >= startDate && due < endDate;
     });
 
-    // Sort by date, then priority
+    // Sort by date, all-day todos before timed ones, then by time, then priority
     scheduledTodos.sort((a, b) => {
-      const dateA = new Date(a.dueDate!);
-      const dateB = new Date(b.dueDate!);
-      if (dateA.getTime() !== dateB.getTime()) {
-        return dateA.getTime() - dateB.getTime();
+      const dateA = dueDateKey(a.dueDate!);
+      const dateB = dueDateKey(b.dueDate!);
+      if (dateA !== dateB) {
+        return dateA < dateB ? -1 : 1;
+      }
+      if (a.allDay !== b.allDay) {
+        return a.allDay ? -1 : 1;
+      }
+      if (!a.allDay && a.dueAt && b.dueAt && a.dueAt !== b.dueAt) {
+        return new Date(a.dueAt).getTime() - new Date(b.dueAt).getTime();
       }
       const priorityOrder = { high: 0, medium: 1, low: 2 };
       return priorityOrder[a.priority] - priorityOrder[b.priority];
@@ -526,6 +868,13 @@ export default function TodoApp() {
               display: inline-block;
               margin-right: 10px;
             }
+            .todo-time {
+              font-size: 14px;
+              font-weight: 600;
+              color: #4f46e5;
+              margin-right: 10px;
+              white-space: nowrap;
+            }
             .priority {
               display: inline-block;
               padding: 4px 12px;
@@ -574,7 +923,7 @@ export default function TodoApp() {
         </head>
         <body>
           <h1>📋 ${title}</h1>
-          <div class="meta">Generated on ${new Date().toLocaleString()}</div>
+          <div class="meta">Generated on ${new Date().toLocaleString(undefined, { timeZone })}</div>
           
           ${
             scheduledTodos.length === 0
@@ -583,8 +932,7 @@ export default function TodoApp() {
                   // Group by date
                   const grouped: { [key: string]: Todo[] } = {};
                   scheduledTodos.forEach((todo) => {
-                    const dueDate = new Date(todo.dueDate!);
-                    const dateKey = dueDate.toLocaleDateString("en-US", { weekday: "long", month: "long", day: "numeric" });
+                    const dateKey = formatDateKey(dueDateKey(todo.dueDate!), { weekday: "long", month: "long", day: "numeric" }, "en-US");
                     if (!grouped[dateKey]) grouped[dateKey] = [];
                     grouped[dateKey].push(todo);
                   });
@@ -600,6 +948,7 @@ export default function TodoApp() {
                     <div class="todo-header">
                       <div style="display: flex; align-items: center; flex: 1;">
                         <span class="checkbox"></span>
+                        ${!todo.allDay && todo.dueAt ? `<span class="todo-time">${formatTimeInZone(todo.dueAt, timeZone)}</span>` : ""}
                         <span class="todo-text">${todo.text}</span>
                       </div>
                       <span class="priority priority-${todo.priority}">${todo.priority}</span>
@@ -639,12 +988,45 @@ export default function TodoApp() {
     // Don't auto-print - let user view and decide to print
   };
 
+  // Shape-check todos from the API, dropping malformed items
+  const normalizeTodos = (todosData: unknown[]): Todo[] =>
+    todosData
+      .filter((t: any) => {
+        return t && (typeof t.id === "number" || typeof t.id === "string") && typeof t.text === "string" && typeof t.completed === "boolean";
+      })
+      .map((t: any) => ({
+        // Normalize id to number when possible
+        id: typeof t.id === "string" ? Number(t.id) : t.id,
+        text: String(t.text),
+        completed: Boolean(t.completed),
+        tags: Array.isArray(t.tags) ? t.tags : [],
+        priority: t.priority || "medium",
+        dueDate: t.dueDate || null,
+        dueAt: t.dueAt || t.dueDate || null,
+        startAt: t.startAt || null,
+        allDay: t.allDay !== false,
+        snoozedUntil: t.snoozedUntil || null,
+        context: t.context || null,
+        aiGenerated: Boolean(t.aiGenerated),
+        recurrence: typeof t.recurrence === "string" ? t.recurrence : null,
+        parentId: typeof t.parentId === "number" ? t.parentId : null,
+        projectId: typeof t.projectId === "number" ? t.projectId : null,
+        createdAt: t.createdAt || new Date().toISOString(),
+        updatedAt: t.updatedAt || new Date().toISOString(),
+      }));
+
+  // Load the first page for the current filters, replacing whatever was loaded
   const fetchTodos = async () => {
+    const requestId = ++listRequestId.current;
     try {
-      setLoading(true);
+      if (todos.length === 0) setLoading(true);
       setError(null);
       setNeedsSetup(false);
-      const response = await fetch("/api/todos");
+      // Snoozed todos are hidden from the pages but listed in full in their own section
+      const snoozedParams = getListParams();
+      snoozedParams.delete("limit");
+      snoozedParams.set("snoozed", "true");
+      const [response, snoozedResponse] = await Promise.all([fetch(`/api/todos?${getListParams()}`), fetch(`/api/todos?${snoozedParams}`)]);
 
       if (response.status === 503) {
         const errorData = await response.json();
@@ -659,40 +1041,204 @@ export default function TodoApp() {
         throw new Error("Failed to fetch todos");
       }
 
-      const todosData = await response.json();
+      const page = await response.json();
+      if (requestId !== listRequestId.current) return;
 
-      // Defensive validation: ensure we received an array of todo objects
-      if (!Array.isArray(todosData)) {
-        console.error("Invalid todos response, expected array:", todosData);
+      // Defensive validation: ensure we received a page of todo objects
+      if (!page || !Array.isArray(page.todos)) {
+        console.error("Invalid todos response, expected a page of todos:", page);
         setError("Received invalid data from server");
         return;
       }
 
-      // Basic shape validation and filtering of malformed items
-      const validated = todosData
-        .filter((t: any) => {
-          return t && (typeof t.id === "number" || typeof t.id === "string") && typeof t.text === "string" && typeof t.completed === "boolean";
-        })
-        .map((t: any) => ({
-          // Normalize id to number when possible
-          id: typeof t.id === "string" ? Number(t.id) : t.id,
-          text: String(t.text),
-          completed: Boolean(t.completed),
-          tags: Array.isArray(t.tags) ? t.tags : [],
-          priority: t.priority || "medium",
-          dueDate: t.dueDate || null,
-          context: t.context || null,
-          aiGenerated: Boolean(t.aiGenerated),
-          createdAt: t.createdAt || new Date().toISOString(),
-          updatedAt: t.updatedAt || new Date().toISOString(),
-        }));
-
-      setTodos(validated as Todo[]);
+      const pageTodos = normalizeTodos(page.todos);
+      const snoozed = snoozedResponse.ok ? await snoozedResponse.json() : [];
+      const snoozedTodos = Array.isArray(snoozed) ? normalizeTodos(snoozed) : [];
+      if (requestId !== listRequestId.current) return;
+      setTodos([...pageTodos, ...snoozedTodos.filter((todo) => !pageTodos.some((t) => t.id === todo.id))]);
+      setNextCursor(typeof page.nextCursor === "string" ? page.nextCursor : null);
     } catch (err) {
       setError("Failed to load todos");
       console.error("Error fetching todos:", err);
     } finally {
-      setLoading(false);
+      if (requestId === listRequestId.current) setLoading(false);
+    }
+  };
+
+  // Append the next page (todos already loaded, e.g. added since, aren't duplicated)
+  const loadMoreTodos = async () => {
+    if (!nextCursor || isLoadingMore) return;
+    const requestId = listRequestId.current;
+    const params = getListParams();
+    params.set("cursor", nextCursor);
+    try {
+      setIsLoadingMore(true);
+      const response = await fetch(`/api/todos?${params}`);
+      if (!response.ok) {
+        throw new Error("Failed to fetch todos");
+      }
+      const page = await response.json();
+      if (requestId !== listRequestId.current || !Array.isArray(page?.todos)) return;
+
+      const more = normalizeTodos(page.todos);
+      setTodos((prev) => [...prev, ...more.filter((todo) => !prev.some((t) => t.id === todo.id))]);
+      setNextCursor(typeof page.nextCursor === "string" ? page.nextCursor : null);
+    } catch (err) {
+      setError("Failed to load more todos");
+      console.error("Error loading more todos:", err);
+    } finally {
+      setIsLoadingMore(false);
+    }
+  };
+
+  const fetchTodoFacets = async () => {
+    try {
+      const response = await fetch("/api/todos/facets");
+      if (response.ok) {
+        setTodoFacets(await response.json());
+      }
+    } catch (err) {
+      console.error("Error fetching todo facets:", err);
+    }
+  };
+
+  // Totals for a view (all, inbox or a project), falling back to the loaded todos until facets arrive
+  const getViewCounts = (view: ProjectView): TodoCounts => {
+    if (todoFacets) {
+      return (view === "all" ? todoFacets.all : view === "inbox" ? todoFacets.inbox : todoFacets.projects[view]) ?? { total: 0, completed: 0 };
+    }
+    const loaded = view === "all" ? todos : todos.filter((todo) => todo.projectId === (view === "inbox" ? null : view));
+    return { total: loaded.length, completed: loaded.filter((todo) => todo.completed).length };
+  };
+
+  const fetchSavedViews = async () => {
+    try {
+      const response = await fetch("/api/views");
+      if (!response.ok) {
+        throw new Error("Failed to fetch saved views");
+      }
+      const views = await response.json();
+      if (Array.isArray(views)) {
+        setSavedViews(views);
+      }
+    } catch (err) {
+      // Saved views are optional - the list still works without them
+      console.error("Error fetching saved views:", err);
+    }
+  };
+
+  // Save filters (view parameters) under a name; its count comes with the next refresh
+  const saveView = async (name: string, query: string) => {
+    if (!name.trim()) return;
+
+    try {
+      const response = await fetch("/api/views", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, query }),
+      });
+
+      if (!response.ok) {
+        const data = await response.json().catch(() => null);
+        throw new Error(data?.error || "Failed to save view");
+      }
+
+      setNewViewName("");
+      await fetchSavedViews();
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to save view");
+      console.error("Error saving view:", err);
+    }
+  };
+
+  const deleteView = async (id: number) => {
+    try {
+      const response = await fetch(`/api/views/${id}`, { method: "DELETE" });
+
+      if (!response.ok) {
+        throw new Error("Failed to delete view");
+      }
+
+      setSavedViews((prev) => prev.filter((view) => view.id !== id));
+    } catch (err) {
+      setError("Failed to delete view");
+      console.error("Error deleting view:", err);
+    }
+  };
+
+  // Copy a link that opens the app with the view's filters
+  const copyViewLink = async (query: string) => {
+    try {
+      await navigator.clipboard.writeText(`${window.location.origin}${window.location.pathname}?${query}`);
+    } catch (err) {
+      setError("Failed to copy link");
+      console.error("Error copying view link:", err);
+    }
+  };
+
+  const fetchProjects = async () => {
+    try {
+      const response = await fetch("/api/projects");
+      if (!response.ok) {
+        throw new Error("Failed to fetch projects");
+      }
+      const projectsData = await response.json();
+      if (Array.isArray(projectsData)) {
+        setProjects(projectsData);
+      }
+    } catch (err) {
+      // Projects are optional - the list still works without them
+      console.error("Error fetching projects:", err);
+    }
+  };
+
+  const createProject = async () => {
+    const name = newProjectName.trim();
+    if (!name) return;
+
+    try {
+      // Cycle through the brand palette for new projects
+      const palette = ["#8b5cf6", "#ec4899", "#3b82f6", "#10b981", "#f59e0b", "#ef4444"];
+      const response = await fetch("/api/projects", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ name, color: palette[projects.length % palette.length] }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to create project");
+      }
+
+      const project: Project = await response.json();
+      setProjects((prev) => [...prev, project]);
+      setActiveProject(project.id);
+      setNewProjectName("");
+      setShowProjectMenu(false);
+    } catch (err) {
+      setError("Failed to create project");
+      console.error("Error creating project:", err);
+    }
+  };
+
+  const archiveProject = async (id: number) => {
+    try {
+      const response = await fetch(`/api/projects/${id}`, {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ archived: true }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to archive project");
+      }
+
+      setProjects((prev) => prev.filter((p) => p.id !== id));
+      if (activeProject === id) {
+        setActiveProject("all");
+      }
+    } catch (err) {
+      setError("Failed to archive project");
+      console.error("Error archiving project:", err);
     }
   };
 
@@ -722,117 +1268,196 @@ export default function TodoApp() {
     }
   };
 
-  const extractTodosWithAI = async () => {
-    if (inputText.trim() === "") return;
+  const fetchPreferences = async () => {
+    try {
+      const response = await fetch("/api/preferences");
+      if (!response.ok) return; // Keep defaults (e.g. before setup)
+      const preferences = await response.json();
+      setReviewBeforeSave(preferences.reviewBeforeSave === true);
+    } catch (err) {
+      console.error("Error fetching preferences:", err);
+    }
+  };
 
+  // Use the profile's time zone; record the browser's when the profile has none yet
+  const fetchTimeZone = async () => {
     try {
-      setIsExtracting(true);
-      setError(null);
+      const response = await fetch("/api/profile");
+      const profile = response.ok ? await response.json() : null;
+      if (profile && isValidTimeZone(profile.timezone)) {
+        setTimeZone(profile.timezone);
+        return;
+      }
+      if (response.ok || response.status === 404) {
+        await fetch("/api/profile", {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify({ timezone: getBrowserTimeZone() }),
+        });
+      }
+    } catch (err) {
+      console.error("Error fetching time zone:", err);
+    }
+  };
 
-      const response = await fetch("/api/ai/extract", {
-        method: "POST",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ text: inputText.trim() }),
-      });
+  const toggleReviewBeforeSave = async () => {
+    const enabled = !reviewBeforeSave;
+    setReviewBeforeSave(enabled);
 
+    try {
+      const response = await fetch("/api/preferences", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ reviewBeforeSave: enabled }),
+      });
       if (!response.ok) {
-        throw new Error("Failed to extract todos");
+        throw new Error("Failed to update preferences");
       }
+    } catch (err) {
+      setReviewBeforeSave(!enabled);
+      setError("Failed to update preferences");
+      console.error("Error updating preferences:", err);
+    }
+  };
 
-      const result = await response.json();
-      console.log("AI extracted todos:", result);
-      // Validate AI response
-      if (!result || !Array.isArray(result.todos)) {
-        console.error("AI extraction returned unexpected shape:", result);
-        throw new Error("AI returned invalid response");
-      }
+  // Persist extracted todos (with their subtasks) in one atomic batch, returning the saved rows flattened.
+  // Retrying with the same draft ID returns the original todos instead of creating duplicates.
+  const saveExtractedTodos = async (extracted: unknown[], draftId: string, fallbackContext?: string): Promise<Todo[]> => {
+    const items = extracted.filter(isExtractedTodo).map((extractedTodo) => ({
+      text: extractedTodo.text,
+      tags: extractedTodo.tags,
+      priority: extractedTodo.priority,
+      ...toScheduleInput(readLocalSchedule(extractedTodo), timeZone),
+      context: extractedTodo.context ?? fallbackContext,
+      recurrence: extractedTodo.recurrence,
+      subtasks: toSubtaskPayloads(extractedTodo.subtasks, timeZone),
+      projectId: extractedTodo.projectId ?? getDefaultProjectId(),
+      aiGenerated: true,
+    }));
+    if (items.length === 0) return [];
+
+    const batchResponse = await fetch("/api/todos/batch", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ draftId, todos: items }),
+    });
 
-      // Save each extracted todo to the database
-      const savedTodos: Todo[] = [];
-      for (const extractedTodo of result.todos) {
-        // Basic validation for extracted todo
-        if (!extractedTodo || typeof extractedTodo.text !== "string") continue;
-        const todoResponse = await fetch("/api/todos", {
-          method: "POST",
-          headers: {
-            "Content-Type": "application/json",
-          },
-          body: JSON.stringify({
-            text: extractedTodo.text,
-            tags: extractedTodo.tags,
-            priority: extractedTodo.priority,
-            dueDate: extractedTodo.dueDate,
-            context: extractedTodo.context,
-            aiGenerated: true,
-          }),
-        });
+    if (!batchResponse.ok) {
+      const errorData = await batchResponse.json().catch(() => ({}));
+      throw new Error(errorData.error || "Failed to save todos");
+    }
 
-        if (todoResponse.ok) {
-          const savedTodo = await todoResponse.json();
-          // Ensure savedTodo has expected shape
-          if (savedTodo && (typeof savedTodo.id === "number" || typeof savedTodo.id === "string") && typeof savedTodo.text === "string") {
-            savedTodos.push({
-              ...savedTodo,
-              id: typeof savedTodo.id === "string" ? Number(savedTodo.id) : savedTodo.id,
-            });
-          } else {
-            console.warn("Saved todo had unexpected shape, skipping:", savedTodo);
-          }
-        }
-      }
+    const result = await batchResponse.json();
+    if (!result || !Array.isArray(result.todos)) {
+      throw new Error("Batch save returned an invalid response");
+    }
+    if (result.replayed) {
+      console.log("Draft was already saved, reusing its todos:", draftId);
+    }
+    return (result.todos as SavedTodoTree[]).flatMap(flattenTodoTree);
+  };
 
-      // Add todos with staggered animation
-      setExtractedTodos(savedTodos);
-      const newIds = new Set<number>();
+  // Put extracted todos in the review tray, all selected by default
+  const queueForReview = (extracted: unknown[], sourceText?: string) => {
+    const candidates: ReviewCandidate[] = extracted
+      .filter((t): t is ExtractedTodo => !!t && typeof (t as ExtractedTodo).text === "string" && (t as ExtractedTodo).text.trim() !== "")
+      .map((t, i) => ({
+        key: `${Date.now()}-${i}-${Math.random().toString(36).slice(2, 8)}`,
+        text: t.text,
+        tags: Array.isArray(t.tags) ? t.tags.filter((tag) => typeof tag === "string") : [],
+        priority: t.priority === "high" || t.priority === "low" ? t.priority : "medium",
+        dueDate: typeof t.dueDate === "string" && !isNaN(new Date(t.dueDate).getTime()) ? dueDateKey(t.dueDate) : "",
+        dueTime: t.dueTime ?? "",
+        startDate: typeof t.startDate === "string" && !isNaN(new Date(t.startDate).getTime()) ? dueDateKey(t.startDate) : "",
+        startTime: t.startTime ?? "",
+        context: t.context ?? sourceText ?? null,
+        recurrence: t.recurrence ?? null,
+        projectId: t.projectId ?? getDefaultProjectId(),
+        subtasks: Array.isArray(t.subtasks) ? t.subtasks : [],
+        selected: true,
+      }));
+
+    console.log(`Queued ${candidates.length} todo(s) for review`);
+    setReviewCandidates((prev) => [...prev, ...candidates]);
+  };
 
-      for (let i = 0; i < savedTodos.length; i++) {
-        await new Promise((resolve) => setTimeout(resolve, 400 * i));
-        const todo = savedTodos[i];
-        newIds.add(todo.id);
-        setNewTodoIds((prev) => new Set([...prev, todo.id]));
-        setTodos((prev) => [todo, ...prev]);
-      }
+  const updateCandidate = (key: string, changes: Partial<ReviewCandidate>) => {
+    setReviewCandidates((prev) => prev.map((c) => (c.key === key ? { ...c, ...changes } : c)));
+  };
 
-      // Remove animation class after 1 second
-      setTimeout(() => {
-        setNewTodoIds(new Set());
-      }, 1000);
+  const rejectCandidates = (keys: string[]) => {
+    setReviewCandidates((prev) => prev.filter((c) => !keys.includes(c.key)));
+  };
+
+  const acceptCandidates = async (keys: string[]) => {
+    const accepted = reviewCandidates.filter((c) => keys.includes(c.key) && c.text.trim() !== "");
+    if (accepted.length === 0) return;
 
-      setInputText("");
-      setExtractedTodos([]);
+    setIsSavingReview(true);
+    let savedTodos: Todo[] = [];
+    try {
+      savedTodos = await saveExtractedTodos(
+        accepted.map((candidate) => ({ ...candidate, text: candidate.text.trim(), dueDate: candidate.dueDate || null })),
+        `review-${accepted.map((c) => c.key).join(",")}`.slice(0, 200)
+      );
     } catch (err) {
-      setError("Failed to extract todos with AI");
-      console.error("Error extracting todos:", err);
+      // Nothing was saved - everything stays in the tray
+      setError("Failed to save reviewed todos. They are still in the review tray.");
+      console.error("Error saving reviewed todos:", err);
+      return;
     } finally {
-      setIsExtracting(false);
+      setIsSavingReview(false);
     }
+
+    setReviewCandidates((prev) => prev.filter((c) => !accepted.some((a) => a.key === c.key)));
+    setNewTodoIds((prev) => new Set([...prev, ...savedTodos.map((t) => t.id)]));
+    setTodos((prev) => [...savedTodos, ...prev]);
+    setTimeout(() => setNewTodoIds(new Set()), 1000);
   };
 
-  // Handle query execution
-  const executeQuery = async (queryResult: QueryResult) => {
-    console.log("Executing query:", queryResult);
+  // Handle query execution; the answer stays pinned until dismissed and follow-ups continue its session
+  const executeQuery = async (result: QueryResult, question: string) => {
+    console.log("Executing query:", result);
+
+    // A follow-up narrows the previous answer, so its filter only stands together with the previous one's
+    const previousFilter = activeQuery?.filter;
+    const queryResult =
+      result.followUp && result.filter && previousFilter
+        ? { ...result, filter: { type: "and" as const, filters: [...(previousFilter.type === "and" ? previousFilter.filters : [previousFilter]), result.filter] } }
+        : result;
+
+    querySessionId.current = queryResult.sessionId ?? null;
+    setQueryHistory((prev) => [{ question, result: queryResult, askedAt: new Date().toISOString() }, ...prev].slice(0, MAX_QUERY_HISTORY));
+    showQueryAnswer(queryResult);
 
-    // Clear any existing auto-clear timer
-    if (queryClearTimer) {
-      clearTimeout(queryClearTimer);
+    // Snooze commands act on the matching todos instead of narrowing the list to them
+    if (queryResult.intent === "snooze" && queryResult.snoozeUntil) {
+      await snoozeTodos(queryResult.matchingTodoIds, queryResult.snoozeUntil);
     }
 
+    // Action commands only propose changes; nothing is written until the user confirms the diff
+    setPendingChanges(queryResult.changes && queryResult.changes.length > 0 ? queryResult : null);
+  };
+
+  // Pin an answer and highlight its todos (commands that act on todos don't filter the list)
+  const showQueryAnswer = (queryResult: QueryResult) => {
     setActiveQuery(queryResult);
-    setFilteredTodoIds(new Set(queryResult.matchingTodoIds));
+    setFilteredTodoIds(queryResult.snoozeUntil ? new Set() : new Set(queryResult.matchingTodoIds));
+    setQueryFilter(isFilterAnswer(queryResult) ? queryResult.filter : null);
+  };
 
-    // Auto-clear query after 10 seconds
-    const timer = setTimeout(() => {
-      setActiveQuery(null);
-      setFilteredTodoIds(new Set());
-      setQueryClearTimer(null);
-    }, 10000);
+  // Answers that narrow the list (not commands acting on their matches), and can be saved as a view
+  const isFilterAnswer = (queryResult: QueryResult): queryResult is QueryResult & { filter: TodoFilter } => !!queryResult.filter && !queryResult.snoozeUntil && !queryResult.changes?.length;
 
-    setQueryClearTimer(timer);
+  // Unpin the answer and end the conversation; the next question starts a fresh session
+  const dismissQuery = () => {
+    setActiveQuery(null);
+    setFilteredTodoIds(new Set());
+    setQueryFilter(null);
+    querySessionId.current = null;
   };
 
-  // Smart input handler: detects query vs todo creation
+  // Smart input handler: the server pipeline decides whether this is a query or new todos
   const enqueueDraftFromInput = async () => {
     const text = inputText.trim();
     if (!text) return;
@@ -840,135 +1465,154 @@ export default function TodoApp() {
     // Clear input immediately for better UX
     setInputText("");
 
-    // Create draft IMMEDIATELY (optimistic UI)
+    // Create draft IMMEDIATELY (optimistic UI); it's persisted until the server accepts it
     const draft: Draft = {
       id: `${Date.now()}-${Math.random().toString(36).slice(2, 8)}`,
+      userId: userId ?? "",
       text,
       status: "queued",
+      attempts: 0,
       createdAt: new Date().toISOString(),
     };
     setDrafts((prev) => [draft, ...prev]);
     console.log("Draft created instantly:", text);
-
-    // THEN check if it's actually a query (in background)
-    setIsQuerying(true);
-
-    try {
-      // Step 1: Ask AI if this is a query or todo creation
-      const queryResponse = await fetch("/api/ai/query", {
-        method: "POST",
-        headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text, todos }),
-      });
-
-      if (!queryResponse.ok) {
-        throw new Error("Query detection failed");
-      }
-
-      const queryResult: QueryResult = await queryResponse.json();
-      console.log("Query detection result:", queryResult);
-
-      // Step 2: If it's a query, remove the draft and execute query instead
-      if (queryResult.isQuery) {
-        // Remove the draft we optimistically created
-        setDrafts((prev) => prev.filter((d) => d.id !== draft.id));
-        console.log("Detected as query, removing draft:", draft.id);
-
-        // Execute the query
-        await executeQuery(queryResult);
-      } else {
-        // It's todo creation - draft is already queued, will be processed automatically
-        console.log("Confirmed as todo creation, draft will be processed");
-      }
-    } catch (err) {
-      console.error("Input processing error:", err);
-      // On error, keep the draft and let it process as a todo
-      console.log("Query detection failed, treating as todo");
-    } finally {
-      setIsQuerying(false);
-    }
   };
 
-  // Process next draft in FIFO order
+  // Submit the next local draft to the server pipeline in FIFO order
   const processNextDraft = async (): Promise<void> => {
-    // Prevent parallel processing
+    // Prevent parallel submissions
     if (isProcessingDraft) return;
 
     const next = getNextDraft();
     if (!next) return;
 
-    console.log("Processing draft:", next.text);
+    console.log("Submitting draft:", next.text);
     setIsProcessingDraft(true);
 
     // Mark as processing
     setDrafts((prev) => prev.map((d) => (d.id === next.id ? { ...d, status: "processing" as const, error: undefined } : d)));
 
     try {
-      // Call AI to extract todos from this draft
-      const response = await fetch("/api/ai/extract", {
+      // The client ID makes resubmitting after a lost response a no-op on the server
+      const response = await fetch("/api/drafts", {
         method: "POST",
         headers: { "Content-Type": "application/json" },
-        body: JSON.stringify({ text: next.text }),
+        body: JSON.stringify({ text: next.text, clientId: next.id, projectId: getDefaultProjectId(), querySessionId: querySessionId.current }),
       });
 
-      if (!response.ok) throw new Error("Failed to extract todos");
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to submit draft");
+      }
       const result = await response.json();
 
-      if (!result || !Array.isArray(result.todos)) throw new Error("AI returned invalid response");
+      setDrafts((prev) => prev.map((d) => (d.id === next.id ? { ...d, status: "processing" as const, serverId: result.draft.id, error: undefined, nextAttemptAt: undefined } : d)));
+    } catch (err: any) {
+      console.error("Draft submission error:", err.message);
+
+      // Retry automatically with exponential backoff, then park it for a manual retry
+      const attempts = next.attempts + 1;
+      const failed: Draft =
+        attempts < MAX_AUTO_RETRIES
+          ? { ...next, status: "queued", attempts, error: err?.message || "Failed", nextAttemptAt: new Date(Date.now() + getRetryDelay(attempts)).toISOString() }
+          : { ...next, status: "error", attempts, error: err?.message || "Failed", nextAttemptAt: undefined };
+      setDrafts((prev) => prev.map((d) => (d.id === next.id ? failed : d)));
+    } finally {
+      setIsProcessingDraft(false);
+    }
+  };
 
-      // Save extracted todos
-      const savedTodos: Todo[] = [];
-      for (const extractedTodo of result.todos) {
-        if (!extractedTodo || typeof extractedTodo.text !== "string") continue;
+  // Pick up results for submitted drafts and acknowledge them so the server can forget them
+  const pollDrafts = async (submitted: Draft[]) => {
+    if (isPollingDrafts.current) return;
+    isPollingDrafts.current = true;
 
-        const todoResponse = await fetch("/api/todos", {
-          method: "POST",
-          headers: { "Content-Type": "application/json" },
-          body: JSON.stringify({
-            text: extractedTodo.text,
-            tags: extractedTodo.tags,
-            priority: extractedTodo.priority,
-            dueDate: extractedTodo.dueDate,
-            context: extractedTodo.context ?? next.text,
-            aiGenerated: true,
-          }),
-        });
+    try {
+      const response = await fetch(`/api/drafts?ids=${submitted.map((d) => d.serverId).join(",")}`);
+      if (!response.ok) throw new Error("Failed to fetch draft status");
+      const serverDrafts: ServerDraft[] = await response.json();
 
-        if (todoResponse.ok) {
-          const savedTodo = await todoResponse.json();
-          savedTodos.push({
-            ...savedTodo,
-            id: typeof savedTodo.id === "string" ? Number(savedTodo.id) : savedTodo.id,
-          });
+      for (const local of submitted) {
+        const remote = serverDrafts.find((d) => d.id === local.serverId);
+
+        // Gone on the server (dismissed elsewhere) - nothing left to wait for
+        if (!remote) {
+          setDrafts((prev) => prev.filter((d) => d.id !== local.id));
+          continue;
         }
-      }
 
-      console.log(`AI extracted ${savedTodos.length} todo(s)`);
+        if (remote.status === "error") {
+          setDrafts((prev) => prev.map((d) => (d.id === local.id ? { ...d, status: "error" as const, error: remote.error || "Failed" } : d)));
+          continue;
+        }
+        if (remote.status === "queued" || remote.status === "processing") {
+          // Surface server-side retries (or budget waits) and todos found so far without stopping the poll
+          const error = remote.error || (remote.attempts > 0 ? "Failed" : undefined);
+          const preview = remote.result && "partial" in remote.result ? remote.result.partial.map((t) => t.text) : undefined;
+          if (error !== local.error || preview?.length !== local.preview?.length) {
+            setDrafts((prev) => prev.map((d) => (d.id === local.id ? { ...d, error, preview } : d)));
+          }
+          continue;
+        }
 
-      // Add with staggered animation
-      for (let i = 0; i < savedTodos.length; i++) {
-        await new Promise((resolve) => setTimeout(resolve, 250));
-        const todo = savedTodos[i];
-        setNewTodoIds((prev) => new Set([...prev, todo.id]));
-        setTodos((prev) => [todo, ...prev]);
+        if (remote.status === "query" && remote.result && "query" in remote.result) {
+          console.log("Draft was a query:", remote.result.query);
+          await executeQuery(remote.result.query, local.text);
+        } else if (remote.status === "review" && remote.result && "candidates" in remote.result) {
+          queueForReview(remote.result.candidates, local.text);
+        } else if (remote.status === "completed" && remote.result && "todos" in remote.result) {
+          const savedTodos = remote.result.todos.flatMap(flattenTodoTree);
+          console.log(`AI extracted ${savedTodos.length} todo(s)`);
+          setNewTodoIds((prev) => new Set([...prev, ...savedTodos.map((t) => t.id)]));
+          setTodos((prev) => [...savedTodos, ...prev.filter((t) => !savedTodos.some((saved) => saved.id === t.id))]);
+          setTimeout(() => setNewTodoIds(new Set()), 1000);
+        }
+
+        setDrafts((prev) => prev.filter((d) => d.id !== local.id));
+        await fetch(`/api/drafts/${remote.id}`, { method: "DELETE" });
       }
+    } catch (err) {
+      console.error("Draft polling error:", err);
+    } finally {
+      isPollingDrafts.current = false;
+    }
+  };
 
-      // Clear animation marks later
-      setTimeout(() => setNewTodoIds(new Set()), 1000);
+  // Queued drafts that aren't waiting out a retry backoff
+  const isDraftDue = (draft: Draft) => draft.status === "queued" && (!draft.nextAttemptAt || new Date(draft.nextAttemptAt).getTime() <= Date.now());
 
-      // Remove the processed draft from queue (FIFO)
-      setDrafts((prev) => prev.filter((d) => d.id !== next.id));
-    } catch (err: any) {
-      console.error("Draft processing error:", err.message);
-      setDrafts((prev) => prev.map((d) => (d.id === next.id ? { ...d, status: "error" as const, error: err?.message || "Failed" } : d)));
-    } finally {
-      setIsProcessingDraft(false);
+  // Retry a failed draft: re-run it on the server if it got there, otherwise resubmit it
+  const retryDraft = async (id: string) => {
+    const draft = drafts.find((d) => d.id === id);
+    if (!draft) return;
+
+    if (draft.serverId === undefined) {
+      setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, status: "queued" as const, error: undefined, attempts: 0, nextAttemptAt: undefined } : d)));
+      return;
+    }
+
+    try {
+      const response = await fetch(`/api/drafts/${draft.serverId}/retry`, { method: "POST" });
+      if (!response.ok) throw new Error("Failed to retry draft");
+      setDrafts((prev) => prev.map((d) => (d.id === id ? { ...d, status: "processing" as const, error: undefined } : d)));
+    } catch (err) {
+      setError("Failed to retry draft");
+      console.error("Error retrying draft:", err);
+    }
+  };
+
+  const discardDraft = (id: string) => {
+    const draft = drafts.find((d) => d.id === id);
+    setDrafts((prev) => prev.filter((d) => d.id !== id));
+    if (draft?.serverId !== undefined) {
+      fetch(`/api/drafts/${draft.serverId}`, { method: "DELETE" }).catch((err) => console.error("Error discarding draft:", err));
     }
   };
+
   const getNextDraft = (): Draft | undefined => {
     // FIFO: pick the last in array (since we unshift at front), or reverse of our push strategy
     // We added new drafts at the front, so the FIFO element is the last one
-    const queued = drafts.filter((d) => d.status === "queued");
+    const queued = drafts.filter(isDraftDue);
     const next = queued.slice(-1)[0];
     console.log("[GET_NEXT] All drafts:", drafts);
     console.log("[GET_NEXT] Queued drafts:", queued);
@@ -984,7 +1628,7 @@ export default function TodoApp() {
           headers: {
             "Content-Type": "application/json",
           },
-          body: JSON.stringify({ text: inputText.trim() }),
+          body: JSON.stringify({ text: inputText.trim(), projectId: getDefaultProjectId() }),
         });
 
         if (!response.ok) {
@@ -1001,39 +1645,348 @@ export default function TodoApp() {
     }
   };
 
-  const toggleTodo = async (id: number) => {
-    const todo = todos.find((t) => t.id === id);
-    if (!todo) return;
+  // Offer a timed undo for the last action (replaces any previous offer)
+  const showUndo = (message: string, undo: () => Promise<void>) => {
+    if (undoTimer) {
+      clearTimeout(undoTimer);
+    }
+    setUndoAction({ message, undo });
+    setUndoTimer(
+      setTimeout(() => {
+        setUndoAction(null);
+        setUndoTimer(null);
+      }, UNDO_TIMEOUT_MS)
+    );
+  };
+
+  const dismissUndo = () => {
+    if (undoTimer) {
+      clearTimeout(undoTimer);
+      setUndoTimer(null);
+    }
+    setUndoAction(null);
+  };
+
+  const performUndo = async () => {
+    const action = undoAction;
+    dismissUndo();
+    if (!action) return;
+
+    try {
+      await action.undo();
+    } catch (err) {
+      setError("Failed to undo");
+      console.error("Error undoing action:", err);
+    }
+  };
+
+  // Bring todos back from the trash (subtasks trashed with them come back too)
+  const restoreFromTrash = async (ids: number[]) => {
+    const restored: Todo[] = [];
+    for (const id of ids) {
+      const response = await fetch(`/api/todos/trash/${id}`, { method: "POST" });
+      if (!response.ok) {
+        throw new Error("Failed to restore todo");
+      }
+      const result = await response.json();
+      restored.push(...result.todos);
+    }
+
+    const restoredIds = new Set(restored.map((t) => t.id));
+    setTodos((prev) => [...restored, ...prev.filter((t) => !restoredIds.has(t.id))]);
+    setTrashedTodos((prev) => prev.filter((t) => !restoredIds.has(t.id)));
+  };
+
+  const fetchTrash = async () => {
+    try {
+      const response = await fetch("/api/todos/trash");
+      if (!response.ok) {
+        throw new Error("Failed to fetch trash");
+      }
+      const result = await response.json();
+      setTrashedTodos(result.todos);
+      setTrashRetentionDays(result.retentionDays);
+    } catch (err) {
+      setError("Failed to load trash");
+      console.error("Error fetching trash:", err);
+    }
+  };
+
+  const purgeFromTrash = async (id: number) => {
+    try {
+      const response = await fetch(`/api/todos/trash/${id}`, { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to delete todo permanently");
+      }
+      // Subtasks are purged with their parent
+      await fetchTrash();
+    } catch (err) {
+      setError("Failed to delete todo permanently");
+      console.error("Error purging todo:", err);
+    }
+  };
+
+  const emptyTrash = async () => {
+    if (!confirm("Permanently delete everything in the trash? This can't be undone.")) {
+      return;
+    }
+
+    try {
+      const response = await fetch("/api/todos/trash", { method: "DELETE" });
+      if (!response.ok) {
+        throw new Error("Failed to empty trash");
+      }
+      setTrashedTodos([]);
+    } catch (err) {
+      setError("Failed to empty trash");
+      console.error("Error emptying trash:", err);
+    }
+  };
+
+  const toggleTodo = async (id: number) => {
+    const todo = todos.find((t) => t.id === id);
+    if (!todo) return;
+
+    try {
+      const response = await fetch(`/api/todos/${id}`, {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ completed: !todo.completed }),
+      });
+
+      if (!response.ok) {
+        throw new Error("Failed to update todo");
+      }
+
+      const { nextOccurrence, ...updatedTodo } = await response.json();
+      setTodos(todos.map((t) => (t.id === id ? updatedTodo : t)));
+
+      // Recurring todos come back with their next occurrence already scheduled
+      if (nextOccurrence) {
+        setNewTodoIds((prev) => new Set([...prev, nextOccurrence.id]));
+        setTodos((prev) => [nextOccurrence, ...prev]);
+        setTimeout(() => setNewTodoIds(new Set()), 1000);
+      }
+
+      showUndo(todo.completed ? `Reopened "${todo.text}"` : `Completed "${todo.text}"`, async () => {
+        // Drop the spawned occurrence for good and hand the rule back
+        if (nextOccurrence) {
+          await fetch(`/api/todos/${nextOccurrence.id}`, { method: "DELETE" });
+          await fetch(`/api/todos/trash/${nextOccurrence.id}`, { method: "DELETE" });
+          setTodos((prev) => prev.filter((t) => t.id !== nextOccurrence.id));
+        }
+
+        const undoResponse = await fetch(`/api/todos/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(nextOccurrence ? { completed: todo.completed, recurrence: todo.recurrence } : { completed: todo.completed }),
+        });
+        if (!undoResponse.ok) {
+          throw new Error("Failed to undo completion");
+        }
+        const restoredTodo = await undoResponse.json();
+        setTodos((prev) => prev.map((t) => (t.id === id ? restoredTodo : t)));
+      });
+    } catch (err) {
+      setError("Failed to update todo");
+      console.error("Error updating todo:", err);
+    }
+  };
+
+  // Snooze todos until a timestamp, or wake them up with null
+  const snoozeTodos = async (ids: number[], until: string | null) => {
+    setSnoozeMenuId(null);
+
+    // Sent by id, so a query answer's matches are snoozed whether they're loaded or not
+    const setSnoozes = async (targets: { id: number; snoozedUntil: string | null }[]) => {
+      const updated = new Map<number, Todo>();
+      for (let i = 0; i < targets.length; i += MAX_BULK_CHANGES) {
+        const result = await postBulkChanges(targets.slice(i, i + MAX_BULK_CHANGES).map(({ id, snoozedUntil }) => ({ id, patch: { snoozedUntil } })));
+        result.todos.forEach((todo) => updated.set(todo.id, todo));
+      }
+      // Newly snoozed todos that weren't loaded still belong in the Snoozed section
+      const now = new Date();
+      setTodos((prev) => [...prev.map((t) => updated.get(t.id) ?? t), ...[...updated.values()].filter((todo) => isSnoozed(todo, now) && !prev.some((t) => t.id === todo.id))]);
+    };
+
+    try {
+      const previous = await getTodosById(ids);
+      if (previous.length === 0) return;
+      await setSnoozes(previous.map((todo) => ({ id: todo.id, snoozedUntil: until })));
+      const label = previous.length === 1 ? `"${previous[0].text}"` : `${previous.length} todos`;
+      showUndo(until ? `Snoozed ${label} until ${formatSnoozeUntil(until)}` : `Woke up ${label}`, async () => {
+        await setSnoozes(previous);
+      });
+    } catch (err) {
+      setError("Failed to snooze todo");
+      console.error("Error snoozing todo:", err);
+    }
+  };
+
+  const snoozeWithPreset = (id: number, preset: SnoozePreset) => snoozeTodos([id], toZonedISOString(resolveSnoozePreset(preset, timeZone), timeZone));
+
+  // datetime-local input ("2026-10-20T15:00") read in the user's zone
+  const snoozeUntilCustom = (id: number) => {
+    const [date, time] = customSnooze.split("T");
+    if (!date || !time) return;
+    setCustomSnooze("");
+    snoozeTodos([id], toZonedISOString(zonedDateTime(date, time, timeZone), timeZone));
+  };
+
+  // Before/after rows for the confirmation diff of one proposed change
+  const describeChange = (change: TodoChange, todo: Todo): { field: string; before: string; after: string }[] => {
+    if (!("patch" in change)) {
+      const subtaskCount = getDescendantIds(todo.id).length;
+      return [{ field: "Trash", before: "", after: subtaskCount > 0 ? `Move to trash with ${subtaskCount} subtask${subtaskCount === 1 ? "" : "s"}` : "Move to trash" }];
+    }
+
+    const { patch } = change;
+    const formatTags = (tags: unknown) => (Array.isArray(tags) && tags.length > 0 ? tags.map((tag) => `#${tag}`).join(" ") : "none");
+    const formatMoment = (value: unknown, allDay: boolean) => (typeof value === "string" ? formatScheduleValue(value, { allDay }) : "none");
+    const allDay = typeof patch.allDay === "boolean" ? patch.allDay : todo.allDay;
+    const rows: { field: string; before: string; after: string }[] = [];
+
+    if (patch.completed !== undefined) rows.push({ field: "Status", before: todo.completed ? "Done" : "Open", after: patch.completed ? "Done" : "Open" });
+    if (patch.tags !== undefined) rows.push({ field: "Tags", before: formatTags(todo.tags), after: formatTags(patch.tags) });
+    if (patch.priority !== undefined) rows.push({ field: "Priority", before: todo.priority, after: String(patch.priority) });
+    for (const [field, key, current] of [["Due", "dueAt", todo.dueAt], ["Starts", "startAt", todo.startAt]] as const) {
+      if (patch[key] === undefined) continue;
+      const before = formatMoment(current, todo.allDay);
+      const after = formatMoment(patch[key], allDay);
+      if (before !== after) rows.push({ field, before, after });
+    }
+    return rows;
+  };
+
+  // Apply a confirmed change set in batches of MAX_BULK_CHANGES; undo sends the previous values back the same way.
+  // A batch that fails stops the rest, and what the earlier batches applied stays listed and undoable.
+  const applyPendingChanges = async () => {
+    const changes = pendingChanges?.changes;
+    if (!changes) return;
+    const deletedIds = new Set(changes.filter((change) => !("patch" in change)).map((change) => change.id));
 
+    setIsApplyingChanges(true);
     try {
-      const response = await fetch(`/api/todos/${id}`, {
-        method: "PUT",
-        headers: {
-          "Content-Type": "application/json",
-        },
-        body: JSON.stringify({ completed: !todo.completed }),
+      // Undo needs every changed todo as it was, including ones on pages that aren't loaded
+      const before = await getTodosById(changes.map((change) => change.id));
+
+      // Trashed subtasks come back with their parent, so undo restores only the topmost deleted todos
+      const hasDeletedAncestor = (todo: Todo): boolean => {
+        const parent = todos.find((t) => t.id === todo.parentId) ?? before.find((t) => t.id === todo.parentId);
+        return !!parent && (deletedIds.has(parent.id) || hasDeletedAncestor(parent));
+      };
+
+      const { applied, result, error: batchError } = await postBulkChangesInBatches(changes);
+      const updated = new Map(result.todos.map((t) => [t.id, t]));
+      const trashed = new Set(result.deletedIds);
+      setTodos((prev) => [...result.nextOccurrences, ...prev.filter((t) => !trashed.has(t.id)).map((t) => updated.get(t.id) ?? t)]);
+      setPendingChanges(null);
+      if (batchError) {
+        setError(`Applied ${applied.length} of ${changes.length} changes: ${batchError.message}`);
+      }
+      if (applied.length === 0) return;
+
+      const appliedDeletes = new Set(applied.filter((change) => !("patch" in change)).map((change) => change.id));
+      const restoreIds = before.filter((t) => appliedDeletes.has(t.id) && !hasDeletedAncestor(t)).map((t) => t.id);
+
+      showUndo(`Applied ${applied.length} change${applied.length === 1 ? "" : "s"}`, async () => {
+        // Drop spawned occurrences for good; the reverted todos get their rules back
+        for (const occurrence of result.nextOccurrences) {
+          await fetch(`/api/todos/${occurrence.id}`, { method: "DELETE" });
+          await fetch(`/api/todos/trash/${occurrence.id}`, { method: "DELETE" });
+        }
+        const occurrenceIds = new Set(result.nextOccurrences.map((t) => t.id));
+        setTodos((prev) => prev.filter((t) => !occurrenceIds.has(t.id)));
+
+        const inverse: TodoChange[] = before.flatMap((todo) => {
+          const change = applied.find((c) => c.id === todo.id);
+          if (!change || !("patch" in change)) return [];
+          const patch: Record<string, unknown> = Object.fromEntries(Object.keys(change.patch).map((key) => [key, todo[key as keyof Todo]]));
+          if (change.patch.completed !== undefined && todo.recurrence) patch.recurrence = todo.recurrence;
+          return [{ id: todo.id, patch }];
+        });
+        if (inverse.length > 0) {
+          const reverted = await postBulkChangesInBatches(inverse);
+          const revertedById = new Map(reverted.result.todos.map((t) => [t.id, t]));
+          setTodos((prev) => prev.map((t) => revertedById.get(t.id) ?? t));
+          if (reverted.error) throw reverted.error;
+        }
+        if (restoreIds.length > 0) {
+          await restoreFromTrash(restoreIds);
+        }
       });
+    } catch (err) {
+      setError(err instanceof Error ? err.message : "Failed to apply changes");
+      console.error("Error applying changes:", err);
+    } finally {
+      setIsApplyingChanges(false);
+    }
+  };
 
+  // Todos by id as they are now: loaded ones from the list, the rest from the server (e.g. a query answer's
+  // matches on pages not loaded yet)
+  const getTodosById = async (ids: number[]): Promise<Todo[]> => {
+    const loaded = todos.filter((t) => ids.includes(t.id));
+    const missing = ids.filter((id) => !loaded.some((t) => t.id === id));
+    const fetched: Todo[] = [];
+    for (let i = 0; i < missing.length; i += MAX_LIST_IDS) {
+      const response = await fetch(`/api/todos?ids=${missing.slice(i, i + MAX_LIST_IDS).join(",")}`);
       if (!response.ok) {
-        throw new Error("Failed to update todo");
+        throw new Error("Failed to fetch todos");
       }
+      fetched.push(...normalizeTodos(await response.json()));
+    }
+    return [...loaded, ...fetched];
+  };
 
-      const updatedTodo = await response.json();
-      setTodos(todos.map((t) => (t.id === id ? updatedTodo : t)));
-    } catch (err) {
-      setError("Failed to update todo");
-      console.error("Error updating todo:", err);
+  // Send a change set of any size in server-sized batches. Changes to todos an earlier batch already trashed
+  // (subtasks of a deleted parent) are skipped; the first failing batch stops the rest and is returned as `error`.
+  const postBulkChangesInBatches = async (changes: TodoChange[]): Promise<{ applied: TodoChange[]; result: BulkChangeResult; error: Error | null }> => {
+    const applied: TodoChange[] = [];
+    const result: BulkChangeResult = { todos: [], nextOccurrences: [], deletedIds: [] };
+    const trashed = new Set<number>();
+    for (let i = 0; i < changes.length; i += MAX_BULK_CHANGES) {
+      const batch = changes.slice(i, i + MAX_BULK_CHANGES).filter((change) => !trashed.has(change.id));
+      if (batch.length === 0) continue;
+      try {
+        const batchResult = await postBulkChanges(batch);
+        result.todos.push(...batchResult.todos);
+        result.nextOccurrences.push(...batchResult.nextOccurrences);
+        result.deletedIds.push(...batchResult.deletedIds);
+        batchResult.deletedIds.forEach((id) => trashed.add(id));
+        applied.push(...batch);
+      } catch (err) {
+        return { applied, result, error: err instanceof Error ? err : new Error("Failed to apply changes") };
+      }
+    }
+    return { applied, result, error: null };
+  };
+
+  const postBulkChanges = async (changes: TodoChange[]): Promise<BulkChangeResult> => {
+    const response = await fetch("/api/todos/bulk", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ changes }),
+    });
+    const result = await response.json();
+    if (!response.ok) {
+      throw new Error(result.error || "Failed to apply changes");
     }
+    return result;
   };
 
   // Optimistic delete: remove from UI immediately, rollback on error
   const deleteTodo = async (id: number) => {
-    // 1. Find the todo before removing it (for potential rollback)
+    // 1. Find the todo (and its subtasks, which the database deletes with it) for potential rollback
     const todoToDelete = todos.find((t) => t.id === id);
     if (!todoToDelete) return;
+    const removedIds = new Set([id, ...getDescendantIds(id)]);
+    const removedTodos = todos.filter((t) => removedIds.has(t.id));
 
     // 2. Optimistically remove from UI immediately
-    setTodos((prev) => prev.filter((todo) => todo.id !== id));
+    setTodos((prev) => prev.filter((todo) => !removedIds.has(todo.id)));
     console.log("Todo deleted from UI:", id);
 
     // 3. Queue the actual deletion in background
@@ -1046,11 +1999,12 @@ export default function TodoApp() {
         throw new Error("Failed to delete todo");
       }
 
-      console.log("Todo deleted from database:", id);
+      console.log("Todo moved to trash:", id);
+      showUndo(`Deleted "${todoToDelete.text}"`, () => restoreFromTrash([id]));
     } catch (err) {
       // 4. ROLLBACK: Re-insert the todo if deletion failed
       console.error("Delete failed, rolling back:", err);
-      setTodos((prev) => [todoToDelete, ...prev]);
+      setTodos((prev) => [...removedTodos, ...prev]);
       setError(`Failed to delete "${todoToDelete.text}". It has been restored.`);
 
       // Clear error after 5 seconds
@@ -1064,10 +2018,11 @@ export default function TodoApp() {
   };
 
   const saveEdit = async (id: number) => {
-    if (editText.trim() !== "") {
+    const previousText = todos.find((t) => t.id === id)?.text;
+    if (editText.trim() !== "" && editText.trim() !== previousText) {
       try {
         const response = await fetch(`/api/todos/${id}`, {
-          method: "PUT",
+          method: "PATCH",
           headers: {
             "Content-Type": "application/json",
           },
@@ -1080,6 +2035,19 @@ export default function TodoApp() {
 
         const updatedTodo = await response.json();
         setTodos(todos.map((todo) => (todo.id === id ? updatedTodo : todo)));
+
+        showUndo(`Edited "${previousText}"`, async () => {
+          const undoResponse = await fetch(`/api/todos/${id}`, {
+            method: "PATCH",
+            headers: { "Content-Type": "application/json" },
+            body: JSON.stringify({ text: previousText }),
+          });
+          if (!undoResponse.ok) {
+            throw new Error("Failed to undo edit");
+          }
+          const restoredTodo = await undoResponse.json();
+          setTodos((prev) => prev.map((todo) => (todo.id === id ? restoredTodo : todo)));
+        });
       } catch (err) {
         setError("Failed to update todo");
         console.error("Error updating todo:", err);
@@ -1102,15 +2070,296 @@ export default function TodoApp() {
     }
   };
 
+  const openDetails = (todo: Todo) => {
+    const local = toLocalSchedule(todo, timeZone);
+    const schedule = { dueDate: local.dueDate ?? "", dueTime: local.dueTime ?? "", startDate: local.startDate ?? "", startTime: local.startTime ?? "" };
+    setDetailsId(todo.id);
+    setDetailsDraft({
+      tags: [...todo.tags],
+      tagInput: "",
+      priority: todo.priority,
+      ...schedule,
+      context: todo.context ?? "",
+      recurrence: todo.recurrence ?? "",
+      projectId: todo.projectId,
+    });
+  };
+
+  const closeDetails = () => {
+    setDetailsId(null);
+    setDetailsDraft(null);
+  };
+
+  const addDraftTag = () => {
+    if (!detailsDraft) return;
+    const tag = detailsDraft.tagInput.trim().replace(/^#/, "").toLowerCase();
+    setDetailsDraft({
+      ...detailsDraft,
+      tags: tag && !detailsDraft.tags.includes(tag) ? [...detailsDraft.tags, tag] : detailsDraft.tags,
+      tagInput: "",
+    });
+  };
+
+  const handleTagKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === "Enter" || e.key === ",") {
+      e.preventDefault();
+      addDraftTag();
+    } else if (e.key === "Backspace" && detailsDraft && detailsDraft.tagInput === "" && detailsDraft.tags.length > 0) {
+      setDetailsDraft({ ...detailsDraft, tags: detailsDraft.tags.slice(0, -1) });
+    }
+  };
+
+  const saveDetails = async (id: number) => {
+    const todo = todos.find((t) => t.id === id);
+    if (!todo || !detailsDraft) return;
+
+    // Only send what actually changed, and remember the old values for undo
+    const pendingTag = detailsDraft.tagInput.trim().replace(/^#/, "").toLowerCase();
+    const tags = pendingTag && !detailsDraft.tags.includes(pendingTag) ? [...detailsDraft.tags, pendingTag] : detailsDraft.tags;
+    const previousSchedule = toLocalSchedule(todo, timeZone);
+    const schedule = readLocalSchedule(detailsDraft);
+    const changes: Record<string, unknown> = {};
+    const previous: Record<string, unknown> = {};
+
+    if (tags.join(",") !== todo.tags.join(",")) {
+      changes.tags = tags;
+      previous.tags = todo.tags;
+    }
+    if (detailsDraft.priority !== todo.priority) {
+      changes.priority = detailsDraft.priority;
+      previous.priority = todo.priority;
+    }
+    // The schedule is sent as a whole so the date, times and all-day flag stay consistent
+    if (JSON.stringify(schedule) !== JSON.stringify(previousSchedule)) {
+      Object.assign(changes, toScheduleInput(schedule, timeZone));
+      Object.assign(previous, toScheduleInput(previousSchedule, timeZone));
+    }
+    if (detailsDraft.context.trim() !== (todo.context ?? "")) {
+      changes.context = detailsDraft.context.trim() || null;
+      previous.context = todo.context;
+    }
+    if (detailsDraft.recurrence.trim() !== (todo.recurrence ?? "")) {
+      changes.recurrence = detailsDraft.recurrence.trim() || null;
+      previous.recurrence = todo.recurrence;
+    }
+    if (detailsDraft.projectId !== todo.projectId) {
+      changes.projectId = detailsDraft.projectId;
+      previous.projectId = todo.projectId;
+    }
+
+    if (Object.keys(changes).length === 0) {
+      closeDetails();
+      return;
+    }
+
+    setIsSavingDetails(true);
+    try {
+      const response = await fetch(`/api/todos/${id}`, {
+        method: "PATCH",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify(changes),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json().catch(() => ({}));
+        throw new Error(errorData.error || "Failed to update todo");
+      }
+
+      const updatedTodo = await response.json();
+      setTodos((prev) => prev.map((t) => (t.id === id ? updatedTodo : t)));
+      closeDetails();
+
+      showUndo(`Updated "${todo.text}"`, async () => {
+        const undoResponse = await fetch(`/api/todos/${id}`, {
+          method: "PATCH",
+          headers: { "Content-Type": "application/json" },
+          body: JSON.stringify(previous),
+        });
+        if (!undoResponse.ok) {
+          throw new Error("Failed to undo update");
+        }
+        const restoredTodo = await undoResponse.json();
+        setTodos((prev) => prev.map((t) => (t.id === id ? restoredTodo : t)));
+      });
+    } catch (err) {
+      // Keep the editor open so the user can fix the offending field
+      setError(err instanceof Error ? err.message : "Failed to update todo");
+      console.error("Error updating todo details:", err);
+    } finally {
+      setIsSavingDetails(false);
+    }
+  };
+
+  // Inline editor for the AI-enhanced fields (tags, priority, due date, ...)
+  const renderDetailsEditor = (todo: Todo): React.ReactNode => {
+    if (detailsId !== todo.id || !detailsDraft) return null;
+
+    return (
+      <div className="border-t border-gray-200 bg-gray-50 px-3 py-3 space-y-3 text-sm">
+        <div className="grid grid-cols-1 sm:grid-cols-2 gap-3">
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">Priority</span>
+            <select
+              value={detailsDraft.priority}
+              onChange={(e) => setDetailsDraft({ ...detailsDraft, priority: e.target.value as TodoDetailsDraft["priority"] })}
+              className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="high">High</option>
+              <option value="medium">Medium</option>
+              <option value="low">Low</option>
+            </select>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">Due</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={detailsDraft.dueDate}
+                onChange={(e) => setDetailsDraft({ ...detailsDraft, dueDate: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              {detailsDraft.dueDate && (
+                <input
+                  type="time"
+                  value={detailsDraft.dueTime}
+                  onChange={(e) => setDetailsDraft({ ...detailsDraft, dueTime: e.target.value })}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  title="Leave empty for an all-day todo"
+                />
+              )}
+              {detailsDraft.dueDate && (
+                <button onClick={() => setDetailsDraft({ ...detailsDraft, dueDate: "", dueTime: "" })} className="px-1 text-gray-400 hover:text-gray-600" title="Clear due date">
+                  ✕
+                </button>
+              )}
+            </div>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">Starts</span>
+            <div className="flex items-center gap-1">
+              <input
+                type="date"
+                value={detailsDraft.startDate}
+                onChange={(e) => setDetailsDraft({ ...detailsDraft, startDate: e.target.value })}
+                className="flex-1 min-w-0 px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+              />
+              {detailsDraft.startDate && (
+                <input
+                  type="time"
+                  value={detailsDraft.startTime}
+                  onChange={(e) => setDetailsDraft({ ...detailsDraft, startTime: e.target.value })}
+                  className="w-28 px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+                  title="Leave empty for an all-day todo"
+                />
+              )}
+              {detailsDraft.startDate && (
+                <button onClick={() => setDetailsDraft({ ...detailsDraft, startDate: "", startTime: "" })} className="px-1 text-gray-400 hover:text-gray-600" title="Clear start date">
+                  ✕
+                </button>
+              )}
+            </div>
+          </label>
+          <label className="flex flex-col gap-1">
+            <span className="text-xs font-medium text-gray-600">Project</span>
+            <select
+              value={detailsDraft.projectId ?? ""}
+              onChange={(e) => setDetailsDraft({ ...detailsDraft, projectId: e.target.value ? Number(e.target.value) : null })}
+              className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+            >
+              <option value="">Inbox</option>
+              {projects.map((project) => (
+                <option key={project.id} value={project.id}>
+                  {project.name}
+                </option>
+              ))}
+            </select>
+          </label>
+        </div>
+
+        <div className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-gray-600">Tags</span>
+          <div className="flex flex-wrap items-center gap-1 px-2 py-1 border border-gray-300 rounded bg-white">
+            {detailsDraft.tags.map((tag) => (
+              <span key={tag} className="inline-flex items-center gap-1 px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full text-xs">
+                #{tag}
+                <button onClick={() => setDetailsDraft({ ...detailsDraft, tags: detailsDraft.tags.filter((t) => t !== tag) })} className="hover:text-blue-900" title="Remove tag">
+                  ×
+                </button>
+              </span>
+            ))}
+            <input
+              type="text"
+              value={detailsDraft.tagInput}
+              onChange={(e) => setDetailsDraft({ ...detailsDraft, tagInput: e.target.value })}
+              onKeyDown={handleTagKeyDown}
+              onBlur={addDraftTag}
+              placeholder={detailsDraft.tags.length === 0 ? "Add tags..." : ""}
+              className="flex-1 min-w-[6rem] px-1 py-0.5 text-gray-800 focus:outline-none"
+            />
+          </div>
+        </div>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-gray-600">Repeats (RRULE)</span>
+          <input
+            type="text"
+            value={detailsDraft.recurrence}
+            onChange={(e) => setDetailsDraft({ ...detailsDraft, recurrence: e.target.value })}
+            placeholder="e.g. FREQ=WEEKLY;BYDAY=TU"
+            className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 font-mono text-xs focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </label>
+
+        <label className="flex flex-col gap-1">
+          <span className="text-xs font-medium text-gray-600">Context</span>
+          <textarea
+            value={detailsDraft.context}
+            onChange={(e) => setDetailsDraft({ ...detailsDraft, context: e.target.value })}
+            rows={2}
+            className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-purple-500"
+          />
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button onClick={closeDetails} className="px-3 py-1 text-gray-600 hover:bg-gray-100 rounded transition-colors">
+            Cancel
+          </button>
+          <button
+            onClick={() => saveDetails(todo.id)}
+            disabled={isSavingDetails}
+            className="px-3 py-1 bg-purple-600 text-white rounded hover:bg-purple-700 disabled:opacity-50 transition-colors"
+          >
+            {isSavingDetails ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    );
+  };
+
   const clearCompleted = async () => {
-    const completedTodos = todos.filter((todo) => todo.completed);
+    // Skip completed parents that still have open subtasks - deleting them would take the subtasks along
+    const completedTodos = getProjectTodos().filter((todo) => todo.completed && getDescendantIds(todo.id).every((childId) => todos.find((t) => t.id === childId)?.completed));
+    const clearedIds = new Set(completedTodos.flatMap((todo) => [todo.id, ...getDescendantIds(todo.id)]));
+    // Subtasks are trashed (and restored) along with their parent
+    const clearedRootIds = completedTodos.filter((todo) => todo.parentId === null || !clearedIds.has(todo.parentId)).map((todo) => todo.id);
 
     try {
-      // Delete all completed todos
-      await Promise.all(completedTodos.map((todo) => fetch(`/api/todos/${todo.id}`, { method: "DELETE" })));
+      // Move all completed todos to the trash; only those the server actually trashed leave the list
+      const responses = await Promise.all(clearedRootIds.map((id) => fetch(`/api/todos/${id}`, { method: "DELETE" }).catch(() => null)));
+      const trashedRootIds = clearedRootIds.filter((_, i) => responses[i]?.ok);
+      const trashedIds = new Set(trashedRootIds.flatMap((id) => [id, ...getDescendantIds(id)]));
 
       // Update local state
-      setTodos(todos.filter((todo) => !todo.completed));
+      setTodos((prev) => prev.filter((todo) => !trashedIds.has(todo.id)));
+
+      const failed = clearedRootIds.length - trashedRootIds.length;
+      if (failed > 0) {
+        setError(`Failed to clear ${failed} completed todo${failed === 1 ? "" : "s"}`);
+        setTimeout(() => setError(null), 5000);
+      }
+      if (trashedRootIds.length > 0) {
+        showUndo(`Cleared ${trashedIds.size} completed todo${trashedIds.size === 1 ? "" : "s"}`, () => restoreFromTrash(trashedRootIds));
+      }
     } catch (err) {
       setError("Failed to clear completed todos");
       console.error("Error clearing completed todos:", err);
@@ -1130,8 +2379,84 @@ export default function TodoApp() {
     }
   };
 
-  const completedCount = todos.filter((todo) => todo.completed).length;
-  const totalCount = todos.length;
+  // Collapsible rolled-up progress chip shown on parent todos
+  const renderSubtaskProgress = (todo: Todo): React.ReactNode => {
+    const { done, total } = getSubtaskProgress(todo.id);
+    if (total === 0) return null;
+
+    const collapsed = collapsedParents.has(todo.id);
+    return (
+      <button
+        onClick={() => toggleCollapsed(todo.id)}
+        className="inline-flex items-center gap-1.5 px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full hover:bg-purple-200 transition-colors"
+        title={collapsed ? "Show subtasks" : "Hide subtasks"}
+      >
+        <span>{collapsed ? "▸" : "▾"}</span>
+        <span className="w-10 h-1.5 bg-purple-200 rounded-full overflow-hidden">
+          <span className="block h-full bg-purple-500 transition-all" style={{ width: `${(done / total) * 100}%` }}></span>
+        </span>
+        {done}/{total}
+      </button>
+    );
+  };
+
+  // Indented subtask list under a parent (recurses for deeper levels)
+  const renderSubtasks = (parent: Todo, list: Todo[]): React.ReactNode => {
+    const children = list.filter((t) => t.parentId === parent.id);
+    if (children.length === 0 || collapsedParents.has(parent.id)) return null;
+
+    return (
+      <div className="ml-10 mr-3 mb-3 space-y-1 border-l-2 border-purple-100 pl-3">
+        {children.map((child) => {
+          const shouldHighlight = activeQuery && filteredTodoIds.has(child.id);
+
+          return (
+            <div key={child.id}>
+              <div className={`flex items-center py-1 px-1 rounded transition-all ${newTodoIds.has(child.id) ? "todo-appear" : ""} ${shouldHighlight ? "ring-2 ring-blue-400" : ""}`}>
+                <input
+                  type="checkbox"
+                  checked={child.completed}
+                  onChange={() => toggleTodo(child.id)}
+                  className="mr-3 h-4 w-4 text-blue-600 focus:ring-blue-500 border-gray-300 rounded"
+                />
+                {editingId === child.id ? (
+                  <input
+                    type="text"
+                    value={editText}
+                    onChange={(e) => setEditText(e.target.value)}
+                    onKeyPress={(e) => handleEditKeyPress(e, child.id)}
+                    onBlur={() => saveEdit(child.id)}
+                    autoFocus
+                    className="flex-1 px-2 py-0.5 border-2 border-blue-500 rounded focus:outline-none text-black bg-white text-sm"
+                  />
+                ) : (
+                  <span
+                    className={`flex-1 text-sm cursor-pointer ${child.completed ? "line-through text-gray-500" : "text-gray-700"}`}
+                    onClick={() => startEdit(child.id, child.text)}
+                    title="Click to edit"
+                  >
+                    {highlightSearchTerm(child.text)}
+                  </span>
+                )}
+                <div className="flex items-center gap-1 ml-2 text-xs">
+                  {renderSubtaskProgress(child)}
+                  {child.priority === "high" && <span className="px-1.5 py-0.5 bg-red-100 text-red-700 rounded-full">High</span>}
+                  {child.dueDate && <span className="px-1.5 py-0.5 bg-amber-100 text-amber-700 rounded-full">📅 {formatScheduleValue(child.dueAt ?? child.dueDate, child)}</span>}
+                  <button onClick={() => deleteTodo(child.id)} className="px-1.5 py-0.5 text-red-600 hover:bg-red-50 rounded transition-colors" title="Delete subtask">
+                    ✕
+                  </button>
+                </div>
+              </div>
+              {renderSubtasks(child, list)}
+            </div>
+          );
+        })}
+      </div>
+    );
+  };
+
+  const completedCount = getProjectTodos().filter((todo) => todo.completed).length; // Loaded ones, which Clear completed removes
+  const viewCounts = getViewCounts(activeProject); // Everything in the view, loaded or not
 
   return (
     <div className="min-h-screen flex flex-col bg-gradient-to-br from-gray-50 to-gray-100">
@@ -1146,6 +2471,71 @@ export default function TodoApp() {
                 <h1 className="text-2xl font-bold bg-gradient-to-r from-purple-600 to-indigo-600 bg-clip-text text-transparent">todoish</h1>
                 <p className="text-xs text-gray-500">{officialTagline}</p>
               </div>
+
+              {/* Project Switcher */}
+              <div className="relative ml-4">
+                <button
+                  onClick={() => setShowProjectMenu(!showProjectMenu)}
+                  className="flex items-center gap-2 px-3 py-1.5 text-sm font-medium text-gray-700 bg-gray-50 border border-gray-200 rounded-lg hover:border-purple-300 hover:bg-purple-50 transition-colors"
+                >
+                  {typeof activeProject === "number" && <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: getProject(activeProject)?.color }}></span>}
+                  <span>{activeProject === "all" ? "All todos" : activeProject === "inbox" ? "📥 Inbox" : getProject(activeProject)?.name ?? "Project"}</span>
+                  <span className="text-xs text-gray-400">▾</span>
+                </button>
+
+                {showProjectMenu && (
+                  <div className="absolute left-0 mt-2 w-64 bg-white border border-gray-200 rounded-lg shadow-xl py-2 z-50">
+                    {(["all", "inbox"] as const).map((view) => (
+                      <button
+                        key={view}
+                        onClick={() => {
+                          setActiveProject(view);
+                          setShowProjectMenu(false);
+                        }}
+                        className={`w-full text-left px-4 py-2 text-sm hover:bg-purple-50 ${activeProject === view ? "text-purple-700 font-semibold" : "text-gray-700"}`}
+                      >
+                        {view === "all" ? "All todos" : "📥 Inbox"}
+                        <span className="ml-2 text-xs text-gray-400">({getViewCounts(view).total})</span>
+                      </button>
+                    ))}
+
+                    {projects.length > 0 && <div className="my-1 h-px bg-gray-100"></div>}
+                    {projects.map((project) => (
+                      <div key={project.id} className="flex items-center group hover:bg-purple-50">
+                        <button
+                          onClick={() => {
+                            setActiveProject(project.id);
+                            setShowProjectMenu(false);
+                          }}
+                          className={`flex-1 flex items-center gap-2 text-left px-4 py-2 text-sm ${activeProject === project.id ? "text-purple-700 font-semibold" : "text-gray-700"}`}
+                        >
+                          <span className="w-2.5 h-2.5 rounded-full" style={{ backgroundColor: project.color }}></span>
+                          {project.name}
+                          <span className="text-xs text-gray-400">({getViewCounts(project.id).total})</span>
+                        </button>
+                        <button onClick={() => archiveProject(project.id)} className="px-3 text-xs text-gray-400 hover:text-red-600 opacity-0 group-hover:opacity-100 transition-opacity" title="Archive project">
+                          🗄
+                        </button>
+                      </div>
+                    ))}
+
+                    <div className="my-1 h-px bg-gray-100"></div>
+                    <div className="flex items-center gap-2 px-3 py-1">
+                      <input
+                        type="text"
+                        value={newProjectName}
+                        onChange={(e) => setNewProjectName(e.target.value)}
+                        onKeyDown={(e) => e.key === "Enter" && createProject()}
+                        placeholder="New project..."
+                        className="flex-1 px-2 py-1 text-sm border border-gray-300 rounded text-black bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                      />
+                      <button onClick={createProject} disabled={!newProjectName.trim()} className="px-2 py-1 text-sm text-purple-600 hover:bg-purple-100 rounded disabled:opacity-30">
+                        +
+                      </button>
+                    </div>
+                  </div>
+                )}
+              </div>
             </div>
 
             {/* Navigation & User Profile */}
@@ -1219,7 +2609,7 @@ export default function TodoApp() {
                     value={inputText}
                     onChange={(e) => setInputText(e.target.value)}
                     onKeyDown={handleKeyPress}
-                    placeholder={isExtracting ? "✨ AI is working its magic..." : "What's on your mind? Add a single todo or ramble about everything you need to do..."}
+                    placeholder="What's on your mind? Add a single todo or ramble about everything you need to do..."
                     disabled={loading}
                     rows={3}
                     className={`w-full px-4 py-3 pr-12 border-2 border-gray-200 rounded-xl focus:outline-none focus:ring-2 focus:ring-purple-500 focus:border-transparent disabled:opacity-50 text-black bg-white text-base resize-none transition-all duration-300 hover:border-gray-300`}
@@ -1276,6 +2666,12 @@ export default function TodoApp() {
                     </span>
                   </p>
                 )}
+
+                {/* Review-before-save toggle */}
+                <label className="flex items-center justify-center gap-2 text-xs text-gray-500 cursor-pointer">
+                  <input type="checkbox" checked={reviewBeforeSave} onChange={toggleReviewBeforeSave} className="h-3.5 w-3.5 text-purple-600 focus:ring-purple-500 border-gray-300 rounded" />
+                  Review AI suggestions before saving
+                </label>
               </div>
 
               {/* Smart Summary Panel */}
@@ -1337,6 +2733,44 @@ export default function TodoApp() {
                 </div>
               )}
             </div>
+
+            {/* Saved Views */}
+            <div className="mt-6 bg-white border border-gray-200 rounded-2xl shadow-sm p-4 space-y-3">
+              <div className="text-xs font-semibold text-gray-600 uppercase">Saved views</div>
+              {savedViews.length > 0 && (
+                <ul className="space-y-1">
+                  {savedViews.map((view) => (
+                    <li key={view.id} className={`group flex items-center gap-2 rounded-lg px-2 py-1.5 ${viewParams === view.query ? "bg-purple-50" : "hover:bg-gray-50"}`}>
+                      <button onClick={() => applyViewParams(new URLSearchParams(view.query))} className="flex-1 text-left text-sm text-gray-800 truncate" title="Show this view">
+                        {view.name}
+                      </button>
+                      <span className="text-xs px-2 py-0.5 bg-gray-100 text-gray-600 rounded-full">{view.count}</span>
+                      <button onClick={() => copyViewLink(view.query)} className="opacity-0 group-hover:opacity-100 text-xs text-gray-500 hover:text-purple-600" title="Copy link">
+                        🔗
+                      </button>
+                      <button onClick={() => deleteView(view.id)} className="opacity-0 group-hover:opacity-100 text-xs text-gray-400 hover:text-red-600" title="Delete view">
+                        ✕
+                      </button>
+                    </li>
+                  ))}
+                </ul>
+              )}
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={newViewName}
+                  onChange={(e) => setNewViewName(e.target.value)}
+                  onKeyDown={(e) => {
+                    if (e.key === "Enter") saveView(newViewName, viewParams);
+                  }}
+                  placeholder={hasActiveFilters() ? "Name the current filters..." : "Pick some filters, then name them"}
+                  className="flex-1 px-3 py-1.5 text-sm border border-gray-300 rounded-lg text-black bg-white focus:outline-none focus:ring-2 focus:ring-purple-500"
+                />
+                <button onClick={() => saveView(newViewName, viewParams)} disabled={!newViewName.trim() || !viewParams} className="px-3 py-1.5 text-sm bg-purple-600 text-white rounded-lg hover:bg-purple-700 disabled:opacity-50">
+                  Save current
+                </button>
+              </div>
+            </div>
           </div>
 
           {/* RIGHT COLUMN - Todo List Section */}
@@ -1347,7 +2781,10 @@ export default function TodoApp() {
                 <div className="flex items-start gap-3">
                   <div className="text-2xl">🤖</div>
                   <div className="flex-1">
-                    <div className="text-sm font-semibold text-blue-900 mb-1">AI Response ({activeQuery.intent.replace(/_/g, " ")})</div>
+                    {queryHistory[0]?.result === activeQuery && <div className="text-xs text-blue-700 mb-1">&ldquo;{queryHistory[0].question}&rdquo;</div>}
+                    <div className="text-sm font-semibold text-blue-900 mb-1">
+                      AI Response ({activeQuery.intent.replace(/_/g, " ")}){activeQuery.followUp && <span className="ml-2 text-xs font-normal px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full">Follow-up: narrowed the previous answer</span>}
+                    </div>
                     <div className="text-gray-800 leading-relaxed">{activeQuery.response}</div>
                     {activeQuery.keywords.length > 0 && (
                       <div className="mt-2 flex gap-1 flex-wrap">
@@ -1358,24 +2795,92 @@ export default function TodoApp() {
                         ))}
                       </div>
                     )}
-                    <button
-                      onClick={() => {
-                        if (queryClearTimer) {
-                          clearTimeout(queryClearTimer);
-                          setQueryClearTimer(null);
-                        }
-                        setActiveQuery(null);
-                        setFilteredTodoIds(new Set());
-                      }}
-                      className="mt-3 text-xs text-blue-600 hover:text-blue-800 font-medium"
-                    >
-                      Clear filter
-                    </button>
+                    <div className="mt-3 flex items-center gap-3 text-xs">
+                      <button onClick={dismissQuery} className="text-blue-600 hover:text-blue-800 font-medium">
+                        Dismiss
+                      </button>
+                      {isFilterAnswer(activeQuery) && (
+                        <button
+                          onClick={() => saveView(queryHistory.find((entry) => entry.result === activeQuery)?.question ?? activeQuery.response, new URLSearchParams({ filter: JSON.stringify(activeQuery.filter) }).toString())}
+                          className="text-blue-600 hover:text-blue-800 font-medium"
+                        >
+                          Save as view
+                        </button>
+                      )}
+                      {activeQuery.sessionId !== undefined && <span className="text-gray-500">Ask a follow-up like &ldquo;which of those are overdue?&rdquo;</span>}
+                    </div>
                   </div>
                 </div>
               </div>
             )}
 
+            {/* Past questions */}
+            {queryHistory.length > 0 && (
+              <div className="bg-white border border-gray-200 rounded-lg shadow-sm">
+                <button onClick={() => setShowQueryHistory(!showQueryHistory)} className="w-full px-4 py-2 text-left text-sm text-gray-600 hover:bg-gray-50 rounded-lg">
+                  {showQueryHistory ? "▾" : "▸"} Question history ({queryHistory.length})
+                </button>
+                {showQueryHistory && (
+                  <ul className="max-h-64 overflow-y-auto divide-y divide-gray-100 border-t border-gray-100">
+                    {queryHistory.map((entry) => (
+                      <li key={entry.askedAt}>
+                        <button
+                          onClick={() => showQueryAnswer(entry.result)}
+                          className={`w-full px-4 py-2 text-left hover:bg-blue-50 ${activeQuery === entry.result ? "bg-blue-50" : ""}`}
+                          title="Show this answer again"
+                        >
+                          <div className="flex items-baseline justify-between gap-2">
+                            <span className="text-sm text-gray-800">{entry.question}</span>
+                            <span className="text-xs text-gray-400 whitespace-nowrap">{formatTimeInZone(entry.askedAt, timeZone)}</span>
+                          </div>
+                          <div className="text-xs text-gray-500 truncate">{entry.result.response || "(no answer)"}</div>
+                        </button>
+                      </li>
+                    ))}
+                  </ul>
+                )}
+              </div>
+            )}
+
+            {/* Confirmation diff for an action command */}
+            {pendingChanges?.changes && (
+              <div className="bg-white border-2 border-amber-300 rounded-lg p-4 shadow-lg space-y-3">
+                <div className="text-sm font-semibold text-amber-900">
+                  Confirm {pendingChanges.intent}: {pendingChanges.changes.length} todo{pendingChanges.changes.length === 1 ? "" : "s"}
+                </div>
+                <ul className="space-y-2 max-h-64 overflow-y-auto">
+                  {pendingChanges.changes.map((change) => {
+                    const todo = todos.find((t) => t.id === change.id);
+                    if (!todo) return null;
+                    return (
+                      <li key={change.id} className="text-sm">
+                        <div className="text-gray-800">{todo.text}</div>
+                        {describeChange(change, todo).map((row) => (
+                          <div key={row.field} className="ml-3 text-xs text-gray-600">
+                            {row.before ? (
+                              <>
+                                {row.field}: <span className="line-through text-red-600">{row.before}</span> → <span className="text-green-700">{row.after}</span>
+                              </>
+                            ) : (
+                              <span className="text-red-600">{row.after}</span>
+                            )}
+                          </div>
+                        ))}
+                      </li>
+                    );
+                  })}
+                </ul>
+                <div className="flex gap-2">
+                  <button onClick={applyPendingChanges} disabled={isApplyingChanges} className="px-3 py-1.5 text-sm bg-amber-600 text-white rounded hover:bg-amber-700 disabled:opacity-50">
+                    {isApplyingChanges ? "Applying..." : "Apply changes"}
+                  </button>
+                  <button onClick={() => setPendingChanges(null)} disabled={isApplyingChanges} className="px-3 py-1.5 text-sm text-gray-600 hover:bg-gray-100 rounded">
+                    Cancel
+                  </button>
+                </div>
+              </div>
+            )}
+
             {/* Search and Filter Bar */}
             <div className="bg-white border border-gray-300 rounded-lg p-4 space-y-3 shadow-sm">
               {/* Search Input */}
@@ -1504,14 +3009,126 @@ export default function TodoApp() {
 
               {/* Active Filters Display */}
               {hasActiveFilters() && (
-                <div className="pt-2 border-t border-gray-200">
+                <div className="pt-2 border-t border-gray-200 flex items-center gap-2">
                   <div className="text-xs text-gray-600">
-                    Showing {getFilteredTodos().length} of {todos.length} todos
+                    Showing {getFilteredTodos().length}{nextCursor ? "+" : ""} of {viewCounts.total} todos
                   </div>
+                  {queryFilter && !activeQuery && (
+                    <button onClick={() => setQueryFilter(null)} className="px-2 py-0.5 text-xs bg-blue-100 text-blue-700 rounded-full hover:bg-blue-200" title="Remove the saved AI filter">
+                      AI filter ✕
+                    </button>
+                  )}
                 </div>
               )}
             </div>
 
+            {/* Review Tray */}
+            {reviewCandidates.length > 0 && (
+              <div className="space-y-2">
+                <div className="flex items-center gap-2">
+                  <h3 className="text-sm font-semibold uppercase tracking-wide text-indigo-600">
+                    Review
+                    <span className="ml-2 text-xs font-normal text-gray-500">({reviewCandidates.length})</span>
+                  </h3>
+                  <div className="flex-1 h-px bg-gray-200"></div>
+                  <button
+                    onClick={() => acceptCandidates(reviewCandidates.filter((c) => c.selected).map((c) => c.key))}
+                    disabled={isSavingReview || !reviewCandidates.some((c) => c.selected)}
+                    className="px-3 py-1 text-xs bg-indigo-600 text-white rounded hover:bg-indigo-700 disabled:opacity-50 transition-colors"
+                  >
+                    {isSavingReview ? "Saving..." : `Save selected (${reviewCandidates.filter((c) => c.selected).length})`}
+                  </button>
+                  <button onClick={() => rejectCandidates(reviewCandidates.map((c) => c.key))} disabled={isSavingReview} className="px-3 py-1 text-xs text-gray-600 hover:bg-gray-100 rounded transition-colors">
+                    Discard all
+                  </button>
+                </div>
+                {reviewCandidates.map((candidate) => (
+                  <div key={candidate.key} className={`border rounded-lg p-3 ${candidate.selected ? "bg-indigo-50 border-indigo-200" : "bg-white border-gray-200 opacity-70"}`}>
+                    <div className="flex items-start gap-3">
+                      <input
+                        type="checkbox"
+                        checked={candidate.selected}
+                        onChange={() => updateCandidate(candidate.key, { selected: !candidate.selected })}
+                        className="mt-2 h-4 w-4 text-indigo-600 focus:ring-indigo-500 border-gray-300 rounded"
+                      />
+                      <div className="flex-1 space-y-2">
+                        <input
+                          type="text"
+                          value={candidate.text}
+                          onChange={(e) => updateCandidate(candidate.key, { text: e.target.value })}
+                          className="w-full px-2 py-1 border border-gray-300 rounded bg-white text-gray-800 focus:outline-none focus:ring-2 focus:ring-indigo-500"
+                        />
+                        <div className="flex flex-wrap items-center gap-2 text-xs">
+                          <select
+                            value={candidate.priority}
+                            onChange={(e) => updateCandidate(candidate.key, { priority: e.target.value as ReviewCandidate["priority"] })}
+                            className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800"
+                          >
+                            <option value="high">High</option>
+                            <option value="medium">Medium</option>
+                            <option value="low">Low</option>
+                          </select>
+                          <input
+                            type="date"
+                            value={candidate.dueDate}
+                            onChange={(e) => updateCandidate(candidate.key, { dueDate: e.target.value, dueTime: e.target.value ? candidate.dueTime : "" })}
+                            className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800"
+                          />
+                          {candidate.dueDate && (
+                            <input
+                              type="time"
+                              value={candidate.dueTime}
+                              onChange={(e) => updateCandidate(candidate.key, { dueTime: e.target.value })}
+                              className="px-2 py-1 border border-gray-300 rounded bg-white text-gray-800"
+                              title="Leave empty for an all-day todo"
+                            />
+                          )}
+                          {candidate.startDate && (
+                            <span className="px-2 py-0.5 bg-sky-100 text-sky-700 rounded-full">
+                              ⏳ Starts {formatDateKey(candidate.startDate)}
+                              {candidate.startTime && `, ${candidate.startTime}`}
+                            </span>
+                          )}
+                          <input
+                            type="text"
+                            value={candidate.tags.join(", ")}
+                            onChange={(e) =>
+                              updateCandidate(candidate.key, {
+                                tags: e.target.value
+                                  .split(",")
+                                  .map((tag) => tag.trim().replace(/^#/, ""))
+                                  .filter((tag) => tag !== ""),
+                              })
+                            }
+                            placeholder="tags, comma separated"
+                            className="flex-1 min-w-[8rem] px-2 py-1 border border-gray-300 rounded bg-white text-gray-800"
+                          />
+                          {candidate.recurrence && (
+                            <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full" title={candidate.recurrence}>
+                              🔁 {describeRecurrence(candidate.recurrence)}
+                            </span>
+                          )}
+                          {candidate.subtasks.length > 0 && (
+                            <span className="px-2 py-0.5 bg-purple-100 text-purple-700 rounded-full">
+                              +{candidate.subtasks.length} subtask{candidate.subtasks.length === 1 ? "" : "s"}
+                            </span>
+                          )}
+                        </div>
+                      </div>
+                      <div className="flex gap-1">
+                        <button onClick={() => acceptCandidates([candidate.key])} disabled={isSavingReview} className="px-2 py-1 text-green-600 hover:bg-green-50 rounded transition-colors" title="Accept">
+                          ✓
+                        </button>
+                        <button onClick={() => rejectCandidates([candidate.key])} disabled={isSavingReview} className="px-2 py-1 text-red-600 hover:bg-red-50 rounded transition-colors" title="Reject">
+                          ✕
+                        </button>
+                      </div>
+                    </div>
+                  </div>
+                ))}
+              </div>
+            )}
+
             {/* Drafts Section */}
             {drafts.length > 0 && (
               <div className="space-y-2">
@@ -1539,11 +3156,37 @@ export default function TodoApp() {
                         <div className="flex-1">
                           <div className="text-gray-800">{d.text}</div>
                           <div className="mt-1 text-xs">
-                            {d.status === "processing" && <span className="text-purple-600">Processing with AI…</span>}
-                            {d.status === "queued" && <span className="text-gray-500">Queued</span>}
+                            {d.status === "processing" && !d.error && <span className="text-purple-600">Processing with AI…</span>}
+                            {d.status === "processing" && d.error && <span className="text-amber-600">{d.error} - retrying on the server…</span>}
+                            {d.status === "queued" && !d.nextAttemptAt && <span className="text-gray-500">Queued</span>}
+                            {d.status === "queued" && d.nextAttemptAt && (
+                              <span className="text-amber-600">
+                                {d.error || "Failed"} - retrying (attempt {d.attempts + 1} of {MAX_AUTO_RETRIES})
+                              </span>
+                            )}
                             {d.status === "error" && <span className="text-red-600">{d.error || "Failed"}</span>}
                           </div>
+                          {d.status === "processing" && d.preview && d.preview.length > 0 && (
+                            <ul className="mt-2 space-y-1">
+                              {d.preview.map((text, i) => (
+                                <li key={i} className="todo-appear text-sm text-purple-700 flex items-center gap-1">
+                                  <span>✨</span>
+                                  {text}
+                                </li>
+                              ))}
+                            </ul>
+                          )}
                         </div>
+                        {d.status === "error" && (
+                          <div className="flex gap-1">
+                            <button onClick={() => retryDraft(d.id)} className="px-2 py-1 text-xs text-purple-600 hover:bg-purple-50 rounded transition-colors" title="Retry">
+                              Retry
+                            </button>
+                            <button onClick={() => discardDraft(d.id)} className="px-2 py-1 text-xs text-gray-500 hover:bg-gray-100 rounded transition-colors" title="Discard">
+                              ✕
+                            </button>
+                          </div>
+                        )}
                       </div>
                     </div>
                   ))}
@@ -1554,26 +3197,33 @@ export default function TodoApp() {
             {loading && todos.length === 0 && <div className="text-center py-8 text-gray-500">Loading todos...</div>}
 
             {/* Stats */}
-            {totalCount > 0 && (
+            {viewCounts.total > 0 && (
               <div className="text-sm text-gray-600">
-                {completedCount} of {totalCount} completed
+                {viewCounts.completed} of {viewCounts.total} completed
               </div>
             )}
 
             {/* Todo List */}
             <div className="space-y-6">
-              {todos.length === 0 ? (
-                <p className="text-gray-500 text-center py-8">No todos yet. Add one above!</p>
+              {getProjectTodos().length === 0 && !hasActiveFilters() ? (
+                <p className="text-gray-500 text-center py-8">{getViewCounts("all").total === 0 ? "No todos yet. Add one above!" : "Nothing in this project yet."}</p>
               ) : hasActiveFilters() && getFilteredTodos().length === 0 ? (
                 <p className="text-gray-500 text-center py-8">No todos match your filters. Try adjusting them.</p>
               ) : (
                 (() => {
-                  const todosToDisplay = hasActiveFilters() ? getFilteredTodos() : todos;
-                  const groupedTodos = groupTodosByDate(todosToDisplay);
+                  const snoozedIds = getSnoozedIds();
+                  const todosToDisplay = (hasActiveFilters() ? getFilteredTodos() : getProjectTodos()).filter((todo) => !snoozedIds.has(todo.id));
+                  // Subtasks render under their parent, so only group the top level
+                  const groupedTodos = groupTodosByDate(getRootTodos(todosToDisplay));
                   const groupOrder = ["Overdue", "Today", "Tomorrow", "This Week", "Later", "No Due Date"];
 
                   // Get completed todos from ALL todos (not filtered) unless status filter is specifically "active"
-                  const completedTodos = statusFilter === "active" ? [] : todos.filter((todo) => todo.completed);
+                  const completedTodos = statusFilter === "active" ? [] : getRootTodos(getProjectTodos()).filter((todo) => todo.completed);
+
+                  // Snoozed todos wait in their own section, soonest to wake first
+                  const snoozedTodos = getRootTodos(getProjectTodos().filter((todo) => snoozedIds.has(todo.id)))
+                    .filter((todo) => !todo.completed)
+                    .sort((a, b) => new Date(a.snoozedUntil ?? 0).getTime() - new Date(b.snoozedUntil ?? 0).getTime());
 
                   return (
                     <>
@@ -1641,16 +3291,33 @@ export default function TodoApp() {
                                           {todo.priority === "high" && <span className="text-xs px-1.5 py-0.5 bg-red-100 text-red-700 rounded-full">High</span>}
                                           {todo.priority === "low" && <span className="text-xs px-1.5 py-0.5 bg-gray-100 text-gray-700 rounded-full">Low</span>}
                                         </div>
-                                        {(todo.tags.length > 0 || todo.dueDate || todo.context) && (
+                                        {(todo.tags.length > 0 || todo.dueDate || todo.startAt || todo.context || todo.recurrence || todo.projectId !== null || getSubtaskProgress(todo.id).total > 0) && (
                                           <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                                            {renderSubtaskProgress(todo)}
+                                            {activeProject === "all" && getProject(todo.projectId) && (
+                                              <span className="inline-flex items-center gap-1 px-2 py-0.5 bg-gray-100 text-gray-700 rounded-full" title="Project">
+                                                <span className="w-2 h-2 rounded-full" style={{ backgroundColor: getProject(todo.projectId)!.color }}></span>
+                                                {getProject(todo.projectId)!.name}
+                                              </span>
+                                            )}
                                             {todo.tags.map((tag) => (
                                               <span key={tag} className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full">
                                                 #{tag}
                                               </span>
                                             ))}
+                                            {todo.startAt && isDeferred(todo) && (
+                                              <span className="px-2 py-0.5 bg-sky-100 text-sky-700 rounded-full" title="Hidden from Today until it starts">
+                                                ⏳ Starts {formatScheduleValue(todo.startAt, todo)}
+                                              </span>
+                                            )}
                                             {todo.dueDate && (
-                                              <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full" title="Due date">
-                                                📅 {new Date(todo.dueDate).toLocaleDateString()}
+                                              <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full" title={todo.allDay ? "Due date" : "Due"}>
+                                                📅 {formatScheduleValue(todo.dueAt ?? todo.dueDate, todo)}
+                                              </span>
+                                            )}
+                                            {todo.recurrence && (
+                                              <span className="px-2 py-0.5 bg-green-100 text-green-700 rounded-full" title={todo.recurrence}>
+                                                🔁 {describeRecurrence(todo.recurrence)}
                                               </span>
                                             )}
                                           </div>
@@ -1663,7 +3330,7 @@ export default function TodoApp() {
                                       </div>
                                     )}
 
-                                    <div className="flex gap-1 ml-3">
+                                    <div className="relative flex gap-1 ml-3">
                                       {editingId === todo.id ? (
                                         <>
                                           <button onClick={() => saveEdit(todo.id)} className="px-2 py-1 text-green-600 hover:bg-green-50 rounded transition-colors" title="Save">
@@ -1678,13 +3345,49 @@ export default function TodoApp() {
                                           <button onClick={() => startEdit(todo.id, todo.text)} className="px-2 py-1 text-blue-600 hover:bg-blue-50 rounded transition-colors" title="Edit todo">
                                             ✏️
                                           </button>
+                                          <button
+                                            onClick={() => (detailsId === todo.id ? closeDetails() : openDetails(todo))}
+                                            className={`px-2 py-1 rounded transition-colors ${detailsId === todo.id ? "text-purple-700 bg-purple-50" : "text-purple-600 hover:bg-purple-50"}`}
+                                            title="Edit details"
+                                          >
+                                            ⚙️
+                                          </button>
+                                          <button
+                                            onClick={() => setSnoozeMenuId(snoozeMenuId === todo.id ? null : todo.id)}
+                                            className={`px-2 py-1 rounded transition-colors ${snoozeMenuId === todo.id ? "text-indigo-700 bg-indigo-50" : "text-indigo-600 hover:bg-indigo-50"}`}
+                                            title="Snooze"
+                                          >
+                                            💤
+                                          </button>
                                           <button onClick={() => deleteTodo(todo.id)} className="px-2 py-1 text-red-600 hover:bg-red-50 rounded transition-colors" title="Delete todo">
                                             ✕
                                           </button>
                                         </>
                                       )}
+                                      {snoozeMenuId === todo.id && (
+                                        <div className="absolute right-0 top-full mt-1 z-10 w-56 bg-white border border-gray-200 rounded-lg shadow-lg p-2 space-y-1">
+                                          {SNOOZE_PRESETS.map((preset) => (
+                                            <button key={preset.id} onClick={() => snoozeWithPreset(todo.id, preset.id)} className="block w-full text-left px-2 py-1 text-sm text-gray-700 hover:bg-indigo-50 rounded">
+                                              {preset.label}
+                                            </button>
+                                          ))}
+                                          <div className="flex gap-1 pt-1 border-t border-gray-100">
+                                            <input
+                                              type="datetime-local"
+                                              value={customSnooze}
+                                              onChange={(e) => setCustomSnooze(e.target.value)}
+                                              className="flex-1 min-w-0 px-1 py-0.5 text-xs border border-gray-300 rounded text-black"
+                                            />
+                                            <button onClick={() => snoozeUntilCustom(todo.id)} disabled={!customSnooze} className="px-2 py-0.5 text-xs bg-indigo-600 text-white rounded disabled:opacity-50">
+                                              Snooze
+                                            </button>
+                                          </div>
+                                        </div>
+                                      )}
                                     </div>
                                   </div>
+                                  {renderDetailsEditor(todo)}
+                                  {renderSubtasks(todo, todosToDisplay)}
                                 </div>
                               );
                             })}
@@ -1692,6 +3395,34 @@ export default function TodoApp() {
                         );
                       })}
 
+                      {/* Snoozed todos section */}
+                      {snoozedTodos.length > 0 && (
+                        <div className="space-y-2 mt-6">
+                          <div className="flex items-center gap-2">
+                            <h3 className="text-sm font-semibold uppercase tracking-wide text-indigo-600">
+                              Snoozed
+                              <span className="ml-2 text-xs font-normal text-gray-500">({snoozedTodos.length})</span>
+                            </h3>
+                            <div className="flex-1 h-px bg-gray-200"></div>
+                          </div>
+
+                          {snoozedTodos.map((todo) => (
+                            <div key={todo.id} className="flex items-center p-3 border rounded-lg bg-gray-50 border-gray-200">
+                              <div className="flex-1">
+                                <span className="text-gray-600">{highlightSearchTerm(todo.text)}</span>
+                                <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                                  <span className="px-2 py-0.5 bg-indigo-100 text-indigo-700 rounded-full">💤 Until {formatSnoozeUntil(todo.snoozedUntil ?? "")}</span>
+                                  {renderSubtaskProgress(todo)}
+                                </div>
+                              </div>
+                              <button onClick={() => snoozeTodos([todo.id], null)} className="ml-3 px-2 py-1 text-sm text-indigo-600 hover:bg-indigo-50 rounded transition-colors" title="Bring it back now">
+                                Wake up
+                              </button>
+                            </div>
+                          ))}
+                        </div>
+                      )}
+
                       {/* Completed todos section */}
                       {completedTodos.length > 0 && (
                         <div className="space-y-2 mt-6">
@@ -1736,8 +3467,9 @@ export default function TodoApp() {
                                       {todo.priority === "high" && <span className="text-xs px-1.5 py-0.5 bg-red-100 text-red-700 rounded-full">High</span>}
                                       {todo.priority === "low" && <span className="text-xs px-1.5 py-0.5 bg-gray-100 text-gray-700 rounded-full">Low</span>}
                                     </div>
-                                    {(todo.tags.length > 0 || todo.dueDate) && (
+                                    {(todo.tags.length > 0 || todo.dueDate || getSubtaskProgress(todo.id).total > 0) && (
                                       <div className="mt-1 flex flex-wrap items-center gap-2 text-xs">
+                                        {renderSubtaskProgress(todo)}
                                         {todo.tags.map((tag) => (
                                           <span key={tag} className="px-2 py-0.5 bg-blue-100 text-blue-700 rounded-full opacity-60">
                                             #{tag}
@@ -1745,7 +3477,7 @@ export default function TodoApp() {
                                         ))}
                                         {todo.dueDate && (
                                           <span className="px-2 py-0.5 bg-amber-100 text-amber-700 rounded-full opacity-60" title="Due date">
-                                            📅 {new Date(todo.dueDate).toLocaleDateString()}
+                                            📅 {formatScheduleValue(todo.dueAt ?? todo.dueDate, todo)}
                                           </span>
                                         )}
                                       </div>
@@ -1758,6 +3490,7 @@ export default function TodoApp() {
                                     </button>
                                   </div>
                                 </div>
+                                {renderSubtasks(todo, todos)}
                               </div>
                             );
                           })}
@@ -1769,18 +3502,105 @@ export default function TodoApp() {
               )}
             </div>
 
-            {/* Clear completed button */}
-            {completedCount > 0 && (
-              <div className="text-center">
+            {/* More todos match than are loaded */}
+            {nextCursor && (
+              <div className="flex justify-center">
+                <button onClick={loadMoreTodos} disabled={isLoadingMore} className="px-4 py-2 text-sm text-purple-700 hover:bg-purple-50 rounded transition-colors disabled:opacity-50">
+                  {isLoadingMore ? "Loading..." : "Load more todos"}
+                </button>
+              </div>
+            )}
+
+            {/* Clear completed and trash buttons */}
+            <div className="flex items-center justify-center gap-2">
+              {completedCount > 0 && (
                 <button onClick={clearCompleted} className="px-4 py-2 text-sm text-gray-600 hover:text-red-600 hover:bg-red-50 rounded transition-colors">
                   Clear completed ({completedCount})
                 </button>
+              )}
+              <button
+                onClick={() => {
+                  if (!showTrash) fetchTrash();
+                  setShowTrash(!showTrash);
+                }}
+                className="px-4 py-2 text-sm text-gray-600 hover:text-purple-600 hover:bg-purple-50 rounded transition-colors"
+              >
+                🗑️ {showTrash ? "Hide trash" : "Trash"}
+              </button>
+            </div>
+
+            {/* Trash */}
+            {showTrash && (
+              <div className="bg-white rounded-lg shadow-sm border border-gray-200 p-4">
+                <div className="flex items-center justify-between mb-3">
+                  <div>
+                    <h3 className="text-sm font-semibold text-gray-800">Trash</h3>
+                    {trashRetentionDays !== null && <p className="text-xs text-gray-500">Items are deleted permanently after {trashRetentionDays} days</p>}
+                  </div>
+                  {trashedTodos.length > 0 && (
+                    <button onClick={emptyTrash} className="px-3 py-1 text-xs text-red-600 hover:bg-red-50 rounded transition-colors">
+                      Empty trash
+                    </button>
+                  )}
+                </div>
+                {trashedTodos.length === 0 ? (
+                  <p className="text-sm text-gray-400 text-center py-4">Trash is empty</p>
+                ) : (
+                  <ul className="divide-y divide-gray-100">
+                    {trashedTodos
+                      .filter((todo) => todo.parentId === null || !trashedTodos.some((t) => t.id === todo.parentId))
+                      .map((todo) => {
+                        const subtaskCount = getDescendantIds(todo.id, trashedTodos).length;
+                        return (
+                          <li key={todo.id} className="flex items-center justify-between gap-3 py-2">
+                            <span className="text-sm text-gray-600 truncate">
+                              {todo.text}
+                              {subtaskCount > 0 && (
+                                <span className="ml-2 text-xs text-gray-400">
+                                  +{subtaskCount} subtask{subtaskCount === 1 ? "" : "s"}
+                                </span>
+                              )}
+                            </span>
+                            <div className="flex items-center gap-1 shrink-0">
+                              <button
+                                onClick={() =>
+                                  restoreFromTrash([todo.id]).catch((err) => {
+                                    setError("Failed to restore todo");
+                                    console.error("Error restoring todo:", err);
+                                  })
+                                }
+                                className="px-2 py-1 text-xs text-purple-600 hover:bg-purple-50 rounded transition-colors"
+                              >
+                                Restore
+                              </button>
+                              <button onClick={() => purgeFromTrash(todo.id)} className="px-2 py-1 text-xs text-gray-500 hover:text-red-600 hover:bg-red-50 rounded transition-colors">
+                                Delete forever
+                              </button>
+                            </div>
+                          </li>
+                        );
+                      })}
+                  </ul>
+                )}
               </div>
             )}
           </div>
         </div>
       </main>
 
+      {/* Undo toast */}
+      {undoAction && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-4 bg-gray-900 text-white text-sm rounded-lg shadow-lg px-4 py-3">
+          <span className="max-w-xs truncate">{undoAction.message}</span>
+          <button onClick={performUndo} className="font-semibold text-purple-300 hover:text-purple-200 transition-colors">
+            Undo
+          </button>
+          <button onClick={dismissUndo} className="text-gray-400 hover:text-gray-200 transition-colors" aria-label="Dismiss">
+            ✕
+          </button>
+        </div>
+      )}
+
       {/* Footer */}
       <footer className="bg-white border-t border-gray-200 mt-auto">
         <div className="max-w-7xl mx-auto px-6 py-6">
@@ -0,0 +1,71 @@
+"use client";
+
+export interface UsageHistoryBucket {
+  start: string; // YYYY-MM-DD
+  requests: number;
+  byTask: Record<string, number>;
+  byProvider: Record<string, number>;
+  byTier: Record<string, number>;
+}
+
+// Fixed colours for the series we know about; anything else cycles through the fallbacks
+const SERIES_COLORS: Record<string, string> = {
+  extract: "bg-blue-500",
+  query: "bg-green-500",
+  anthropic: "bg-orange-500",
+  openai: "bg-teal-500",
+  local: "bg-indigo-500",
+  mock: "bg-gray-400",
+  fast: "bg-purple-400",
+  advanced: "bg-purple-700",
+};
+const FALLBACK_COLORS = ["bg-pink-500", "bg-yellow-500", "bg-cyan-500", "bg-lime-500"];
+
+interface UsageHistoryChartProps {
+  title: string;
+  buckets: UsageHistoryBucket[];
+  series: "byTask" | "byProvider" | "byTier";
+}
+
+// A stacked bar per bucket, one segment per series value
+export default function UsageHistoryChart({ title, buckets, series }: UsageHistoryChartProps) {
+  const keys = [...new Set(buckets.flatMap((bucket) => Object.keys(bucket[series])))].sort();
+  const colorFor = (key: string) => SERIES_COLORS[key] ?? FALLBACK_COLORS[keys.indexOf(key) % FALLBACK_COLORS.length];
+  const max = Math.max(1, ...buckets.map((bucket) => bucket.requests));
+
+  return (
+    <div>
+      <div className="flex items-center justify-between mb-2">
+        <p className="text-xs font-medium text-gray-600">{title}</p>
+        <div className="flex flex-wrap gap-3">
+          {keys.map((key) => (
+            <span key={key} className="flex items-center gap-1 text-xs text-gray-600">
+              <span className={`inline-block w-2 h-2 rounded-sm ${colorFor(key)}`} />
+              {key}
+            </span>
+          ))}
+        </div>
+      </div>
+      <div className="flex items-end gap-px h-28 border-b border-gray-200">
+        {buckets.map((bucket) => (
+          <div
+            key={bucket.start}
+            title={`${bucket.start}: ${bucket.requests} requests${keys.map((key) => (bucket[series][key] ? `\n${key}: ${bucket[series][key]}` : "")).join("")}`}
+            className="flex-1 flex flex-col-reverse min-w-0"
+            style={{ height: `${(bucket.requests / max) * 100}%` }}
+          >
+            {keys.map((key) =>
+              bucket[series][key] ? <div key={key} className={colorFor(key)} style={{ height: `${(bucket[series][key] / bucket.requests) * 100}%` }} /> : null
+            )}
+          </div>
+        ))}
+      </div>
+      {buckets.length > 0 && (
+        <div className="flex justify-between text-[10px] text-gray-400 mt-1">
+          <span>{buckets[0].start}</span>
+          <span>{buckets[buckets.length - 1].start}</span>
+        </div>
+      )}
+    </div>
+  );
+}
@@ -0,0 +1,158 @@
+/**
+ * Per-user AI quotas: a requests-per-minute rate limit and daily token and cost budgets.
+ * Token and cost usage is read from the ai_requests ledger; the rate limit counts ai_request_slots, one
+ * per user request however many provider calls (repairs, escalations) it takes. Both are checked before
+ * a request's first provider call. Once a daily budget runs low, calls are downgraded to the fast tier;
+ * once it runs out, or the rate limit is hit, calls are refused with a retry-after.
+ */
+import { db, aiRequests, aiRequestSlots } from "@/lib/db";
+import { and, eq, gte, lt, sql } from "drizzle-orm";
+import { getUserPreferences } from "@/lib/preferences";
+import type { AIRoute } from "@/lib/aiLedger";
+import type { DbExecutor } from "@/lib/todos";
+
+export interface BudgetLimits {
+  requestsPerMinute: number;
+  dailyTokens: number;
+  dailyCostUsd: number;
+}
+
+export interface BudgetStatus {
+  limits: BudgetLimits;
+  requestsLastMinute: number;
+  tokensToday: number;
+  costTodayUsd: number;
+  remainingTokens: number;
+  remainingCostUsd: number;
+  downgraded: boolean; // Low on budget: only the fast tier is used
+  blocked: { reason: string; retryAfterSeconds: number } | null;
+  resetsAt: string; // ISO; next UTC midnight, when the daily budgets start over
+}
+
+// A request's reserved slot: whether it should stay on the fast tier. A pipeline that makes several
+// provider-backed steps for one request (a draft: detection, then extraction) passes it on instead of reserving again.
+export interface BudgetReservation {
+  downgrade: boolean;
+}
+
+// Thrown before a provider call when the user is over a quota; routes turn it into a 429
+export class AIBudgetExceededError extends Error {
+  constructor(
+    message: string,
+    public retryAfterSeconds: number
+  ) {
+    super(message);
+    this.name = "AIBudgetExceededError";
+  }
+}
+
+// Fraction of a daily budget left at which calls are kept on the fast tier
+const DOWNGRADE_THRESHOLD = 0.2;
+
+function envNumber(name: string, fallback: number): number {
+  const value = Number(process.env[name]);
+  return process.env[name] && Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Deployment-wide limits (AI_REQUESTS_PER_MINUTE, AI_DAILY_TOKEN_BUDGET, AI_DAILY_COST_BUDGET_USD).
+ * Users can lower their own limits in preferences but never raise them past these.
+ */
+export function getDeploymentLimits(): BudgetLimits {
+  return {
+    requestsPerMinute: envNumber("AI_REQUESTS_PER_MINUTE", 10),
+    dailyTokens: envNumber("AI_DAILY_TOKEN_BUDGET", 200000),
+    dailyCostUsd: envNumber("AI_DAILY_COST_BUDGET_USD", 1),
+  };
+}
+
+export async function getBudgetLimits(userId: string): Promise<BudgetLimits> {
+  const deployment = getDeploymentLimits();
+  const preferences = await getUserPreferences(userId);
+  return {
+    requestsPerMinute: Math.min(preferences.aiRequestsPerMinute ?? Infinity, deployment.requestsPerMinute),
+    dailyTokens: Math.min(preferences.aiDailyTokenBudget ?? Infinity, deployment.dailyTokens),
+    dailyCostUsd: Math.min(preferences.aiDailyCostBudgetUsd ?? Infinity, deployment.dailyCostUsd),
+  };
+}
+
+/**
+ * Where a user stands against their limits right now
+ */
+export async function getAIBudgetStatus(userId: string, now: Date = new Date(), executor: DbExecutor = db): Promise<BudgetStatus> {
+  const limits = await getBudgetLimits(userId);
+  const startOfDay = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const resetsAt = new Date(startOfDay.getTime() + 24 * 60 * 60 * 1000);
+  const minuteAgo = new Date(now.getTime() - 60 * 1000);
+
+  const [usage] = await executor
+    .select({
+      tokensToday: sql<number>`coalesce(sum(coalesce(${aiRequests.inputTokens}, 0) + coalesce(${aiRequests.outputTokens}, 0)), 0)::int`,
+      costTodayUsd: sql<number>`coalesce(sum(${aiRequests.estimatedCostUsd}), 0)::float8`,
+    })
+    .from(aiRequests)
+    .where(and(eq(aiRequests.userId, userId), gte(aiRequests.createdAt, startOfDay)));
+  const [slots] = await executor
+    .select({
+      requestsLastMinute: sql<number>`count(*)::int`,
+      oldestInMinute: sql<string | null>`min(${aiRequestSlots.createdAt})`,
+    })
+    .from(aiRequestSlots)
+    .where(and(eq(aiRequestSlots.userId, userId), gte(aiRequestSlots.createdAt, minuteAgo)));
+
+  const tokensToday = usage?.tokensToday ?? 0;
+  const costTodayUsd = usage?.costTodayUsd ?? 0;
+  const requestsLastMinute = slots?.requestsLastMinute ?? 0;
+  const remainingTokens = Math.max(limits.dailyTokens - tokensToday, 0);
+  const remainingCostUsd = Math.max(limits.dailyCostUsd - costTodayUsd, 0);
+  const untilReset = Math.ceil((resetsAt.getTime() - now.getTime()) / 1000);
+
+  let blocked: BudgetStatus["blocked"] = null;
+  if (remainingTokens <= 0) {
+    blocked = { reason: "Daily AI token budget used up", retryAfterSeconds: untilReset };
+  } else if (remainingCostUsd <= 0) {
+    blocked = { reason: "Daily AI cost budget used up", retryAfterSeconds: untilReset };
+  } else if (requestsLastMinute >= limits.requestsPerMinute) {
+    // The window frees up a slot once the oldest request in it is a minute old
+    const oldest = slots?.oldestInMinute ? new Date(slots.oldestInMinute).getTime() : now.getTime();
+    blocked = { reason: "Too many AI requests, slow down", retryAfterSeconds: Math.max(Math.ceil((oldest + 60 * 1000 - now.getTime()) / 1000), 1) };
+  }
+
+  return {
+    limits,
+    requestsLastMinute,
+    tokensToday,
+    costTodayUsd,
+    remainingTokens,
+    remainingCostUsd,
+    downgraded: remainingTokens < limits.dailyTokens * DOWNGRADE_THRESHOLD || remainingCostUsd < limits.dailyCostUsd * DOWNGRADE_THRESHOLD,
+    blocked,
+    resetsAt: resetsAt.toISOString(),
+  };
+}
+
+/**
+ * Gate a user request before its first provider call: throws AIBudgetExceededError when over a quota,
+ * otherwise takes one of the user's per-minute slots and reports whether the request should stay on the fast tier.
+ * The check and the reservation run under a per-user lock, so concurrent requests can't both take the last slot.
+ */
+export async function enforceAIBudget(userId: string, route: AIRoute): Promise<BudgetReservation> {
+  const status = await db.transaction(async (tx) => {
+    await tx.execute(sql`SELECT pg_advisory_xact_lock(hashtext(${`ai_request_slots:${userId}`}))`);
+    const now = new Date();
+    const current = await getAIBudgetStatus(userId, now, tx);
+    if (current.blocked) {
+      throw new AIBudgetExceededError(current.blocked.reason, current.blocked.retryAfterSeconds);
+    }
+
+    // Slots past the window no longer count; clear them out as new ones are taken
+    await tx.delete(aiRequestSlots).where(and(eq(aiRequestSlots.userId, userId), lt(aiRequestSlots.createdAt, new Date(now.getTime() - 60 * 1000))));
+    await tx.insert(aiRequestSlots).values({ userId, route, createdAt: now });
+    return current;
+  });
+
+  if (status.downgraded) {
+    console.log(`AI budget low for ${userId}: staying on the fast tier`);
+  }
+  return { downgrade: status.downgraded };
+}
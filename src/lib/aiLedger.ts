@@ -0,0 +1,170 @@
+/**
+ * Per-call AI accounting
+ * Every provider call lands in the append-only ai_requests ledger with its token counts, latency and
+ * an estimated cost, so spend can be broken down by day, model and route (and escalations priced).
+ */
+import { db, aiRequests } from "@/lib/db";
+import { and, eq, gte, sql, type SQL } from "drizzle-orm";
+import type { CompletionRequest, ProviderName, TokenUsage } from "@/lib/aiProviders";
+
+// Entry points that spend tokens
+export type AIRoute = "api/ai/extract" | "api/ai/query" | "drafts";
+
+export type RequestOutcome = "success" | "invalid" | "error";
+
+// USD per million tokens; models not listed (local, mock) are recorded without a cost
+const MODEL_PRICING: Record<string, { input: number; output: number }> = {
+  "claude-haiku-4-5-20251001": { input: 1, output: 5 },
+  "claude-sonnet-4-5-20250929": { input: 3, output: 15 },
+  "gpt-4.1": { input: 2, output: 8 },
+  "o4-mini": { input: 1.1, output: 4.4 },
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function estimateCost(model: string, usage: TokenUsage | null): number | null {
+  const pricing = MODEL_PRICING[model];
+  if (!pricing || !usage || usage.inputTokens === null || usage.outputTokens === null) return null;
+  return (usage.inputTokens * pricing.input + usage.outputTokens * pricing.output) / 1_000_000;
+}
+
+/**
+ * Append one call to the ledger. Like trackUsage, failures are logged and swallowed -
+ * accounting must never break the request it is accounting for.
+ */
+export async function recordAIRequest(
+  provider: ProviderName,
+  request: CompletionRequest,
+  result: { outcome: RequestOutcome; usage: TokenUsage | null; latencyMs: number; error?: string }
+): Promise<void> {
+  try {
+    await db.insert(aiRequests).values({
+      userId: request.context.userId,
+      route: request.context.route,
+      task: request.task,
+      provider,
+      model: request.model,
+      tier: request.context.tier,
+      escalated: request.context.escalated,
+      outcome: result.outcome,
+      error: result.error?.slice(0, 1000) ?? null,
+      inputTokens: result.usage?.inputTokens ?? null,
+      outputTokens: result.usage?.outputTokens ?? null,
+      latencyMs: result.latencyMs,
+      estimatedCostUsd: estimateCost(request.model, result.usage),
+    });
+  } catch (error) {
+    console.error("Error recording AI request:", error);
+  }
+}
+
+export interface UsageBucket {
+  key: string;
+  requests: number;
+  failures: number; // "invalid" + "error" outcomes
+  inputTokens: number;
+  outputTokens: number;
+  costUsd: number;
+  avgLatencyMs: number;
+}
+
+export interface UsageBreakdown {
+  days: number;
+  totals: UsageBucket;
+  byDay: UsageBucket[];
+  byModel: UsageBucket[];
+  byRoute: UsageBucket[];
+  escalations: UsageBucket; // Calls made on the advanced tier after a low-confidence fast answer
+}
+
+/**
+ * Aggregate a user's ledger over the last `days` days
+ */
+export async function getUsageBreakdown(userId: string, days: number): Promise<UsageBreakdown> {
+  const since = new Date(Date.now() - days * DAY_MS);
+  const scope = and(eq(aiRequests.userId, userId), gte(aiRequests.createdAt, since));
+
+  const columns = {
+    requests: sql<number>`count(*)::int`,
+    failures: sql<number>`(count(*) FILTER (WHERE ${aiRequests.outcome} <> 'success'))::int`,
+    inputTokens: sql<number>`coalesce(sum(${aiRequests.inputTokens}), 0)::int`,
+    outputTokens: sql<number>`coalesce(sum(${aiRequests.outputTokens}), 0)::int`,
+    costUsd: sql<number>`coalesce(sum(${aiRequests.estimatedCostUsd}), 0)::float8`,
+    avgLatencyMs: sql<number>`coalesce(round(avg(${aiRequests.latencyMs})), 0)::int`,
+  };
+
+  // One bucket per distinct key
+  const aggregate = (key: SQL<string>): Promise<UsageBucket[]> =>
+    db
+      .select({ key, ...columns })
+      .from(aiRequests)
+      .where(scope)
+      .groupBy(key)
+      .orderBy(key);
+
+  // A single bucket over everything matching
+  const total = async (key: string, where = scope): Promise<UsageBucket> => {
+    const [row] = await db.select(columns).from(aiRequests).where(where);
+    return { key, ...row };
+  };
+
+  return {
+    days,
+    totals: await total("all"),
+    byDay: await aggregate(sql<string>`to_char(date_trunc('day', ${aiRequests.createdAt}), 'YYYY-MM-DD')`),
+    byModel: await aggregate(sql<string>`${aiRequests.model}`),
+    byRoute: await aggregate(sql<string>`${aiRequests.route}`),
+    escalations: await total("escalated", and(scope, eq(aiRequests.escalated, true))),
+  };
+}
+
+export type HistoryBucketSize = "day" | "week";
+
+export interface UsageHistoryBucket {
+  start: string; // YYYY-MM-DD; the Monday of the week for weekly buckets
+  requests: number;
+  byTask: Record<string, number>; // extract / query
+  byProvider: Record<string, number>;
+  byTier: Record<string, number>; // fast / advanced
+}
+
+/**
+ * Requests over the last `days` days in day or week buckets, split by task, provider and model tier.
+ * Every bucket in the window is present (empty ones included) so charts keep a steady time axis.
+ */
+export async function getUsageHistory(userId: string, bucket: HistoryBucketSize, days: number): Promise<UsageHistoryBucket[]> {
+  const now = new Date();
+  const today = Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate());
+  let start = today - (days - 1) * DAY_MS;
+  if (bucket === "week") {
+    // Back up to the Monday, matching date_trunc('week')
+    start -= ((new Date(start).getUTCDay() + 6) % 7) * DAY_MS;
+  }
+
+  const step = bucket === "week" ? 7 * DAY_MS : DAY_MS;
+  const buckets = new Map<string, UsageHistoryBucket>();
+  for (let time = start; time <= today; time += step) {
+    const key = new Date(time).toISOString().slice(0, 10);
+    buckets.set(key, { start: key, requests: 0, byTask: {}, byProvider: {}, byTier: {} });
+  }
+
+  // Inlined rather than bound: Postgres only matches the GROUP BY expression if it is textually identical
+  const unit = sql.raw(bucket === "week" ? "'week'" : "'day'");
+  const key = sql<string>`to_char(date_trunc(${unit}, ${aiRequests.createdAt}), 'YYYY-MM-DD')`;
+  const rows = await db
+    .select({ key, task: aiRequests.task, provider: aiRequests.provider, tier: aiRequests.tier, requests: sql<number>`count(*)::int` })
+    .from(aiRequests)
+    .where(and(eq(aiRequests.userId, userId), gte(aiRequests.createdAt, new Date(start))))
+    .groupBy(key, aiRequests.task, aiRequests.provider, aiRequests.tier);
+
+  for (const row of rows) {
+    const entry = buckets.get(row.key);
+    if (!entry) continue;
+    entry.requests += row.requests;
+    entry.byTask[row.task] = (entry.byTask[row.task] ?? 0) + row.requests;
+    entry.byProvider[row.provider] = (entry.byProvider[row.provider] ?? 0) + row.requests;
+    entry.byTier[row.tier] = (entry.byTier[row.tier] ?? 0) + row.requests;
+  }
+
+  return [...buckets.values()];
+}
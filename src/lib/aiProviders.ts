@@ -0,0 +1,398 @@
+/**
+ * Pluggable AI providers
+ * Every provider turns a system prompt + user prompt into text (whole or streamed). Callers pick an
+ * ordered list with getProviderOrder() and fall through it, so adding a backend means registering
+ * one object here rather than copying SDK calls into each feature.
+ */
+import Anthropic from "@anthropic-ai/sdk";
+import OpenAI from "openai";
+import type { ModelSelectionResult, ModelTier } from "@/lib/modelSelector";
+import { getUserPreferences } from "@/lib/preferences";
+import { recordAIRequest, type AIRoute } from "@/lib/aiLedger";
+
+export type ProviderName = "anthropic" | "openai" | "local" | "mock";
+
+// What the caller is doing, so the mock provider can answer in the right shape
+export type AITask = "extract" | "query";
+
+// Who a call is for and why; recorded with it in the ai_requests ledger
+export interface RequestContext {
+  userId: string;
+  route: AIRoute;
+  tier: ModelTier;
+  escalated: boolean; // Retry on the advanced tier after a low-confidence fast answer
+}
+
+export interface CompletionRequest {
+  task: AITask;
+  system: string;
+  prompt: string;
+  input: string; // The raw user text the prompt was built from
+  model: string;
+  maxTokens?: number;
+  context: RequestContext;
+}
+
+// Token counts as reported by the provider (null when it doesn't report them)
+export interface TokenUsage {
+  inputTokens: number | null;
+  outputTokens: number | null;
+}
+
+export interface CompletionResult {
+  text: string;
+  usage: TokenUsage;
+}
+
+export interface AIProvider {
+  name: ProviderName;
+  label: string;
+  isConfigured(): boolean;
+  // Concrete model for a tier picked by modelSelector
+  pickModel(selection: ModelSelectionResult): string;
+  complete(request: CompletionRequest): Promise<CompletionResult>;
+  // Yields text chunks; the generator's return value is the token usage
+  stream(request: CompletionRequest): AsyncGenerator<string, TokenUsage>;
+}
+
+export const PROVIDER_NAMES: ProviderName[] = ["anthropic", "openai", "local", "mock"];
+
+// Used when neither the user nor AI_PROVIDER_ORDER says otherwise
+const DEFAULT_PROVIDER_ORDER: ProviderName[] = ["anthropic", "openai", "local"];
+
+const DEFAULT_MAX_TOKENS = 2000;
+
+const anthropicProvider: AIProvider = {
+  name: "anthropic",
+  label: "Anthropic (Claude)",
+  isConfigured: () => !!process.env.ANTHROPIC_API_KEY,
+  pickModel: (selection) => selection.anthropicModel,
+
+  async complete(request) {
+    const anthropic = new Anthropic({ apiKey: requireEnv("ANTHROPIC_API_KEY") });
+    const message = await anthropic.messages.create({
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: [{ role: "user", content: request.prompt }],
+    });
+
+    const content = message.content[0];
+    if (content?.type !== "text") {
+      throw new Error("Unexpected response type from Claude");
+    }
+    return { text: content.text, usage: { inputTokens: message.usage.input_tokens, outputTokens: message.usage.output_tokens } };
+  },
+
+  async *stream(request) {
+    const anthropic = new Anthropic({ apiKey: requireEnv("ANTHROPIC_API_KEY") });
+    const stream = anthropic.messages.stream({
+      model: request.model,
+      max_tokens: request.maxTokens ?? DEFAULT_MAX_TOKENS,
+      system: request.system,
+      messages: [{ role: "user", content: request.prompt }],
+    });
+
+    for await (const event of stream) {
+      if (event.type === "content_block_delta" && event.delta.type === "text_delta") {
+        yield event.delta.text;
+      }
+    }
+
+    const { usage } = await stream.finalMessage();
+    return { inputTokens: usage.input_tokens, outputTokens: usage.output_tokens };
+  },
+};
+
+// Chat completions in JSON mode; shared by OpenAI itself and OpenAI-compatible local servers
+function createChatCompletionsProvider(options: {
+  name: ProviderName;
+  label: string;
+  isConfigured: () => boolean;
+  pickModel: (selection: ModelSelectionResult) => string;
+  createClient: () => OpenAI;
+}): AIProvider {
+  const messages = (request: CompletionRequest) => [
+    { role: "system" as const, content: request.system },
+    { role: "user" as const, content: request.prompt },
+  ];
+
+  return {
+    name: options.name,
+    label: options.label,
+    isConfigured: options.isConfigured,
+    pickModel: options.pickModel,
+
+    async complete(request) {
+      const completion = await options.createClient().chat.completions.create({
+        model: request.model,
+        messages: messages(request),
+        response_format: { type: "json_object" },
+      });
+
+      const content = completion.choices[0]?.message?.content;
+      if (!content) {
+        throw new Error(`Empty response from ${options.label}`);
+      }
+      return { text: content, usage: { inputTokens: completion.usage?.prompt_tokens ?? null, outputTokens: completion.usage?.completion_tokens ?? null } };
+    },
+
+    async *stream(request) {
+      const stream = await options.createClient().chat.completions.create({
+        model: request.model,
+        messages: messages(request),
+        response_format: { type: "json_object" },
+        stream: true,
+        // Usage arrives in a final chunk with no choices (servers that don't support it just omit it)
+        stream_options: { include_usage: true },
+      });
+
+      const usage: TokenUsage = { inputTokens: null, outputTokens: null };
+      for await (const chunk of stream) {
+        const content = chunk.choices[0]?.delta?.content;
+        if (content) yield content;
+        if (chunk.usage) {
+          usage.inputTokens = chunk.usage.prompt_tokens;
+          usage.outputTokens = chunk.usage.completion_tokens;
+        }
+      }
+      return usage;
+    },
+  };
+}
+
+const openaiProvider = createChatCompletionsProvider({
+  name: "openai",
+  label: "OpenAI (GPT)",
+  isConfigured: () => !!process.env.OPENAI_API_KEY,
+  pickModel: (selection) => selection.openaiModel,
+  createClient: () => new OpenAI({ apiKey: requireEnv("OPENAI_API_KEY") }),
+});
+
+// Any OpenAI-compatible server, e.g. Ollama at http://localhost:11434/v1
+const localProvider = createChatCompletionsProvider({
+  name: "local",
+  label: "Local model",
+  isConfigured: () => !!process.env.LOCAL_AI_BASE_URL,
+  pickModel: (selection) => {
+    const fastModel = process.env.LOCAL_AI_MODEL || "llama3.1";
+    return selection.tier === "advanced" ? process.env.LOCAL_AI_ADVANCED_MODEL || fastModel : fastModel;
+  },
+  // Local servers usually ignore the key, but the SDK refuses to start without one
+  createClient: () => new OpenAI({ apiKey: process.env.LOCAL_AI_API_KEY || "local", baseURL: requireEnv("LOCAL_AI_BASE_URL") }),
+});
+
+/**
+ * Deterministic offline provider for development and tests: no network, same input -> same output.
+ * Questions become text searches for their longer words; anything else is split into one todo per sentence.
+ */
+function mockResponse(request: CompletionRequest): string {
+  const input = request.input.trim();
+
+  if (request.task === "query") {
+    const isQuery = /\?$|^(what|which|show|list|find|how many|do i|any)\b/i.test(input);
+    const keywords = isQuery ? input.toLowerCase().match(/[a-z]{4,}/g)?.slice(0, 3) ?? [] : [];
+    return JSON.stringify({
+      isQuery,
+      intent: isQuery ? "search" : "todo_creation",
+      keywords,
+      filter: isQuery ? (keywords.length > 0 ? { type: "or", filters: keywords.map((term) => ({ type: "text", term })) } : { type: "all" }) : undefined,
+      response: isQuery ? "Found {count} todos mentioning those words." : "",
+      confidence: 1,
+      confidenceReason: "Mock provider",
+    });
+  }
+
+  const todos = input
+    .split(/(?:[.!?;\n]+|,?\s+and then\s+|,?\s+also\s+)/i)
+    .map((part) => part.trim())
+    .filter((part) => part.length > 2)
+    .map((part) => ({
+      text: part.charAt(0).toUpperCase() + part.slice(1),
+      tags: /urgent|asap|today/i.test(part) ? ["urgent"] : [],
+      priority: /urgent|asap|important/i.test(part) ? "high" : "medium",
+      dueDate: null,
+      dueTime: null,
+      startDate: null,
+      startTime: null,
+      context: part,
+      recurrence: null,
+      subtasks: [],
+      projectId: null,
+    }));
+  return JSON.stringify({ todos });
+}
+
+// Rough 4-characters-per-token estimate so the ledger has numbers to show in offline runs
+function estimateMockUsage(request: CompletionRequest, output: string): TokenUsage {
+  return { inputTokens: Math.ceil((request.system.length + request.prompt.length) / 4), outputTokens: Math.ceil(output.length / 4) };
+}
+
+const mockProvider: AIProvider = {
+  name: "mock",
+  label: "Mock (offline)",
+  // Only when the deployment lists it, so users can't swap real extraction for canned output
+  isConfigured: () => getDefaultProviderOrder().includes("mock"),
+  pickModel: (selection) => `mock-${selection.tier}`,
+
+  async complete(request) {
+    const text = mockResponse(request);
+    return { text, usage: estimateMockUsage(request, text) };
+  },
+
+  async *stream(request) {
+    // Small chunks so stream parsing gets exercised the same way as with a real model
+    const response = mockResponse(request);
+    for (let i = 0; i < response.length; i += 32) {
+      yield response.slice(i, i + 32);
+    }
+    return estimateMockUsage(request, response);
+  },
+};
+
+const PROVIDERS: Record<ProviderName, AIProvider> = {
+  anthropic: anthropicProvider,
+  openai: openaiProvider,
+  local: localProvider,
+  mock: mockProvider,
+};
+
+function requireEnv(name: string): string {
+  const value = process.env[name];
+  if (!value) {
+    throw new Error(`${name} not configured`);
+  }
+  return value;
+}
+
+export function getProvider(name: ProviderName): AIProvider {
+  return PROVIDERS[name];
+}
+
+/**
+ * Validate a provider order (from env or a request body): known names only, no duplicates
+ */
+export function parseProviderOrder(value: unknown): ProviderName[] | null {
+  const names = typeof value === "string" ? value.split(",").map((name) => name.trim().toLowerCase()) : value;
+  if (!Array.isArray(names) || names.length === 0) return null;
+  if (names.some((name) => !PROVIDER_NAMES.includes(name as ProviderName))) return null;
+  if (new Set(names).size !== names.length) return null;
+  return names as ProviderName[];
+}
+
+// Deployment-wide order from AI_PROVIDER_ORDER ("anthropic,openai,local"), else the default
+export function getDefaultProviderOrder(): ProviderName[] {
+  const configured = process.env.AI_PROVIDER_ORDER;
+  if (configured) {
+    const parsed = parseProviderOrder(configured);
+    if (parsed) return parsed;
+    console.warn(`Ignoring invalid AI_PROVIDER_ORDER "${configured}"`);
+  }
+  return DEFAULT_PROVIDER_ORDER;
+}
+
+/**
+ * Providers to try, in order, skipping any without credentials.
+ * A user's saved order wins when at least one of its providers is usable; otherwise the deployment order applies.
+ */
+export function getProviderOrder(userOrder?: ProviderName[] | null): AIProvider[] {
+  const usable = (names: ProviderName[]) => names.map(getProvider).filter((provider) => provider.isConfigured());
+
+  if (userOrder && userOrder.length > 0) {
+    const providers = usable(userOrder);
+    if (providers.length > 0) return providers;
+  }
+  return usable(getDefaultProviderOrder());
+}
+
+/**
+ * Provider order for a user, honoring the order saved in their preferences
+ */
+export async function getUserProviders(userId: string): Promise<AIProvider[]> {
+  const { aiProviderOrder } = await getUserPreferences(userId);
+  return getProviderOrder(aiProviderOrder);
+}
+
+/**
+ * Parse a model response as JSON. A surrounding markdown code fence is tolerated; prose around the
+ * object is not - guessing which braces were meant is how half-answers slipped through before.
+ */
+export function parseJsonResponse(text: string): { value: unknown } | { error: string } {
+  const body = text
+    .trim()
+    .replace(/^```(?:json)?\s*/i, "")
+    .replace(/\s*```$/, "");
+  try {
+    return { value: JSON.parse(body) };
+  } catch (error) {
+    return { error: `Response is not valid JSON (${error instanceof Error ? error.message : "parse error"})` };
+  }
+}
+
+/**
+ * One recorded call: run the completion, validate it, and write the outcome to the ledger
+ * ("invalid" when the model answered but the answer failed validation)
+ */
+export async function completeChecked<T>(
+  provider: AIProvider,
+  request: CompletionRequest,
+  validate: (raw: unknown) => { value: T } | { error: string }
+): Promise<{ value: T } | { error: string; text: string }> {
+  const startedAt = Date.now();
+  let result: CompletionResult;
+  try {
+    result = await provider.complete(request);
+  } catch (error) {
+    await recordAIRequest(provider.name, request, { outcome: "error", usage: null, latencyMs: Date.now() - startedAt, error: error instanceof Error ? error.message : "Unknown error" });
+    throw error;
+  }
+  const latencyMs = Date.now() - startedAt;
+
+  const parsed = parseJsonResponse(result.text);
+  const checked = "error" in parsed ? parsed : validate(parsed.value);
+  if ("error" in checked) {
+    await recordAIRequest(provider.name, request, { outcome: "invalid", usage: result.usage, latencyMs, error: checked.error });
+    return { error: checked.error, text: result.text };
+  }
+
+  await recordAIRequest(provider.name, request, { outcome: "success", usage: result.usage, latencyMs });
+  return checked;
+}
+
+/**
+ * Run a completion and validate the result. If the output doesn't parse or fails validation, the
+ * model gets exactly one repair round-trip with its answer and the validation errors; a second
+ * failure throws so the caller can move on to the next provider.
+ */
+export async function completeValidated<T>(
+  provider: AIProvider,
+  request: CompletionRequest,
+  validate: (raw: unknown) => { value: T } | { error: string }
+): Promise<T> {
+  const first = await completeChecked(provider, request, validate);
+  if ("value" in first) return first.value;
+
+  console.warn(`${provider.label} returned invalid output, requesting a repair: ${first.error}`);
+  const repaired = await completeChecked(provider, buildRepairRequest(request, first.text, first.error), validate);
+  if ("value" in repaired) return repaired.value;
+
+  throw new Error(`Invalid response after repair: ${repaired.error}`);
+}
+
+/**
+ * Follow-up request asking the model to fix its previous answer
+ */
+export function buildRepairRequest(request: CompletionRequest, invalidOutput: string, errors: string): CompletionRequest {
+  return {
+    ...request,
+    prompt: `${request.prompt}
+
+Your previous answer was:
+${invalidOutput}
+
+It failed validation:
+${errors}
+
+Return the complete corrected JSON only, with the same structure and no other text.`,
+  };
+}
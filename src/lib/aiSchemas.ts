@@ -0,0 +1,459 @@
+/**
+ * Runtime schemas for model output
+ * Models get the shape right most of the time, not all of the time. Everything they return passes
+ * through here before it reaches the database: known near-misses are coerced by the explicit rules
+ * below, anything else is reported back (all problems at once, with paths) so the caller can ask
+ * the model to repair its answer.
+ */
+import type { ExtractedTodo } from "@/lib/extraction";
+import type { QueryResponse } from "@/lib/queryDetection";
+import type { TodoAction } from "@/lib/todoActions";
+import { MAX_FILTER_DEPTH, RELATIVE_DAY, type TodoFilter } from "@/lib/queryFilter";
+
+// Coercion: priority words models use instead of our three levels
+const PRIORITY_ALIASES: Record<string, ExtractedTodo["priority"]> = {
+  high: "high",
+  urgent: "high",
+  critical: "high",
+  asap: "high",
+  important: "high",
+  p1: "high",
+  medium: "medium",
+  normal: "medium",
+  moderate: "medium",
+  default: "medium",
+  p2: "medium",
+  low: "low",
+  minor: "low",
+  someday: "low",
+  later: "low",
+  p3: "low",
+};
+
+// Intents that change the matching todos (after the user confirms) instead of just showing them
+export const ACTION_INTENTS = ["complete", "delete", "retag", "reschedule", "reprioritize"];
+export const QUERY_INTENTS = ["filter_by_tag", "filter_by_priority", "filter_by_date", "filter_by_status", "summarize", "search", "todo_creation", "snooze", ...ACTION_INTENTS];
+
+const MAX_EXTRACTED_TODOS = 50;
+const MAX_TODO_TEXT_LENGTH = 500;
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+const MAX_FILTER_TERMS = 10;
+
+function isObject(value: unknown): value is Record<string, unknown> {
+  return !!value && typeof value === "object" && !Array.isArray(value);
+}
+
+/**
+ * Coerce a model date to YYYY-MM-DD.
+ * Accepts a bare date or a full ISO timestamp (the time is dropped); "", "none" and null mean no date.
+ * Impossible calendar dates (2026-02-30) are rejected rather than rolled over into the next month.
+ */
+function parseDueDate(value: unknown, path: string, errors: string[]): string | null {
+  if (value === undefined || value === null || value === "" || (typeof value === "string" && /^(none|null|n\/a)$/i.test(value.trim()))) {
+    return null;
+  }
+  if (typeof value !== "string") {
+    errors.push(`${path}: must be a "YYYY-MM-DD" string or null`);
+    return null;
+  }
+
+  const match = value.trim().match(/^(\d{4})-(\d{2})-(\d{2})(?:[T ][\d:.]+(?:Z|[+-]\d{2}:?\d{2})?)?$/);
+  if (!match) {
+    errors.push(`${path}: "${value}" is not a YYYY-MM-DD date`);
+    return null;
+  }
+
+  const [, year, month, day] = match;
+  const date = new Date(Date.UTC(Number(year), Number(month) - 1, Number(day)));
+  if (date.getUTCFullYear() !== Number(year) || date.getUTCMonth() !== Number(month) - 1 || date.getUTCDate() !== Number(day)) {
+    errors.push(`${path}: ${year}-${month}-${day} is not a real date`);
+    return null;
+  }
+  if (Number(year) < 2000 || Number(year) > 2100) {
+    errors.push(`${path}: year ${year} is out of range`);
+    return null;
+  }
+  return `${year}-${month}-${day}`;
+}
+
+// A due filter bound: a relative day ("today+6", kept as written) or a fixed date
+function parseFilterDay(value: unknown, path: string, errors: string[]): string | null {
+  const relative = typeof value === "string" ? value.replace(/\s+/g, "").toLowerCase() : "";
+  return RELATIVE_DAY.test(relative) ? relative : parseDueDate(value, path, errors);
+}
+
+/**
+ * Coerce a model time of day to HH:MM (24-hour).
+ * Accepts "15:00", "15:00:00", "3pm" and "3:30 PM"; "", "none" and null mean no time.
+ */
+function parseTime(value: unknown, path: string, errors: string[]): string | null {
+  if (value === undefined || value === null || value === "" || (typeof value === "string" && /^(none|null|n\/a)$/i.test(value.trim()))) {
+    return null;
+  }
+  const match = typeof value === "string" ? value.trim().match(/^(\d{1,2})(?::(\d{2}))?(?::\d{2})?\s*([ap]\.?m\.?)?$/i) : null;
+  if (!match || (!match[2] && !match[3])) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not an HH:MM time`);
+    return null;
+  }
+
+  let hours = Number(match[1]);
+  const minutes = Number(match[2] ?? 0);
+  const meridiem = match[3]?.[0].toLowerCase();
+  if (meridiem && (hours < 1 || hours > 12)) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not a real time`);
+    return null;
+  }
+  if (meridiem) {
+    hours = (hours % 12) + (meridiem === "p" ? 12 : 0);
+  }
+  if (hours > 23 || minutes > 59) {
+    errors.push(`${path}: ${JSON.stringify(value)} is not a real time`);
+    return null;
+  }
+  return `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+}
+
+// Coercion: a lone string becomes a one-tag list; tags are trimmed, lowercased and de-duplicated
+function parseTags(value: unknown, path: string, errors: string[]): string[] {
+  if (value === undefined || value === null) return [];
+  const list = typeof value === "string" ? [value] : value;
+  if (!Array.isArray(list) || list.some((tag) => typeof tag !== "string")) {
+    errors.push(`${path}: must be an array of strings`);
+    return [];
+  }
+
+  const tags = [...new Set(list.map((tag: string) => tag.trim().toLowerCase().replace(/^#/, "")).filter(Boolean))];
+  if (tags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+    errors.push(`${path}: tags must be at most ${MAX_TAG_LENGTH} characters`);
+  }
+  return tags.slice(0, MAX_TAGS);
+}
+
+// Coercion: integer IDs may arrive as numeric strings ("12")
+function parseId(value: unknown): number | null {
+  if (typeof value === "number" && Number.isInteger(value)) return value;
+  if (typeof value === "string" && /^\d+$/.test(value.trim())) return Number(value.trim());
+  return null;
+}
+
+// Parameters of an action intent, from the response's "action" object
+function parseTodoAction(intent: string, raw: unknown, errors: string[]): TodoAction | null {
+  const params = isObject(raw) ? raw : {};
+  switch (intent) {
+    case "complete":
+    case "delete":
+      return { type: intent };
+    case "retag": {
+      const addTags = parseTags(params.addTags, "action.addTags", errors);
+      const removeTags = parseTags(params.removeTags, "action.removeTags", errors);
+      if (addTags.length === 0 && removeTags.length === 0) {
+        errors.push("action: retag needs addTags or removeTags");
+        return null;
+      }
+      return { type: "retag", addTags, removeTags };
+    }
+    case "reschedule": {
+      const errorCount = errors.length;
+      const dueDate = parseDueDate(params.dueDate, "action.dueDate", errors);
+      if (!dueDate) {
+        if (errors.length === errorCount) errors.push("action.dueDate: required for reschedule");
+        return null;
+      }
+      return { type: "reschedule", dueDate };
+    }
+    case "reprioritize": {
+      const priority = typeof params.priority === "string" ? PRIORITY_ALIASES[params.priority.trim().toLowerCase()] : undefined;
+      if (!priority) {
+        errors.push('action.priority: must be "high", "medium" or "low"');
+        return null;
+      }
+      return { type: "reprioritize", priority };
+    }
+    default:
+      return null;
+  }
+}
+
+/**
+ * Parse a query filter (see TodoFilter). Coerces a lone priority to a list, tags like parseTags, and
+ * one-element and/or groups to their only filter.
+ */
+function parseTodoFilter(raw: unknown, path: string, errors: string[], depth = 1): TodoFilter | null {
+  if (!isObject(raw) || typeof raw.type !== "string") {
+    errors.push(`${path}: must be a filter object with a "type"`);
+    return null;
+  }
+  if (depth > MAX_FILTER_DEPTH) {
+    errors.push(`${path}: filters can only be nested ${MAX_FILTER_DEPTH} levels deep`);
+    return null;
+  }
+
+  switch (raw.type.trim().toLowerCase()) {
+    case "all":
+      return { type: "all" };
+    case "tag": {
+      const [tag] = parseTags(raw.tag, `${path}.tag`, errors);
+      if (!tag) {
+        errors.push(`${path}.tag: required tag name`);
+        return null;
+      }
+      return { type: "tag", tag };
+    }
+    case "priority": {
+      const values = Array.isArray(raw.priorities) ? raw.priorities : [raw.priorities ?? raw.priority];
+      const priorities = [...new Set(values.map((value) => (typeof value === "string" ? PRIORITY_ALIASES[value.trim().toLowerCase()] : undefined)))];
+      if (priorities.length === 0 || priorities.some((priority) => !priority)) {
+        errors.push(`${path}.priorities: must be a list of "high", "medium" and "low"`);
+        return null;
+      }
+      return { type: "priority", priorities: priorities as ("high" | "medium" | "low")[] };
+    }
+    case "status":
+      if (raw.status !== "active" && raw.status !== "completed") {
+        errors.push(`${path}.status: must be "active" or "completed"`);
+        return null;
+      }
+      return { type: "status", status: raw.status };
+    case "due": {
+      const from = parseFilterDay(raw.from, `${path}.from`, errors);
+      const to = parseFilterDay(raw.to, `${path}.to`, errors);
+      // Relative days can't be compared until they're resolved
+      if (from && to && !RELATIVE_DAY.test(from) && !RELATIVE_DAY.test(to) && from > to) {
+        errors.push(`${path}: from must not be after to`);
+        return null;
+      }
+      return { type: "due", from, to };
+    }
+    case "text": {
+      const term = typeof raw.term === "string" ? raw.term.trim() : "";
+      if (!term || term.length > MAX_TAG_LENGTH) {
+        errors.push(`${path}.term: required string of at most ${MAX_TAG_LENGTH} characters`);
+        return null;
+      }
+      return { type: "text", term };
+    }
+    case "and":
+    case "or": {
+      const type = raw.type.trim().toLowerCase() as "and" | "or";
+      if (!Array.isArray(raw.filters) || raw.filters.length === 0 || raw.filters.length > MAX_FILTER_TERMS) {
+        errors.push(`${path}.filters: must be a list of 1 to ${MAX_FILTER_TERMS} filters`);
+        return null;
+      }
+      const filters = raw.filters.map((filter, i) => parseTodoFilter(filter, `${path}.filters[${i}]`, errors, depth + 1));
+      if (filters.some((filter) => !filter)) return null;
+      return filters.length === 1 ? filters[0] : { type, filters: filters as TodoFilter[] };
+    }
+    case "not": {
+      const filter = parseTodoFilter(raw.filter, `${path}.filter`, errors, depth + 1);
+      return filter && { type: "not", filter };
+    }
+    default:
+      errors.push(`${path}.type: "${raw.type}" is not one of all, tag, priority, status, due, text, and, or, not`);
+      return null;
+  }
+}
+
+/**
+ * Validate a filter that comes back from a client (a saved view or shared link) by the same rules
+ */
+export function validateTodoFilter(raw: unknown): { value: TodoFilter } | { error: string } {
+  const errors: string[] = [];
+  const filter = parseTodoFilter(raw, "filter", errors);
+  return filter && errors.length === 0 ? { value: filter } : { error: errors.join("; ") };
+}
+
+function parseExtractedTodo(raw: unknown, path: string, errors: string[], allowSubtasks: boolean): ExtractedTodo | null {
+  if (!isObject(raw)) {
+    errors.push(`${path}: must be an object`);
+    return null;
+  }
+
+  const text = typeof raw.text === "string" ? raw.text.trim() : "";
+  if (!text) {
+    errors.push(`${path}.text: required non-empty string`);
+  } else if (text.length > MAX_TODO_TEXT_LENGTH) {
+    errors.push(`${path}.text: must be at most ${MAX_TODO_TEXT_LENGTH} characters`);
+  }
+
+  let priority: ExtractedTodo["priority"] = "medium";
+  if (raw.priority !== undefined && raw.priority !== null) {
+    const alias = typeof raw.priority === "string" ? PRIORITY_ALIASES[raw.priority.trim().toLowerCase()] : undefined;
+    if (alias) {
+      priority = alias;
+    } else {
+      errors.push(`${path}.priority: "${String(raw.priority)}" is not one of high, medium, low`);
+    }
+  }
+
+  let projectId: number | null = null;
+  if (raw.projectId !== undefined && raw.projectId !== null) {
+    projectId = parseId(raw.projectId);
+    if (projectId === null) {
+      errors.push(`${path}.projectId: must be an integer project ID or null`);
+    }
+  }
+
+  if (raw.recurrence !== undefined && raw.recurrence !== null && typeof raw.recurrence !== "string") {
+    errors.push(`${path}.recurrence: must be an RRULE string or null`);
+  }
+
+  const subtasks: ExtractedTodo[] = [];
+  if (raw.subtasks !== undefined && raw.subtasks !== null) {
+    if (!Array.isArray(raw.subtasks)) {
+      errors.push(`${path}.subtasks: must be an array`);
+    } else if (raw.subtasks.length > 0 && !allowSubtasks) {
+      errors.push(`${path}.subtasks: subtasks can only be nested one level deep`);
+    } else {
+      raw.subtasks.forEach((subtask, i) => {
+        const parsed = parseExtractedTodo(subtask, `${path}.subtasks[${i}]`, errors, false);
+        if (parsed) subtasks.push(parsed);
+      });
+    }
+  }
+
+  const dueDate = parseDueDate(raw.dueDate, `${path}.dueDate`, errors);
+  const dueTime = parseTime(raw.dueTime, `${path}.dueTime`, errors);
+  const startDate = parseDueDate(raw.startDate, `${path}.startDate`, errors);
+  const startTime = parseTime(raw.startTime, `${path}.startTime`, errors);
+  if (dueTime && !dueDate) {
+    errors.push(`${path}.dueTime: needs a dueDate`);
+  }
+  if (startTime && !startDate) {
+    errors.push(`${path}.startTime: needs a startDate`);
+  }
+  if (startDate && dueDate && startDate > dueDate) {
+    errors.push(`${path}.startDate: must not be after dueDate`);
+  }
+
+  return {
+    text,
+    tags: parseTags(raw.tags, `${path}.tags`, errors),
+    priority,
+    dueDate,
+    dueTime,
+    startDate,
+    startTime,
+    context: typeof raw.context === "string" ? raw.context : "",
+    // Unsupported rules are dropped later by sanitizeExtractedTodo, like any other unschedulable rule
+    recurrence: typeof raw.recurrence === "string" && raw.recurrence.trim() ? raw.recurrence.trim() : null,
+    subtasks,
+    projectId,
+  };
+}
+
+/**
+ * Validate a single todo (a streamed item, or one entry of an extraction response)
+ */
+export function validateExtractedTodo(raw: unknown, path = "todo"): { value: ExtractedTodo } | { error: string } {
+  const errors: string[] = [];
+  const todo = parseExtractedTodo(raw, path, errors, true);
+  return todo && errors.length === 0 ? { value: todo } : { error: errors.join("; ") };
+}
+
+/**
+ * Validate a full extraction response: `{ "todos": [...] }`
+ */
+export function validateExtractionResponse(raw: unknown): { value: ExtractedTodo[] } | { error: string } {
+  if (!isObject(raw) || !Array.isArray(raw.todos)) {
+    return { error: 'Response must be an object with a "todos" array' };
+  }
+  if (raw.todos.length > MAX_EXTRACTED_TODOS) {
+    return { error: `todos: at most ${MAX_EXTRACTED_TODOS} todos per response` };
+  }
+
+  const errors: string[] = [];
+  const todos = raw.todos.map((todo, i) => parseExtractedTodo(todo, `todos[${i}]`, errors, true));
+  return errors.length === 0 ? { value: todos as ExtractedTodo[] } : { error: errors.join("; ") };
+}
+
+/**
+ * Validate a query detection response. Questions and commands must come with a filter; the matching
+ * todos (and so matchingTodoIds) are worked out from it afterwards.
+ */
+export function validateQueryResponse(raw: unknown): { value: QueryResponse } | { error: string } {
+  if (!isObject(raw)) {
+    return { error: "Response must be a JSON object" };
+  }
+  const errors: string[] = [];
+
+  // Coercion: "true"/"false" strings
+  let isQuery = false;
+  if (typeof raw.isQuery === "boolean") {
+    isQuery = raw.isQuery;
+  } else if (raw.isQuery === "true" || raw.isQuery === "false") {
+    isQuery = raw.isQuery === "true";
+  } else {
+    errors.push("isQuery: required boolean");
+  }
+
+  const intent = typeof raw.intent === "string" ? raw.intent.trim().toLowerCase() : "";
+  if (!QUERY_INTENTS.includes(intent)) {
+    errors.push(`intent: must be one of ${QUERY_INTENTS.join(", ")}`);
+  }
+
+  const keywords = Array.isArray(raw.keywords) ? raw.keywords.filter((k): k is string => typeof k === "string") : [];
+  if (raw.keywords !== undefined && !Array.isArray(raw.keywords)) {
+    errors.push("keywords: must be an array of strings");
+  }
+
+  if (raw.response !== undefined && raw.response !== null && typeof raw.response !== "string") {
+    errors.push("response: must be a string");
+  }
+
+  // Questions and commands say which todos they're about as a filter, evaluated later against the database
+  let filter: TodoFilter | undefined;
+  if (isQuery) {
+    filter = parseTodoFilter(raw.filter, "filter", errors) ?? undefined;
+  }
+
+  // Snooze commands carry the user's local date (and optional time) to snooze the matching todos until
+  let snoozeUntil: string | undefined;
+  if (intent === "snooze") {
+    const match = typeof raw.snoozeUntil === "string" ? raw.snoozeUntil.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ](.+))?$/) : null;
+    if (!match) {
+      errors.push('snoozeUntil: required for the snooze intent, as "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM"');
+    } else {
+      const date = parseDueDate(match[1], "snoozeUntil", errors);
+      const time = parseTime(match[2], "snoozeUntil", errors);
+      snoozeUntil = date && time ? `${date}T${time}` : date ?? undefined;
+    }
+  }
+
+  // Action commands carry their parameters in "action"; the change set is built from them later
+  let action: TodoAction | undefined;
+  if (ACTION_INTENTS.includes(intent)) {
+    action = parseTodoAction(intent, raw.action, errors) ?? undefined;
+  }
+
+  // Coercion: "true"/"false" strings; absent means a fresh question
+  const followUp = raw.followUp === true || raw.followUp === "true";
+
+  let confidence: number | undefined;
+  if (raw.confidence !== undefined && raw.confidence !== null) {
+    if (typeof raw.confidence !== "number" || raw.confidence < 0 || raw.confidence > 1) {
+      errors.push("confidence: must be a number between 0 and 1");
+    } else {
+      confidence = raw.confidence;
+    }
+  }
+
+  if (errors.length > 0) {
+    return { error: errors.join("; ") };
+  }
+
+  return {
+    value: {
+      isQuery,
+      intent,
+      keywords,
+      response: typeof raw.response === "string" ? raw.response : "",
+      filter,
+      snoozeUntil,
+      action,
+      followUp,
+      confidence,
+      confidenceReason: typeof raw.confidenceReason === "string" ? raw.confidenceReason : undefined,
+    },
+  };
+}
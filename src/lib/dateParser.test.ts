@@ -0,0 +1,59 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { reconcileDueDate, resolveDateExpressions } from "@/lib/dateParser";
+
+// A Sunday
+const TODAY = "2026-10-18";
+
+function datesIn(text: string): string[] {
+  return resolveDateExpressions(text, TODAY).map((anchor) => anchor.date);
+}
+
+describe("resolveDateExpressions", () => {
+  it("resolves relative phrases against today", () => {
+    assert.deepEqual(datesIn("call the bank tomorrow"), ["2026-10-19"]);
+    assert.deepEqual(datesIn("submit the report friday"), ["2026-10-23"]);
+    assert.deepEqual(datesIn("start the diet next monday"), ["2026-10-19"]);
+    assert.deepEqual(datesIn("renew passport in two weeks"), ["2026-11-01"]);
+  });
+
+  it("rolls yearless dates that already passed over to next year", () => {
+    assert.deepEqual(datesIn("call mom March 14"), ["2027-03-14"]);
+    assert.deepEqual(datesIn("dentist on 3/14"), ["2027-03-14"]);
+    assert.deepEqual(datesIn("party December 5th"), ["2026-12-05"]);
+  });
+
+  it("reads month abbreviations and May only after a preposition", () => {
+    assert.deepEqual(datesIn("buy 2 mar bars"), []);
+    assert.deepEqual(datesIn("I may 2 go"), []);
+    assert.deepEqual(datesIn("pay rent by mar 2"), ["2027-03-02"]);
+    assert.deepEqual(datesIn("dentist on 14 May"), ["2027-05-14"]);
+    assert.deepEqual(datesIn("book flights before the 2nd of nov"), ["2026-11-02"]);
+  });
+
+  it("leaves fractions alone", () => {
+    assert.deepEqual(datesIn("add 1/2 cup of sugar"), []);
+  });
+});
+
+describe("reconcileDueDate", () => {
+  it("corrects a due date that contradicts the only date in the snippet", () => {
+    const todo = { text: "Submit the report", context: "submit the report friday", dueDate: "2026-10-24" };
+    assert.equal(reconcileDueDate(todo, resolveDateExpressions(todo.context, TODAY)), "2026-10-23");
+  });
+
+  it("never adds a due date the model left out", () => {
+    const todo = { text: "Call the bank", context: "call the bank tomorrow", dueDate: null };
+    assert.equal(reconcileDueDate(todo, resolveDateExpressions(todo.context, TODAY)), null);
+  });
+
+  it("doesn't turn the start date phrase into the due date", () => {
+    const todo = { text: "Start the diet", context: "start the diet next monday", dueDate: "2026-11-30", startDate: "2026-10-19" };
+    assert.equal(reconcileDueDate(todo, resolveDateExpressions(todo.context, TODAY)), "2026-11-30");
+  });
+
+  it("keeps the model's date when the snippet names several dates", () => {
+    const todo = { text: "Draft slides", context: "draft slides tomorrow, present them friday", dueDate: "2026-10-23" };
+    assert.equal(reconcileDueDate(todo, resolveDateExpressions(todo.context, TODAY)), "2026-10-23");
+  });
+});
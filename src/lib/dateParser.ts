@@ -0,0 +1,222 @@
+/**
+ * Deterministic resolution of date phrases ("tomorrow", "next Friday", "in 3 days", "end of month")
+ * Models resolve relative dates inconsistently, so the ramble is scanned here first: the resolved
+ * anchors are handed to the model, and a todo's dueDate is checked against the anchors found in its
+ * own snippet. Pure functions on YYYY-MM-DD keys - no clock, no I/O - so results depend only on
+ * (text, today).
+ *
+ * Conventions:
+ * - A bare weekday ("Friday", "on Friday", "by Friday") is the next one after today
+ * - "this Friday" is this week's Friday, today included; once it has passed, the next one
+ * - "next Friday" is the Friday of next week (weeks start on Monday)
+ * - "next week" is next Monday, "end of week" the upcoming Friday, "this weekend" the upcoming Saturday
+ * - Dates without a year ("March 14", "on 3/14") that already passed this year roll over to next year
+ * - Month abbreviations and "May" double as words ("2 mar bars", "I may 2 go"), so they only count after a
+ *   preposition ("by Mar 2", "on 14 May"); full names ("March 14") count anywhere
+ */
+import { addDaysToKey, dateKeyToDate, dueDateKey, formatDateKey } from "@/lib/timezone";
+
+export interface DateAnchor {
+  phrase: string; // As written in the text, lowercased
+  date: string; // YYYY-MM-DD
+  index: number; // Position in the text
+}
+
+// Ordered to match Date.getUTCDay() (0 = Sunday)
+const WEEKDAY_NAMES = ["sunday", "monday", "tuesday", "wednesday", "thursday", "friday", "saturday"];
+
+const MONTH_NAMES = ["january", "february", "march", "april", "may", "june", "july", "august", "september", "october", "november", "december"];
+
+// Amounts spelled out ("in two weeks", "in a couple of days")
+const NUMBER_WORDS: Record<string, number> = { a: 1, an: 1, one: 1, "a couple of": 2, "a couple": 2, two: 2, three: 3, four: 4, five: 5, six: 6, seven: 7, eight: 8, nine: 9, ten: 10, eleven: 11, twelve: 12 };
+
+const WEEKDAY = `(${WEEKDAY_NAMES.join("|")})`;
+// Full month names that aren't also words
+const MONTH = `(${MONTH_NAMES.filter((name) => name.length > 3).join("|")})`;
+// Three-letter abbreviations (plus "sept"), optionally with a dot, and "may"
+const SHORT_MONTH = `(${MONTH_NAMES.map((name) => name.slice(0, 3)).join("|")}|sept)\\.?`;
+const PREPOSITION = "(?:on|by|due|until|till|before|after|from|for)";
+const AMOUNT = `(\\d{1,3}|${Object.keys(NUMBER_WORDS).sort((a, b) => b.length - a.length).join("|")})`;
+const ORDINAL = "(?:st|nd|rd|th)?";
+
+function monthNumber(name: string): number {
+  return MONTH_NAMES.findIndex((month) => month.startsWith(name.slice(0, 3))) + 1;
+}
+
+function weekday(key: string): number {
+  return dateKeyToDate(key).getUTCDay();
+}
+
+// Days from Monday (0) to Sunday (6)
+function daysSinceMonday(key: string): number {
+  return (weekday(key) + 6) % 7;
+}
+
+function makeKey(year: number, month: number, day: number): string | null {
+  const key = `${year}-${String(month).padStart(2, "0")}-${String(day).padStart(2, "0")}`;
+  const date = dateKeyToDate(key);
+  // Reject impossible dates rather than rolling them over
+  return !isNaN(date.getTime()) && dueDateKey(date) === key ? key : null;
+}
+
+function lastDayOfMonth(year: number, month: number): string {
+  return dueDateKey(new Date(Date.UTC(year, month, 0)));
+}
+
+function addMonths(key: string, months: number): string {
+  const [year, month, day] = key.split("-").map(Number);
+  const target = new Date(Date.UTC(year, month - 1 + months, 1));
+  const lastDay = new Date(Date.UTC(target.getUTCFullYear(), target.getUTCMonth() + 1, 0)).getUTCDate();
+  return makeKey(target.getUTCFullYear(), target.getUTCMonth() + 1, Math.min(day, lastDay))!;
+}
+
+function parseAmount(value: string): number {
+  return /^\d+$/.test(value) ? Number(value) : NUMBER_WORDS[value.replace(/\s+/g, " ")];
+}
+
+// The next given weekday strictly after today
+function nextWeekday(today: string, day: number): string {
+  return addDaysToKey(today, ((day - weekday(today) + 6) % 7) + 1);
+}
+
+// A month/day (and optional year) from an explicit date; yearless dates already past roll to next year
+function explicitDate(today: string, month: number, day: number, year?: string): string | null {
+  if (year) {
+    return makeKey(year.length === 2 ? 2000 + Number(year) : Number(year), month, day);
+  }
+  const thisYear = Number(today.slice(0, 4));
+  const key = makeKey(thisYear, month, day);
+  return key && key < today ? makeKey(thisYear + 1, month, day) : key;
+}
+
+interface DateRule {
+  pattern: RegExp;
+  resolve: (match: RegExpExecArray, today: string) => string | null;
+}
+
+// Most specific first: a phrase claimed by an earlier rule isn't matched again by a later one
+const RULES: DateRule[] = [
+  // 2026-03-14
+  { pattern: /\b(\d{4})-(\d{2})-(\d{2})\b/g, resolve: (m) => makeKey(Number(m[1]), Number(m[2]), Number(m[3])) },
+  // March 14th, March 14 2027
+  {
+    pattern: new RegExp(`\\b${MONTH}\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?\\b`, "g"),
+    resolve: (m, today) => explicitDate(today, monthNumber(m[1]), Number(m[2]), m[3]),
+  },
+  // 14th of March, 14 March 2027
+  {
+    pattern: new RegExp(`\\b(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${MONTH}(?:,?\\s+(\\d{4}))?\\b`, "g"),
+    resolve: (m, today) => explicitDate(today, monthNumber(m[2]), Number(m[1]), m[3]),
+  },
+  // by Mar 14, on May 2nd
+  {
+    pattern: new RegExp(`\\b${PREPOSITION}\\s+${SHORT_MONTH}\\s+(\\d{1,2})${ORDINAL}(?:,?\\s+(\\d{4}))?\\b`, "g"),
+    resolve: (m, today) => explicitDate(today, monthNumber(m[1]), Number(m[2]), m[3]),
+  },
+  // on 14 Mar, by the 2nd of May
+  {
+    pattern: new RegExp(`\\b${PREPOSITION}\\s+(?:the\\s+)?(\\d{1,2})${ORDINAL}\\s+(?:of\\s+)?${SHORT_MONTH}(?:,?\\s+(\\d{4}))?\\b`, "g"),
+    resolve: (m, today) => explicitDate(today, monthNumber(m[2]), Number(m[1]), m[3]),
+  },
+  // on 3/14, by 3/14/27 (month first; the preposition keeps "1/2 cup" from reading as January 2nd)
+  {
+    pattern: /\b(?:on|by|due|until|before)\s+(\d{1,2})\/(\d{1,2})(?:\/(\d{4}|\d{2}))?\b/g,
+    resolve: (m, today) => explicitDate(today, Number(m[1]), Number(m[2]), m[3]),
+  },
+  { pattern: /\b(?:the\s+)?day\s+after\s+tomorrow\b/g, resolve: (_, today) => addDaysToKey(today, 2) },
+  { pattern: /\b(?:tomorrow|tmrw|tmr)\b/g, resolve: (_, today) => addDaysToKey(today, 1) },
+  { pattern: /\b(?:today|tonight|this\s+(?:morning|afternoon|evening)|eod|end\s+of\s+(?:the\s+)?day)\b/g, resolve: (_, today) => today },
+  // in 3 days, in two weeks, in a month, 10 days from now
+  {
+    pattern: new RegExp(`\\b(?:in\\s+${AMOUNT}\\s+(day|week|month)s?|${AMOUNT}\\s+(day|week|month)s?\\s+from\\s+(?:now|today))\\b`, "g"),
+    resolve: (m, today) => {
+      const amount = parseAmount(m[1] ?? m[3]);
+      const unit = m[2] ?? m[4];
+      if (!amount) return null;
+      if (unit === "month") return addMonths(today, amount);
+      return addDaysToKey(today, unit === "week" ? amount * 7 : amount);
+    },
+  },
+  { pattern: /\b(?:end\s+of\s+(?:the\s+)?next\s+week)\b/g, resolve: (_, today) => addDaysToKey(today, 7 - daysSinceMonday(today) + 4) },
+  {
+    pattern: /\b(?:end\s+of\s+(?:the\s+|this\s+)?week|eow)\b/g,
+    resolve: (_, today) => (daysSinceMonday(today) <= 4 ? addDaysToKey(today, 4 - daysSinceMonday(today)) : nextWeekday(today, 5)),
+  },
+  { pattern: /\bnext\s+weekend\b/g, resolve: (_, today) => addDaysToKey(today, 7 - daysSinceMonday(today) + 5) },
+  {
+    pattern: /\b(?:this\s+)?weekend\b/g,
+    resolve: (_, today) => (daysSinceMonday(today) >= 5 ? today : addDaysToKey(today, 5 - daysSinceMonday(today))),
+  },
+  { pattern: /\bnext\s+week\b/g, resolve: (_, today) => addDaysToKey(today, 7 - daysSinceMonday(today)) },
+  {
+    pattern: /\b(?:end\s+of\s+(?:the\s+|this\s+)?month|eom)\b/g,
+    resolve: (_, today) => lastDayOfMonth(Number(today.slice(0, 4)), Number(today.slice(5, 7))),
+  },
+  {
+    pattern: /\bend\s+of\s+(?:the\s+)?next\s+month\b/g,
+    resolve: (_, today) => lastDayOfMonth(Number(today.slice(0, 4)), Number(today.slice(5, 7)) + 1),
+  },
+  { pattern: /\bnext\s+month\b/g, resolve: (_, today) => addMonths(`${today.slice(0, 8)}01`, 1) },
+  { pattern: /\b(?:end\s+of\s+(?:the\s+|this\s+)?year|eoy)\b/g, resolve: (_, today) => `${today.slice(0, 4)}-12-31` },
+  // next Friday: the Friday of next week
+  {
+    pattern: new RegExp(`\\bnext\\s+${WEEKDAY}\\b`, "g"),
+    resolve: (m, today) => addDaysToKey(today, 7 - daysSinceMonday(today) + ((WEEKDAY_NAMES.indexOf(m[1]) + 6) % 7)),
+  },
+  // this Friday: today counts
+  {
+    pattern: new RegExp(`\\bthis\\s+${WEEKDAY}\\b`, "g"),
+    resolve: (m, today) => (weekday(today) === WEEKDAY_NAMES.indexOf(m[1]) ? today : nextWeekday(today, WEEKDAY_NAMES.indexOf(m[1]))),
+  },
+  { pattern: new RegExp(`\\b${WEEKDAY}\\b`, "g"), resolve: (m, today) => nextWeekday(today, WEEKDAY_NAMES.indexOf(m[1])) },
+];
+
+/**
+ * Find and resolve every date phrase in a text, relative to `today` (YYYY-MM-DD in the user's time zone).
+ * Anchors come back in text order; phrases that don't resolve to a real date are skipped.
+ */
+export function resolveDateExpressions(text: string, today: string): DateAnchor[] {
+  const lower = text.toLowerCase();
+  const claimed: [number, number][] = [];
+  const anchors: DateAnchor[] = [];
+
+  for (const rule of RULES) {
+    rule.pattern.lastIndex = 0;
+    for (let match = rule.pattern.exec(lower); match; match = rule.pattern.exec(lower)) {
+      const start = match.index;
+      const end = start + match[0].length;
+      if (claimed.some(([from, to]) => start < to && end > from)) continue;
+      claimed.push([start, end]);
+
+      const date = rule.resolve(match, today);
+      if (date) {
+        anchors.push({ phrase: match[0].replace(/\s+/g, " "), date, index: start });
+      }
+    }
+  }
+
+  return anchors.sort((a, b) => a.index - b.index);
+}
+
+/**
+ * Check a model-provided due date against the anchors found in the todo's own snippet (context, else text).
+ * When the snippet names exactly one date, that date wins; otherwise the model's date stands. Only a due
+ * date the model gave is corrected (no due date stays none), and the phrase the model used as the start
+ * date ("start the diet next Monday") doesn't count.
+ */
+export function reconcileDueDate(todo: { text: string; context?: string | null; dueDate: string | null; startDate?: string | null }, anchors: DateAnchor[]): string | null {
+  if (anchors.length === 0 || todo.dueDate === null) return todo.dueDate;
+
+  const snippet = `${todo.context ?? ""} ${todo.text}`.toLowerCase().replace(/\s+/g, " ");
+  const dates = [...new Set(anchors.filter((anchor) => anchor.date !== todo.startDate && snippet.includes(anchor.phrase)).map((anchor) => anchor.date))];
+  return dates.length === 1 ? dates[0] : todo.dueDate;
+}
+
+/**
+ * Prompt section listing the resolved anchors; "" when there are none
+ */
+export function formatDateAnchorsForPrompt(anchors: DateAnchor[]): string {
+  if (anchors.length === 0) return "";
+  const lines = anchors.map((anchor) => `- "${anchor.phrase}" = ${anchor.date} (${formatDateKey(anchor.date, { weekday: "long" }, "en-US")})`);
+  return `\n\nDates already resolved from the input (use exactly these for these phrases):\n${lines.join("\n")}`;
+}
@@ -1,6 +1,19 @@
 import { sql } from "@vercel/postgres";
 import { drizzle } from "drizzle-orm/vercel-postgres";
-import { pgTable, serial, text, boolean, timestamp, jsonb, integer } from "drizzle-orm/pg-core";
+import { pgTable, serial, text, boolean, timestamp, jsonb, integer, doublePrecision, index, uniqueIndex, type AnyPgColumn } from "drizzle-orm/pg-core";
+
+// Define the projects table schema (containers for todos)
+export const projects = pgTable("projects", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull(), // Clerk user ID
+  name: text("name").notNull(),
+  color: text("color").default("#8b5cf6").notNull(), // Hex color for the switcher dot
+  archived: boolean("archived").default(false).notNull(),
+  sortOrder: integer("sort_order").default(0).notNull(),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
 
 // Define the todos table schema
 export const todos = pgTable("todos", {
@@ -12,14 +25,109 @@ export const todos = pgTable("todos", {
   // AI-enhanced fields
   tags: jsonb("tags").$type<string[]>().default([]).notNull(),
   priority: text("priority").$type<"high" | "medium" | "low">().default("medium").notNull(),
-  dueDate: timestamp("due_date"),
+  dueDate: timestamp("due_date"), // Calendar day it's due (UTC midnight), kept in step with dueAt
   context: text("context"), // Original snippet from ramble
   aiGenerated: boolean("ai_generated").default(false).notNull(),
+  recurrence: text("recurrence"), // RRULE string, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU"
+
+  // Schedule: dates (UTC midnight) for all-day todos, exact instants for timed ones
+  startAt: timestamp("start_at"), // When it becomes actionable; hidden from Today until then
+  dueAt: timestamp("due_at"),
+  allDay: boolean("all_day").default(true).notNull(),
+  snoozedUntil: timestamp("snoozed_until"), // Hidden from the list until then
+
+  // Hierarchy: subtasks point at their parent todo (deleted along with it)
+  parentId: integer("parent_id").references((): AnyPgColumn => todos.id, { onDelete: "cascade" }),
+
+  // Optional project container (todos fall back to the inbox if the project is deleted)
+  projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }),
+
+  // Soft delete: trashed todos keep their row until restored or purged
+  deletedAt: timestamp("deleted_at"),
 
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Define the todo batches table schema (idempotency records for POST /api/todos/batch)
+export const todoBatches = pgTable(
+  "todo_batches",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    draftId: text("draft_id").notNull(), // Client-supplied key; retries of the same draft reuse it
+    todoIds: jsonb("todo_ids").$type<number[]>().default([]).notNull(), // Every todo created, subtasks included
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [uniqueIndex("idx_todo_batches_user_draft").on(table.userId, table.draftId)]
+);
+
+// One exchange in a query session: what was asked and which todos the answer matched
+export interface QueryTurn {
+  question: string;
+  intent: string;
+  response: string;
+  matchingTodoIds: number[];
+}
+
+// Define the query sessions table schema (short-term memory so query box follow-ups can refer back)
+export const querySessions = pgTable(
+  "query_sessions",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    turns: jsonb("turns").$type<QueryTurn[]>().default([]).notNull(), // Oldest first, only the most recent few
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(), // Last question; idle sessions expire
+  },
+  (table) => [index("idx_query_sessions_user_id").on(table.userId)]
+);
+
+// Define the saved views table schema (named filter combinations shown as smart lists)
+export const savedViews = pgTable(
+  "saved_views",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    name: text("name").notNull(),
+    query: text("query").notNull(), // Filters as GET /api/todos parameters, e.g. "priority=high&tag=work&due=this-week"
+    sortOrder: integer("sort_order").default(0).notNull(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_saved_views_user_id").on(table.userId)]
+);
+
+// Define the drafts table schema (raw rambles waiting for the server-side AI pipeline)
+export const drafts = pgTable(
+  "drafts",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    clientId: text("client_id"), // Optional client-generated key so resubmitting the same draft is a no-op
+    text: text("text").notNull(),
+    source: text("source").default("web").notNull(), // "web", "api", "email", ...
+    projectId: integer("project_id").references(() => projects.id, { onDelete: "set null" }), // Default project for created todos
+    querySessionId: integer("query_session_id").references(() => querySessions.id, { onDelete: "set null" }), // Conversation a question continues
+
+    // Pipeline state
+    status: text("status").$type<"queued" | "processing" | "completed" | "query" | "review" | "error">().default("queued").notNull(),
+    attempts: integer("attempts").default(0).notNull(),
+    error: text("error"),
+    result: jsonb("result"), // Created todos, query answer or review candidates (see DraftResult)
+    nextAttemptAt: timestamp("next_attempt_at"), // Backoff after a failed attempt
+    lockedAt: timestamp("locked_at"), // Set while a worker is processing it
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+    updatedAt: timestamp("updated_at").defaultNow().notNull(),
+    completedAt: timestamp("completed_at"),
+  },
+  (table) => [uniqueIndex("idx_drafts_user_client").on(table.userId, table.clientId)]
+);
+
 // Define the usage tracking table schema
 export const usage = pgTable("usage", {
   id: serial("id").primaryKey(),
@@ -35,10 +143,76 @@ export const usage = pgTable("usage", {
   lastAnthropicModel: text("last_anthropic_model"),
   lastOpenaiModel: text("last_openai_model"),
 
+  // Start of the current period; resetting archives the counters to usage_periods and moves this forward
+  periodStartedAt: timestamp("period_started_at").defaultNow().notNull(),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
 
+// Archived usage periods: a snapshot of the counters (and ledger totals) taken each time stats are reset
+export const usagePeriods = pgTable(
+  "usage_periods",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    startedAt: timestamp("started_at").notNull(),
+    endedAt: timestamp("ended_at").notNull(),
+
+    totalRequests: integer("total_requests").default(0).notNull(),
+    extractRequests: integer("extract_requests").default(0).notNull(),
+    queryRequests: integer("query_requests").default(0).notNull(),
+    anthropicRequests: integer("anthropic_requests").default(0).notNull(),
+    openaiRequests: integer("openai_requests").default(0).notNull(),
+
+    // From the ai_requests ledger over the same window
+    inputTokens: integer("input_tokens").default(0).notNull(),
+    outputTokens: integer("output_tokens").default(0).notNull(),
+    estimatedCostUsd: doublePrecision("estimated_cost_usd").default(0).notNull(),
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_usage_periods_user_ended").on(table.userId, table.endedAt)]
+);
+
+// Append-only ledger: one row per AI provider call (repairs and escalations included)
+export const aiRequests = pgTable(
+  "ai_requests",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    route: text("route").notNull(), // Entry point: "api/ai/extract", "api/ai/query", "drafts"
+    task: text("task").notNull(), // "extract" | "query"
+    provider: text("provider").notNull(),
+    model: text("model").notNull(),
+    tier: text("tier").notNull(), // "fast" | "advanced"
+    escalated: boolean("escalated").default(false).notNull(),
+    outcome: text("outcome").notNull(), // "success" | "invalid" (failed validation) | "error"
+    error: text("error"),
+
+    inputTokens: integer("input_tokens"), // Null when the provider didn't report usage
+    outputTokens: integer("output_tokens"),
+    latencyMs: integer("latency_ms").notNull(),
+    estimatedCostUsd: doublePrecision("estimated_cost_usd"), // Null for models without a known price
+
+    createdAt: timestamp("created_at").defaultNow().notNull(),
+  },
+  (table) => [index("idx_ai_requests_user_created").on(table.userId, table.createdAt)]
+);
+
+// Per-minute rate limit: one row per user-facing AI request, reserved before its first provider call
+export const aiRequestSlots = pgTable(
+  "ai_request_slots",
+  {
+    id: serial("id").primaryKey(),
+    userId: text("user_id").notNull(), // Clerk user ID
+    route: text("route").notNull(), // Entry point that spent the slot, as in ai_requests
+
+    createdAt: timestamp("created_at").defaultNow().notNull(), // Rows older than a minute are deleted as new ones come in
+  },
+  (table) => [index("idx_ai_request_slots_user_created").on(table.userId, table.createdAt)]
+);
+
 // Define the user profiles table schema
 export const userProfiles = pgTable("user_profiles", {
   id: serial("id").primaryKey(),
@@ -58,6 +232,32 @@ export const userProfiles = pgTable("user_profiles", {
   // General context for AI
   bio: text("bio"),
 
+  // IANA time zone (e.g. "Europe/Berlin"); decides what "today" means for prompts, grouping and recurrence
+  timezone: text("timezone"),
+
+  createdAt: timestamp("created_at").defaultNow().notNull(),
+  updatedAt: timestamp("updated_at").defaultNow().notNull(),
+});
+
+// Define the user preferences table schema (per-user app settings)
+export const userPreferences = pgTable("user_preferences", {
+  id: serial("id").primaryKey(),
+  userId: text("user_id").notNull().unique(), // Clerk user ID
+
+  // Show AI-extracted todos in a review tray instead of saving them straight away
+  reviewBeforeSave: boolean("review_before_save").default(false).notNull(),
+
+  // Providers to try in order (e.g. ["local", "anthropic"]); null = deployment default
+  aiProviderOrder: jsonb("ai_provider_order").$type<string[]>(),
+
+  // Personal AI quotas; null = the deployment limit (they can only be set lower)
+  aiRequestsPerMinute: integer("ai_requests_per_minute"),
+  aiDailyTokenBudget: integer("ai_daily_token_budget"),
+  aiDailyCostBudgetUsd: doublePrecision("ai_daily_cost_budget_usd"),
+
+  // Profile fields that may be sent to AI providers (e.g. ["occupation", "schedule"]); null = the default set
+  aiSharedProfileFields: jsonb("ai_shared_profile_fields").$type<string[]>(),
+
   createdAt: timestamp("created_at").defaultNow().notNull(),
   updatedAt: timestamp("updated_at").defaultNow().notNull(),
 });
@@ -66,9 +266,22 @@ export const userProfiles = pgTable("user_profiles", {
 export const db = drizzle(sql);
 
 // Export types for TypeScript
+export type Project = typeof projects.$inferSelect;
+export type NewProject = typeof projects.$inferInsert;
 export type Todo = typeof todos.$inferSelect;
 export type NewTodo = typeof todos.$inferInsert;
+export type TodoBatch = typeof todoBatches.$inferSelect;
+export type QuerySession = typeof querySessions.$inferSelect;
+export type SavedView = typeof savedViews.$inferSelect;
+export type Draft = typeof drafts.$inferSelect;
+export type NewDraft = typeof drafts.$inferInsert;
 export type Usage = typeof usage.$inferSelect;
 export type NewUsage = typeof usage.$inferInsert;
+export type UsagePeriod = typeof usagePeriods.$inferSelect;
+export type AIRequest = typeof aiRequests.$inferSelect;
+export type NewAIRequest = typeof aiRequests.$inferInsert;
+export type AIRequestSlot = typeof aiRequestSlots.$inferSelect;
 export type UserProfile = typeof userProfiles.$inferSelect;
 export type NewUserProfile = typeof userProfiles.$inferInsert;
+export type UserPreferences = typeof userPreferences.$inferSelect;
+export type NewUserPreferences = typeof userPreferences.$inferInsert;
@@ -0,0 +1,91 @@
+/**
+ * Crash-safe storage for the client-side draft outbox (browser only)
+ * Drafts are kept in IndexedDB until the server pipeline has them, so a refresh, closed tab
+ * or dropped connection doesn't lose unsent rambles. Submitted drafts remember their server ID
+ * so the page can resume polling for the result.
+ */
+
+export interface Draft {
+  id: string; // client-generated id (also the batch idempotency key)
+  userId: string; // Clerk user the draft belongs to
+  text: string;
+  status: "queued" | "processing" | "error"; // "processing" = submitting, or waiting on the server
+  serverId?: number; // Set once POST /api/drafts accepted it
+  preview?: string[]; // Todos the server has extracted so far (while processing)
+  error?: string;
+  attempts: number; // Failed processing attempts so far
+  nextAttemptAt?: string; // ISO; queued drafts wait until then (backoff)
+  createdAt: string; // ISO
+}
+
+const DB_NAME = "todoish";
+const DB_VERSION = 1;
+const STORE = "drafts";
+
+// Automatic retries before a draft is parked in the "error" state for a manual retry
+export const MAX_AUTO_RETRIES = 4;
+const BASE_RETRY_DELAY_MS = 2000;
+const MAX_RETRY_DELAY_MS = 60000;
+
+/**
+ * Backoff before the next automatic attempt: 2s, 4s, 8s... capped at a minute, with jitter
+ * so several failed drafts don't hammer the API in lockstep.
+ */
+export function getRetryDelay(attempts: number): number {
+  const delay = Math.min(BASE_RETRY_DELAY_MS * 2 ** Math.max(attempts - 1, 0), MAX_RETRY_DELAY_MS);
+  return Math.round(delay * (0.8 + Math.random() * 0.4));
+}
+
+function isAvailable(): boolean {
+  return typeof window !== "undefined" && "indexedDB" in window;
+}
+
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const store = request.result.createObjectStore(STORE, { keyPath: "id" });
+      store.createIndex("userId", "userId");
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+async function withStore<T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T> | void): Promise<T | undefined> {
+  const database = await openDatabase();
+  try {
+    return await new Promise<T | undefined>((resolve, reject) => {
+      const transaction = database.transaction(STORE, mode);
+      const request = run(transaction.objectStore(STORE));
+      transaction.oncomplete = () => resolve(request ? request.result : undefined);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    database.close();
+  }
+}
+
+/**
+ * Load a user's saved drafts, newest first (the order the queue keeps them in).
+ * Drafts that were mid-submit when the page went away are re-queued; submitted ones resume polling.
+ */
+export async function loadDrafts(userId: string): Promise<Draft[]> {
+  if (!isAvailable()) return [];
+
+  const drafts = (await withStore<Draft[]>("readonly", (store) => store.index("userId").getAll(userId))) ?? [];
+  return drafts
+    .map((draft) => (draft.status === "processing" && draft.serverId === undefined ? { ...draft, status: "queued" as const } : draft))
+    .sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function saveDraft(draft: Draft): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore("readwrite", (store) => store.put(draft));
+}
+
+export async function deleteDraft(id: string): Promise<void> {
+  if (!isAvailable()) return;
+  await withStore("readwrite", (store) => store.delete(id));
+}
@@ -0,0 +1,30 @@
+import { after, describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { eq } from "drizzle-orm";
+import { aiRequests, aiRequestSlots, db, drafts, querySessions, todoBatches, todos, usage } from "@/lib/db";
+import { runDraftWorker } from "@/lib/drafts";
+
+// Runs the worker against a real database with the offline provider; skipped without POSTGRES_URL
+const userId = `test-drafts-${Date.now()}`;
+
+describe("runDraftWorker", { skip: !process.env.POSTGRES_URL && "needs POSTGRES_URL" }, () => {
+  after(async () => {
+    for (const table of [drafts, todos, todoBatches, aiRequests, aiRequestSlots, usage, querySessions]) {
+      await db.delete(table).where(eq(table.userId, userId));
+    }
+  });
+
+  it("takes one rate-limit slot per draft for detection and extraction together", async () => {
+    process.env.AI_PROVIDER_ORDER = "mock";
+    const [draft] = await db.insert(drafts).values({ userId, text: "buy milk. call the plumber" }).returning();
+
+    assert.equal(await runDraftWorker({ userId, draftId: draft.id }), 1);
+
+    const [processed] = await db.select().from(drafts).where(eq(drafts.id, draft.id));
+    assert.equal(processed.status, "completed");
+    const calls = await db.select().from(aiRequests).where(eq(aiRequests.userId, userId));
+    assert.deepEqual(calls.map((call) => call.task).sort(), ["extract", "query"]);
+    const slots = await db.select().from(aiRequestSlots).where(eq(aiRequestSlots.userId, userId));
+    assert.equal(slots.length, 1);
+  });
+});
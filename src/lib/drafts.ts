@@ -0,0 +1,271 @@
+import { db, drafts, type Draft } from "@/lib/db";
+import { and, asc, desc, eq, inArray, sql } from "drizzle-orm";
+import { streamTodosForUser, toTodoPayload, type ExtractedTodo } from "@/lib/extraction";
+import { detectQuery, type QueryDetectionResult } from "@/lib/queryDetection";
+import { getUserPreferences } from "@/lib/preferences";
+import { AIBudgetExceededError, enforceAIBudget } from "@/lib/aiBudget";
+import { insertTodoBatch, parseTodoInput, type TodoInput, type TodoWithSubtasks } from "@/lib/todos";
+import { getUserTimeZone } from "@/lib/profileContext";
+import { loadQuerySession, parseQuerySessionId, recordQueryTurn } from "@/lib/querySessions";
+
+// Failed attempts before a draft is parked in "error" for a manual retry
+export const MAX_DRAFT_ATTEMPTS = 4;
+
+// A draft stuck in "processing" this long is assumed orphaned (worker died) and picked up again
+const STALE_LOCK_MINUTES = 5;
+
+const BASE_RETRY_DELAY_MS = 5000;
+const MAX_DRAFT_TEXT_LENGTH = 10000;
+
+// What a draft produced: todos found so far while processing, or the final outcome
+export type DraftResult =
+  | { partial: ExtractedTodo[] } // "processing": extraction still streaming
+  | { todos: TodoWithSubtasks[] } // "completed": todos that were created
+  | { query: QueryDetectionResult } // "query": the input was a question, not new todos
+  | { candidates: ExtractedTodo[] }; // "review": extracted todos waiting for the user to accept
+
+export interface DraftInput {
+  text: string;
+  clientId: string | null;
+  source: string;
+  projectId: number | null;
+  querySessionId: number | null; // Conversation a question continues (null = a fresh one)
+}
+
+/**
+ * Validate a draft submission from a request body
+ */
+export function parseDraftInput(body: unknown): { value: DraftInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+  const { text, clientId, source, projectId, querySessionId } = body as Record<string, unknown>;
+
+  if (typeof text !== "string" || text.trim() === "") {
+    return { error: "Text is required and must be a non-empty string" };
+  }
+  if (text.length > MAX_DRAFT_TEXT_LENGTH) {
+    return { error: `Text must be at most ${MAX_DRAFT_TEXT_LENGTH} characters` };
+  }
+  if (clientId !== undefined && clientId !== null && (typeof clientId !== "string" || clientId === "" || clientId.length > 200)) {
+    return { error: "Client ID must be a non-empty string (max 200 characters)" };
+  }
+  if (source !== undefined && (typeof source !== "string" || !/^[a-z0-9_-]{1,32}$/.test(source))) {
+    return { error: "Source must be a short lowercase identifier (e.g. web, email)" };
+  }
+  if (projectId !== undefined && projectId !== null && (typeof projectId !== "number" || !Number.isInteger(projectId))) {
+    return { error: "Project ID must be an integer" };
+  }
+  const session = parseQuerySessionId(querySessionId);
+  if ("error" in session) {
+    return session;
+  }
+
+  return {
+    value: {
+      text: text.trim(),
+      clientId: typeof clientId === "string" ? clientId : null,
+      source: typeof source === "string" ? source : "web",
+      projectId: typeof projectId === "number" ? projectId : null,
+      querySessionId: session.value,
+    },
+  };
+}
+
+/**
+ * Queue a draft for processing. Resubmitting a clientId the user already used returns the existing draft.
+ */
+export async function createDraft(userId: string, input: DraftInput): Promise<{ draft: Draft; created: boolean }> {
+  const [created] = await db
+    .insert(drafts)
+    .values({ userId, ...input })
+    .onConflictDoNothing()
+    .returning();
+  if (created) {
+    return { draft: created, created: true };
+  }
+
+  const [existing] = await db
+    .select()
+    .from(drafts)
+    .where(and(eq(drafts.userId, userId), eq(drafts.clientId, input.clientId!)))
+    .limit(1);
+  return { draft: existing, created: false };
+}
+
+/**
+ * A user's drafts, newest first (optionally only the given ids)
+ */
+export async function getUserDrafts(userId: string, ids?: number[]): Promise<Draft[]> {
+  const condition = ids ? and(eq(drafts.userId, userId), inArray(drafts.id, ids)) : eq(drafts.userId, userId);
+  return db.select().from(drafts).where(condition).orderBy(desc(drafts.createdAt)).limit(100);
+}
+
+/**
+ * Send an errored draft back to the queue with a fresh set of attempts
+ */
+export async function retryDraft(userId: string, id: number): Promise<Draft | null> {
+  const [draft] = await db
+    .update(drafts)
+    .set({ status: "queued", attempts: 0, error: null, nextAttemptAt: null, lockedAt: null, updatedAt: new Date() })
+    .where(and(eq(drafts.id, id), eq(drafts.userId, userId), eq(drafts.status, "error")))
+    .returning();
+  return draft ?? null;
+}
+
+export async function deleteDraft(userId: string, id: number): Promise<boolean> {
+  const deleted = await db
+    .delete(drafts)
+    .where(and(eq(drafts.id, id), eq(drafts.userId, userId)))
+    .returning({ id: drafts.id });
+  return deleted.length > 0;
+}
+
+/**
+ * Atomically lock up to `limit` due drafts for this worker (queued and past their backoff, or
+ * orphaned in "processing"). SKIP LOCKED lets several workers run without grabbing the same draft.
+ * An orphaned draft counts as a failed attempt (its worker most likely timed out on it), so one that
+ * keeps killing workers is parked in "error" instead of being picked up forever.
+ */
+async function claimDrafts(limit: number, filter: { userId?: string; draftId?: number }): Promise<Draft[]> {
+  const scope = sql`${filter.userId ? sql`AND user_id = ${filter.userId}` : sql``} ${filter.draftId ? sql`AND id = ${filter.draftId}` : sql``}`;
+  await db.execute(sql`
+    UPDATE drafts
+    SET status = 'error', attempts = attempts + 1, error = 'Processing was interrupted too many times', result = NULL, locked_at = NULL, next_attempt_at = NULL, updated_at = now()
+    WHERE status = 'processing' AND locked_at < now() - make_interval(mins => ${STALE_LOCK_MINUTES}) AND attempts + 1 >= ${MAX_DRAFT_ATTEMPTS}
+    ${scope}
+  `);
+
+  const result = await db.execute<{ id: number }>(sql`
+    UPDATE drafts
+    SET status = 'processing', attempts = attempts + CASE WHEN status = 'processing' THEN 1 ELSE 0 END, locked_at = now(), updated_at = now()
+    WHERE id IN (
+      SELECT id FROM drafts
+      WHERE (
+        (status = 'queued' AND (next_attempt_at IS NULL OR next_attempt_at <= now()))
+        OR (status = 'processing' AND locked_at < now() - make_interval(mins => ${STALE_LOCK_MINUTES}))
+      )
+      ${scope}
+      ORDER BY created_at
+      LIMIT ${limit}
+      FOR UPDATE SKIP LOCKED
+    )
+    RETURNING id
+  `);
+  const ids = result.rows.map((row) => Number(row.id));
+  if (ids.length === 0) return [];
+
+  return db.select().from(drafts).where(inArray(drafts.id, ids)).orderBy(asc(drafts.createdAt));
+}
+
+// Turn model output into validated todo input, filling in the draft's context and default project
+function toTodoInputs(extracted: ExtractedTodo[], draft: Draft, timeZone: string): TodoInput[] {
+  const inputs: TodoInput[] = [];
+  for (const todo of extracted) {
+    const parsed = parseTodoInput({
+      ...toTodoPayload(todo, timeZone),
+      context: todo.context || draft.text,
+      projectId: todo.projectId ?? draft.projectId,
+      aiGenerated: true,
+    });
+    if ("value" in parsed) {
+      inputs.push(parsed.value);
+    } else {
+      console.warn(`Draft ${draft.id}: skipping invalid extracted todo (${parsed.error})`);
+    }
+  }
+  return inputs;
+}
+
+/**
+ * Run one claimed draft through the pipeline: query detection, then extraction, then either an
+ * idempotent batch insert or (in review mode) storing the candidates for the user to accept.
+ */
+async function processDraft(draft: Draft): Promise<void> {
+  try {
+    // One budget slot for the whole draft, shared by detection and extraction
+    const reservation = await enforceAIBudget(draft.userId, "drafts");
+    const history = await loadQuerySession(draft.userId, draft.querySessionId);
+    const queryResult = await detectQuery(draft.text, draft.userId, "drafts", history, reservation);
+    if (queryResult.isQuery) {
+      const { intent, response, matchingTodoIds } = queryResult;
+      const sessionId = await recordQueryTurn(draft.userId, draft.querySessionId, { question: draft.text, intent, response, matchingTodoIds });
+      await finishDraft(draft, "query", { query: { ...queryResult, sessionId } });
+      return;
+    }
+
+    // Publish each todo as the model streams it so pollers can show real progress
+    const extracted: ExtractedTodo[] = [];
+    for await (const todo of streamTodosForUser(draft.text, draft.userId, "drafts", reservation)) {
+      extracted.push(todo);
+      const partial: DraftResult = { partial: extracted };
+      await db.update(drafts).set({ result: partial, updatedAt: new Date() }).where(eq(drafts.id, draft.id));
+    }
+
+    const { reviewBeforeSave } = await getUserPreferences(draft.userId);
+    if (reviewBeforeSave) {
+      const candidates = extracted.map((todo) => ({ ...todo, context: todo.context || draft.text, projectId: todo.projectId ?? draft.projectId }));
+      await finishDraft(draft, "review", { candidates });
+      return;
+    }
+
+    // Keyed by draft so a retry after a crash mid-pipeline never duplicates todos
+    const inputs = toTodoInputs(extracted, draft, await getUserTimeZone(draft.userId));
+    const created = inputs.length > 0 ? (await insertTodoBatch(draft.userId, `draft-${draft.id}`, inputs)).todos : [];
+    await finishDraft(draft, "completed", { todos: created });
+  } catch (error) {
+    // Over budget isn't a failure: wait until the quota frees up without using an attempt
+    if (error instanceof AIBudgetExceededError) {
+      console.log(`Draft ${draft.id} deferred ${error.retryAfterSeconds}s: ${error.message}`);
+      await db
+        .update(drafts)
+        .set({
+          status: "queued",
+          error: error.message,
+          result: null,
+          nextAttemptAt: new Date(Date.now() + error.retryAfterSeconds * 1000),
+          lockedAt: null,
+          updatedAt: new Date(),
+        })
+        .where(eq(drafts.id, draft.id));
+      return;
+    }
+
+    const message = error instanceof Error ? error.message : "Unknown error";
+    console.error(`Draft ${draft.id} failed (attempt ${draft.attempts + 1}):`, message);
+
+    const attempts = draft.attempts + 1;
+    const exhausted = attempts >= MAX_DRAFT_ATTEMPTS;
+    await db
+      .update(drafts)
+      .set({
+        status: exhausted ? "error" : "queued",
+        attempts,
+        error: message,
+        result: null,
+        nextAttemptAt: exhausted ? null : new Date(Date.now() + BASE_RETRY_DELAY_MS * 2 ** (attempts - 1)),
+        lockedAt: null,
+        updatedAt: new Date(),
+      })
+      .where(eq(drafts.id, draft.id));
+  }
+}
+
+async function finishDraft(draft: Draft, status: "completed" | "query" | "review", result: DraftResult): Promise<void> {
+  await db
+    .update(drafts)
+    .set({ status, result, error: null, lockedAt: null, nextAttemptAt: null, updatedAt: new Date(), completedAt: new Date() })
+    .where(eq(drafts.id, draft.id));
+}
+
+/**
+ * Worker entry point: claim due drafts and process them one at a time.
+ * Scope to a user or a single draft for the on-submit path; the cron job runs it unscoped.
+ */
+export async function runDraftWorker(options: { limit?: number; userId?: string; draftId?: number } = {}): Promise<number> {
+  const claimed = await claimDrafts(options.limit ?? 10, options);
+  for (const draft of claimed) {
+    await processDraft(draft);
+  }
+  return claimed.length;
+}
@@ -0,0 +1,352 @@
+import { buildRepairRequest, completeChecked, completeValidated, getUserProviders, parseJsonResponse, type AIProvider, type CompletionRequest, type RequestContext } from "@/lib/aiProviders";
+import { recordAIRequest, type AIRoute, type RequestOutcome } from "@/lib/aiLedger";
+import { validateExtractedTodo, validateExtractionResponse } from "@/lib/aiSchemas";
+import { trackUsage } from "@/lib/trackUsage";
+import { budgetModelSelection, selectExtractionModel } from "@/lib/modelSelector";
+import { enforceAIBudget, type BudgetReservation } from "@/lib/aiBudget";
+import { normalizeRecurrence } from "@/lib/recurrence";
+import { getUserProjects } from "@/lib/projects";
+import { formatProfileForPrompt, getProfileSummary, getUserTimeZone } from "@/lib/profileContext";
+import { describeToday, todayKey, toScheduleInput } from "@/lib/timezone";
+import { formatDateAnchorsForPrompt, reconcileDueDate, resolveDateExpressions, type DateAnchor } from "@/lib/dateParser";
+import type { Project } from "@/lib/db";
+
+// Interface for extracted todo items
+export interface ExtractedTodo {
+  text: string;
+  tags: string[];
+  priority: "high" | "medium" | "low";
+  dueDate: string | null; // YYYY-MM-DD
+  dueTime: string | null; // HH:MM (24-hour, the user's local time); null for all-day
+  startDate: string | null; // YYYY-MM-DD the task becomes actionable
+  startTime: string | null; // HH:MM
+  context: string;
+  recurrence: string | null; // RRULE string, e.g. "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU"
+  subtasks?: ExtractedTodo[]; // Steps of a larger task, same shape
+  projectId?: number | null; // Existing project the ramble clearly refers to
+}
+
+// System prompt for AI extraction; dates are relative to the user's today, not the server's
+const buildSystemPrompt = (timeZone: string) => `You are an AI assistant that extracts actionable todo items from natural language text. 
+
+Your task is to:
+1. Extract individual, distinct todo items from rambling or unstructured text
+2. Assign relevant tags (work, personal, urgent, home, health, finance, etc.)
+3. Determine priority (high, medium, low) based on urgency indicators
+4. Infer due dates from temporal references (tomorrow, next week, Friday, etc.), with times of day when given
+5. Preserve context by noting the original snippet
+6. Detect repeating schedules (every day, every other Tuesday, monthly, etc.)
+7. Group the steps of a larger task as subtasks of that task
+
+Current date: ${describeToday(timeZone)}
+
+Return ONLY valid JSON with this exact structure:
+{
+  "todos": [
+    {
+      "text": "Clear, actionable todo item",
+      "tags": ["tag1", "tag2"],
+      "priority": "high|medium|low",
+      "dueDate": "YYYY-MM-DD" or null,
+      "dueTime": "HH:MM" or null,
+      "startDate": "YYYY-MM-DD" or null,
+      "startTime": "HH:MM" or null,
+      "context": "Original snippet from input",
+      "recurrence": "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU" or null,
+      "subtasks": [ { same fields as a todo, without nested subtasks } ],
+      "projectId": 12 or null
+    }
+  ]
+}
+
+Rules:
+- Extract only actionable items (not observations or questions)
+- Keep todo text concise but complete
+- Use lowercase for tags
+- Set dueDate to null if no temporal reference exists
+- For "tomorrow", calculate from current date
+- For "next week", use next Monday
+- For specific days like "Friday", use the next upcoming Friday
+- Set dueTime (24-hour, the user's local time) only when the text gives a time of day: "call the dentist at 3pm" = "15:00", "by noon" = "12:00". Otherwise null - the task is all-day
+- Set startDate only when the text says when the task can start or isn't relevant before ("starting Monday", "not before the 15th", "after I'm back next week"); dueDate stays the deadline. startTime follows the same rules as dueTime
+- Priority: high = urgent/important, medium = normal, low = someday/maybe
+- Set recurrence to null unless the task explicitly repeats
+- Recurrence uses RRULE syntax with only FREQ (DAILY, WEEKLY, MONTHLY, YEARLY), INTERVAL, BYDAY (MO,TU,WE,TH,FR,SA,SU), BYMONTHDAY (1-31, MONTHLY/YEARLY only), COUNT and UNTIL (YYYYMMDD)
+- "every other Tuesday" = "FREQ=WEEKLY;INTERVAL=2;BYDAY=TU", "every weekday" = "FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "monthly" = "FREQ=MONTHLY"
+- For recurring tasks, set dueDate to the first upcoming occurrence
+- When the input names a larger task and then lists its steps ("plan the offsite: book venue, send invites, order food"), return ONE todo for the larger task with the steps as its subtasks, not separate siblings
+- Use an empty subtasks array for standalone tasks; only nest one level deep
+- Set projectId only when the text clearly refers to one of the user's existing projects (listed below); otherwise null. Never invent project IDs`;
+
+// Describe the user's projects so the model can file todos into them
+function formatProjectsForPrompt(projects: Project[]): string {
+  if (projects.length === 0) {
+    return "\n\nUser's projects: none (always use projectId null)";
+  }
+  return `\n\nUser's projects:\n${projects.map((p) => `ID ${p.id}: ${p.name}`).join("\n")}`;
+}
+
+/**
+ * Incrementally pull complete todo objects out of a streamed `{"todos": [{...}, {...}]}` response.
+ * Feed it chunks as they arrive; it returns the todos whose closing brace arrived in that chunk.
+ */
+export function createTodoStreamParser(): (chunk: string) => unknown[] {
+  let buffer = "";
+  let scanned = 0;
+  let depth = 0; // 1 = root object, 2 = todos array, 3 = a todo
+  let inString = false;
+  let escaped = false;
+  let todoStart = -1;
+
+  return (chunk: string) => {
+    buffer += chunk;
+    const todos: unknown[] = [];
+
+    for (let i = scanned; i < buffer.length; i++) {
+      const char = buffer[i];
+      if (inString) {
+        if (escaped) escaped = false;
+        else if (char === "\\") escaped = true;
+        else if (char === '"') inString = false;
+        continue;
+      }
+
+      if (char === '"') {
+        inString = true;
+      } else if (char === "{" || char === "[") {
+        depth++;
+        if (char === "{" && depth === 3) todoStart = i;
+      } else if (char === "}" || char === "]") {
+        if (char === "}" && depth === 3 && todoStart >= 0) {
+          try {
+            todos.push(JSON.parse(buffer.slice(todoStart, i + 1)));
+          } catch {
+            console.warn("Skipping unparseable streamed todo");
+          }
+          todoStart = -1;
+        }
+        depth--;
+      }
+    }
+
+    scanned = buffer.length;
+    return todos;
+  };
+}
+
+// Prompt pieces shared by every provider
+// What a user's prompt is built from: their projects, shared profile, time zone and the date phrases resolved up front
+interface ExtractionContext {
+  projects: Project[];
+  projectIds: Set<number>;
+  profile: string;
+  timeZone: string;
+  anchors: DateAnchor[];
+}
+
+async function loadExtractionContext(text: string, userId: string): Promise<ExtractionContext> {
+  const [projects, profile, timeZone] = await Promise.all([getUserProjects(userId), getProfileSummary(userId), getUserTimeZone(userId)]);
+  return {
+    projects,
+    projectIds: new Set(projects.map((p) => p.id)),
+    profile,
+    timeZone,
+    anchors: resolveDateExpressions(text, todayKey(timeZone)),
+  };
+}
+
+function buildExtractionRequest(text: string, model: string, extraction: ExtractionContext, context: RequestContext): CompletionRequest {
+  return {
+    task: "extract",
+    system: `${buildSystemPrompt(extraction.timeZone)}${formatProjectsForPrompt(extraction.projects)}${formatProfileForPrompt(extraction.profile)}${formatDateAnchorsForPrompt(extraction.anchors)}`,
+    prompt: `Extract todos from this text:\n\n"${text}"`,
+    input: text,
+    model,
+    context,
+  };
+}
+
+// Main extraction function: walk the user's providers in order with intelligent model selection
+async function extractTodos(text: string, userId: string, extraction: ExtractionContext, route: AIRoute): Promise<ExtractedTodo[]> {
+  const providers = await getUserProviders(userId);
+  if (providers.length === 0) {
+    throw new Error("No AI provider configured");
+  }
+  const errors: string[] = [];
+
+  // Intelligently select model based on complexity, unless the user's budget is running low
+  const { downgrade } = await enforceAIBudget(userId, route);
+  const modelSelection = downgrade ? budgetModelSelection() : selectExtractionModel(text);
+  console.log(`Model selection: ${modelSelection.tier} tier - ${modelSelection.reason}`);
+
+  const context: RequestContext = { userId, route, tier: modelSelection.tier, escalated: false };
+  for (const provider of providers) {
+    const model = provider.pickModel(modelSelection);
+    try {
+      console.log(`Attempting extraction with ${provider.label} (${model})...`);
+      const todos = await completeValidated(provider, buildExtractionRequest(text, model, extraction, context), validateExtractionResponse);
+      await trackUsage(userId, "extract", provider.name, model);
+      return todos;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`${provider.label} extraction failed:`, errorMessage);
+      errors.push(`${provider.label}: ${errorMessage}`);
+    }
+  }
+
+  throw new Error(`All AI providers failed: ${errors.join("; ")}`);
+}
+
+// Normalize model output recursively (recurrence rules, subtask arrays, unknown project IDs, due dates that
+// contradict a date phrase in the todo's own snippet)
+export function sanitizeExtractedTodo(todo: ExtractedTodo, projectIds: Set<number>, anchors: DateAnchor[] = []): ExtractedTodo {
+  const dueDate = reconcileDueDate(todo, anchors);
+  // A start the pinned due date now comes before is dropped rather than left contradicting it
+  const keepStart = !todo.startDate || !dueDate || todo.startDate <= dueDate;
+  return {
+    ...todo,
+    dueDate,
+    dueTime: dueDate ? todo.dueTime : null,
+    startDate: keepStart ? todo.startDate : null,
+    startTime: keepStart ? todo.startTime : null,
+    recurrence: normalizeRecurrence(todo.recurrence),
+    projectId: typeof todo.projectId === "number" && projectIds.has(todo.projectId) ? todo.projectId : null,
+    subtasks: Array.isArray(todo.subtasks) ? todo.subtasks.map((subtask) => sanitizeExtractedTodo(subtask, projectIds, anchors)) : [],
+  };
+}
+
+/**
+ * An extracted todo (and its subtasks) as a POST /api/todos payload: the local dates and times become
+ * dueAt/startAt in the user's time zone
+ */
+export function toTodoPayload(todo: ExtractedTodo, timeZone: string): Record<string, unknown> {
+  const { dueDate, dueTime, startDate, startTime, subtasks, ...rest } = todo;
+  return {
+    ...rest,
+    ...toScheduleInput({ dueDate, dueTime, startDate, startTime }, timeZone),
+    subtasks: (subtasks ?? []).map((subtask) => toTodoPayload(subtask, timeZone)),
+  };
+}
+
+/**
+ * Extract todos from a ramble for a user: runs the model with the user's projects (and the profile
+ * fields they share) in the prompt, then drops recurrence rules we can't schedule and projects that don't exist,
+ * and pins due dates to the date phrases resolved from the text
+ */
+export async function extractTodosForUser(text: string, userId: string, route: AIRoute): Promise<ExtractedTodo[]> {
+  const extraction = await loadExtractionContext(text, userId);
+  return (await extractTodos(text, userId, extraction, route)).map((todo) => sanitizeExtractedTodo(todo, extraction.projectIds, extraction.anchors));
+}
+
+// Validate a streamed response as a whole ({"todos": []} is a valid answer)
+function checkWholeResponse(output: string): { value: ExtractedTodo[] } | { error: string } {
+  const parsed = parseJsonResponse(output);
+  return "error" in parsed ? parsed : validateExtractionResponse(parsed.value);
+}
+
+/**
+ * One repair round-trip for what a stream got wrong: the streamed todos that failed validation, or
+ * the whole response when no todo could be pulled out of it. Returns the todos that now validate.
+ */
+async function repairStreamedTodos(provider: AIProvider, request: CompletionRequest, invalidOutput: string, errors: string): Promise<ExtractedTodo[]> {
+  console.warn(`${provider.label} streamed invalid output, requesting a repair: ${errors}`);
+  const repaired = await completeChecked(provider, buildRepairRequest(request, invalidOutput, errors), validateExtractionResponse);
+  if ("error" in repaired) {
+    throw new Error(`Invalid response after repair: ${repaired.error}`);
+  }
+  return repaired.value;
+}
+
+/**
+ * Streaming variant of extractTodosForUser: yields validated, sanitized todos as the model produces them.
+ * Invalid items are held back and repaired in one round-trip once the stream ends.
+ * Falls back to the next provider only if one fails before emitting anything - switching providers
+ * mid-answer would hand the caller duplicates of the todos it already received.
+ * Pass `reservation` when the caller already took the request's budget slot.
+ */
+export async function* streamTodosForUser(text: string, userId: string, route: AIRoute, reservation?: BudgetReservation): AsyncGenerator<ExtractedTodo> {
+  const extraction = await loadExtractionContext(text, userId);
+
+  const providers = await getUserProviders(userId);
+  if (providers.length === 0) {
+    throw new Error("No AI provider configured");
+  }
+
+  const { downgrade } = reservation ?? (await enforceAIBudget(userId, route));
+  const modelSelection = downgrade ? budgetModelSelection() : selectExtractionModel(text);
+  console.log(`Model selection: ${modelSelection.tier} tier - ${modelSelection.reason}`);
+  const errors: string[] = [];
+  const context: RequestContext = { userId, route, tier: modelSelection.tier, escalated: false };
+
+  for (const provider of providers) {
+    const model = provider.pickModel(modelSelection);
+    const request = buildExtractionRequest(text, model, extraction, context);
+    const parse = createTodoStreamParser();
+    const invalid: { raw: unknown; error: string }[] = [];
+    let output = "";
+    let seen = 0;
+    let emitted = 0;
+    let streamed = false; // The stream itself finished (later failures are repair/validation problems)
+    const startedAt = Date.now();
+    try {
+      console.log(`Attempting streaming extraction with ${provider.label} (${model})...`);
+      // Iterate by hand: the generator's return value carries the token usage
+      const stream = provider.stream(request);
+      let next = await stream.next();
+      for (; !next.done; next = await stream.next()) {
+        const chunk = next.value;
+        output += chunk;
+        for (const raw of parse(chunk)) {
+          seen++;
+          const checked = validateExtractedTodo(raw, `todos[${invalid.length}]`);
+          if ("error" in checked) {
+            invalid.push({ raw, error: checked.error });
+            continue;
+          }
+          emitted++;
+          yield sanitizeExtractedTodo(checked.value, extraction.projectIds, extraction.anchors);
+        }
+      }
+      streamed = true;
+
+      // Repairs below are recorded as their own calls; this row covers the stream itself
+      const wholeCheck = seen === 0 ? checkWholeResponse(output) : null;
+      const outcome: RequestOutcome = invalid.length > 0 || (wholeCheck && "error" in wholeCheck) ? "invalid" : "success";
+      const problems = wholeCheck && "error" in wholeCheck ? wholeCheck.error : invalid.map((item) => item.error).join("; ");
+      await recordAIRequest(provider.name, request, { outcome, usage: next.value, latencyMs: Date.now() - startedAt, error: outcome === "invalid" ? problems : undefined });
+
+      // Nothing came out of the stream: use (or repair) the response as a whole
+      let repairs: ExtractedTodo[] = [];
+      if (wholeCheck) {
+        repairs = "error" in wholeCheck ? await repairStreamedTodos(provider, request, output, wholeCheck.error) : wholeCheck.value;
+      } else if (invalid.length > 0) {
+        const invalidOutput = JSON.stringify({ todos: invalid.map((item) => item.raw) });
+        try {
+          repairs = await repairStreamedTodos(provider, request, invalidOutput, invalid.map((item) => item.error).join("; "));
+        } catch (error) {
+          // The valid todos are already out; losing the broken ones beats failing the whole extraction
+          console.error(`Dropping ${invalid.length} invalid streamed todo(s):`, error instanceof Error ? error.message : error);
+        }
+      }
+      for (const todo of repairs) {
+        emitted++;
+        yield sanitizeExtractedTodo(todo, extraction.projectIds, extraction.anchors);
+      }
+
+      await trackUsage(userId, "extract", provider.name, model);
+      return;
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`${provider.label} streaming extraction failed:`, errorMessage);
+      if (!streamed) {
+        await recordAIRequest(provider.name, request, { outcome: "error", usage: null, latencyMs: Date.now() - startedAt, error: errorMessage });
+      }
+      if (emitted > 0) {
+        throw new Error(`${provider.label} failed mid-stream: ${errorMessage}`);
+      }
+      errors.push(`${provider.label}: ${errorMessage}`);
+    }
+  }
+
+  throw new Error(`All AI providers failed: ${errors.join("; ")}`);
+}
@@ -0,0 +1,132 @@
+import { db, userPreferences, type UserPreferences } from "@/lib/db";
+import { eq } from "drizzle-orm";
+import { parseProviderOrder, type ProviderName } from "@/lib/aiProviders";
+import { getDeploymentLimits } from "@/lib/aiBudget";
+import { parseProfileFields, PROFILE_FIELDS, type ProfileField } from "@/lib/profileFields";
+
+// Preferences exposed to the client (everything except bookkeeping columns)
+export interface PreferenceValues {
+  reviewBeforeSave: boolean;
+  aiProviderOrder: ProviderName[] | null; // null = use the deployment's order
+  // Personal AI quotas; null = the deployment limit
+  aiRequestsPerMinute: number | null;
+  aiDailyTokenBudget: number | null;
+  aiDailyCostBudgetUsd: number | null;
+  aiSharedProfileFields: ProfileField[] | null; // null = DEFAULT_SHARED_PROFILE_FIELDS
+}
+
+export const DEFAULT_PREFERENCES: PreferenceValues = {
+  reviewBeforeSave: false,
+  aiProviderOrder: null,
+  aiRequestsPerMinute: null,
+  aiDailyTokenBudget: null,
+  aiDailyCostBudgetUsd: null,
+  aiSharedProfileFields: null,
+};
+
+function toPreferenceValues(row: UserPreferences): PreferenceValues {
+  return {
+    reviewBeforeSave: row.reviewBeforeSave,
+    // Drop orders saved before a provider was renamed or removed
+    aiProviderOrder: row.aiProviderOrder ? parseProviderOrder(row.aiProviderOrder) : null,
+    aiRequestsPerMinute: row.aiRequestsPerMinute,
+    aiDailyTokenBudget: row.aiDailyTokenBudget,
+    aiDailyCostBudgetUsd: row.aiDailyCostBudgetUsd,
+    // Drop fields that are no longer shareable
+    aiSharedProfileFields: row.aiSharedProfileFields ? row.aiSharedProfileFields.filter((field): field is ProfileField => (PROFILE_FIELDS as readonly string[]).includes(field)) : null,
+  };
+}
+
+// A personal limit: null to clear it, otherwise positive and no higher than the deployment allows
+function parseLimit(value: unknown, label: string, max: number, integer: boolean): { value: number | null } | { error: string } {
+  if (value === null) return { value: null };
+  if (typeof value !== "number" || !Number.isFinite(value) || value <= 0 || (integer && !Number.isInteger(value))) {
+    return { error: `${label} must be a positive ${integer ? "integer" : "number"} or null` };
+  }
+  if (value > max) {
+    return { error: `${label} can't be higher than the limit of ${max}` };
+  }
+  return { value };
+}
+
+/**
+ * Validate a partial preferences update from a request body
+ */
+export function parsePreferencesInput(body: unknown): { value: Partial<PreferenceValues> } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+  const { reviewBeforeSave, aiProviderOrder, aiRequestsPerMinute, aiDailyTokenBudget, aiDailyCostBudgetUsd, aiSharedProfileFields } = body as Record<string, unknown>;
+  const value: Partial<PreferenceValues> = {};
+
+  if (reviewBeforeSave !== undefined) {
+    if (typeof reviewBeforeSave !== "boolean") {
+      return { error: "Review before save must be a boolean" };
+    }
+    value.reviewBeforeSave = reviewBeforeSave;
+  }
+
+  if (aiProviderOrder !== undefined) {
+    if (aiProviderOrder === null) {
+      value.aiProviderOrder = null;
+    } else {
+      const order = Array.isArray(aiProviderOrder) ? parseProviderOrder(aiProviderOrder) : null;
+      if (!order) {
+        return { error: "AI provider order must be a non-empty list of distinct providers (anthropic, openai, local, mock)" };
+      }
+      value.aiProviderOrder = order;
+    }
+  }
+
+  if (aiSharedProfileFields !== undefined) {
+    if (aiSharedProfileFields === null) {
+      value.aiSharedProfileFields = null;
+    } else {
+      const fields = parseProfileFields(aiSharedProfileFields);
+      if (!fields) {
+        return { error: `Shared profile fields must be a list of distinct fields (${PROFILE_FIELDS.join(", ")})` };
+      }
+      value.aiSharedProfileFields = fields;
+    }
+  }
+
+  const limits = getDeploymentLimits();
+  const budgetFields = [
+    { key: "aiRequestsPerMinute", input: aiRequestsPerMinute, label: "Requests per minute", max: limits.requestsPerMinute, integer: true },
+    { key: "aiDailyTokenBudget", input: aiDailyTokenBudget, label: "Daily token budget", max: limits.dailyTokens, integer: true },
+    { key: "aiDailyCostBudgetUsd", input: aiDailyCostBudgetUsd, label: "Daily cost budget", max: limits.dailyCostUsd, integer: false },
+  ] as const;
+  for (const field of budgetFields) {
+    if (field.input === undefined) continue;
+    const parsed = parseLimit(field.input, field.label, field.max, field.integer);
+    if ("error" in parsed) {
+      return parsed;
+    }
+    value[field.key] = parsed.value;
+  }
+
+  return { value };
+}
+
+/**
+ * A user's preferences, falling back to the defaults if they never changed anything
+ */
+export async function getUserPreferences(userId: string): Promise<PreferenceValues> {
+  const rows = await db.select().from(userPreferences).where(eq(userPreferences.userId, userId)).limit(1);
+  if (rows.length === 0) {
+    return { ...DEFAULT_PREFERENCES };
+  }
+  return toPreferenceValues(rows[0]);
+}
+
+/**
+ * Apply a partial update, creating the preferences row on first write
+ */
+export async function updateUserPreferences(userId: string, changes: Partial<PreferenceValues>): Promise<PreferenceValues> {
+  const [saved] = await db
+    .insert(userPreferences)
+    .values({ userId, ...DEFAULT_PREFERENCES, ...changes })
+    .onConflictDoUpdate({ target: userPreferences.userId, set: { ...changes, updatedAt: new Date() } })
+    .returning();
+  return toPreferenceValues(saved);
+}
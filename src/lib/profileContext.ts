@@ -0,0 +1,70 @@
+/**
+ * Profile context for AI prompts
+ * A short summary of the user's profile lets the models resolve personal references ("after work",
+ * "before bed") and pick tags that fit the user's life. Users choose which fields leave the app;
+ * only those are ever formatted into a prompt.
+ */
+import { db, userProfiles, type UserProfile } from "@/lib/db";
+import { eq } from "drizzle-orm";
+import { getUserPreferences } from "@/lib/preferences";
+import { DEFAULT_TIME_ZONE, isValidTimeZone } from "@/lib/timezone";
+import { DEFAULT_SHARED_PROFILE_FIELDS, type ProfileField } from "@/lib/profileFields";
+
+const MAX_BIO_LENGTH = 500;
+
+/**
+ * Format the shared parts of a profile as prompt lines; "" when there is nothing to share
+ */
+export function formatProfileSummary(profile: UserProfile, fields: ProfileField[]): string {
+  const lines: string[] = [];
+
+  if (fields.includes("occupation") && profile.occupation?.trim()) {
+    lines.push(`- Occupation: ${profile.occupation.trim()}`);
+  }
+  if (fields.includes("schedule")) {
+    const wake = profile.currentWakeTime ? `wakes at ${profile.currentWakeTime}${profile.idealWakeTime && profile.idealWakeTime !== profile.currentWakeTime ? ` (aiming for ${profile.idealWakeTime})` : ""}` : null;
+    const bed = profile.currentBedtime ? `goes to bed at ${profile.currentBedtime}${profile.idealBedtime && profile.idealBedtime !== profile.currentBedtime ? ` (aiming for ${profile.idealBedtime})` : ""}` : null;
+    if (wake || bed) {
+      lines.push(`- Schedule: ${[wake, bed].filter(Boolean).join(", ")}`);
+    }
+  }
+  if (fields.includes("age") && profile.age) {
+    lines.push(`- Age: ${profile.age}`);
+  }
+  if (fields.includes("gender") && profile.gender?.trim()) {
+    lines.push(`- Gender: ${profile.gender.trim()}`);
+  }
+  if (fields.includes("bio") && profile.bio?.trim()) {
+    lines.push(`- About them: ${profile.bio.trim().slice(0, MAX_BIO_LENGTH)}`);
+  }
+
+  return lines.join("\n");
+}
+
+/**
+ * Wrap a summary as a prompt section; "" when there is nothing to add
+ */
+export function formatProfileForPrompt(summary: string): string {
+  if (!summary) return "";
+  return `\n\nAbout the user (use this to interpret personal references like "after work", "tonight" or "before bed" against their schedule, and to choose tags that fit their life; never repeat it back):\n${summary}`;
+}
+
+/**
+ * The profile summary a user has agreed to share with AI providers; "" without a profile or consent
+ */
+export async function getProfileSummary(userId: string): Promise<string> {
+  const preferences = await getUserPreferences(userId);
+  const fields = preferences.aiSharedProfileFields ?? DEFAULT_SHARED_PROFILE_FIELDS;
+  if (fields.length === 0) return "";
+
+  const [profile] = await db.select().from(userProfiles).where(eq(userProfiles.userId, userId)).limit(1);
+  return profile ? formatProfileSummary(profile, fields) : "";
+}
+
+/**
+ * The user's IANA time zone from their profile, UTC until they have one
+ */
+export async function getUserTimeZone(userId: string): Promise<string> {
+  const [profile] = await db.select({ timezone: userProfiles.timezone }).from(userProfiles).where(eq(userProfiles.userId, userId)).limit(1);
+  return profile && isValidTimeZone(profile.timezone) ? profile.timezone : DEFAULT_TIME_ZONE;
+}
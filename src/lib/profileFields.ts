@@ -0,0 +1,32 @@
+/**
+ * Profile fields a user can share with AI providers. Shared by the server (prompts, preference validation)
+ * and the browser (the settings checkboxes), so it stays free of database imports.
+ */
+
+// Shareable field groups; "schedule" covers the wake and bed times
+export const PROFILE_FIELDS = ["occupation", "schedule", "bio", "age", "gender"] as const;
+export type ProfileField = (typeof PROFILE_FIELDS)[number];
+
+// What's shared until the user chooses: the fields entered as AI context, not demographics
+export const DEFAULT_SHARED_PROFILE_FIELDS: ProfileField[] = ["occupation", "schedule", "bio"];
+
+export const PROFILE_FIELD_LABELS: Record<ProfileField, string> = {
+  occupation: "Occupation",
+  schedule: "Wake & bed times",
+  bio: "About me",
+  age: "Age",
+  gender: "Gender",
+};
+
+/**
+ * Parse a list of profile fields (distinct, known names). An empty list is valid: share nothing.
+ */
+export function parseProfileFields(value: unknown): ProfileField[] | null {
+  if (!Array.isArray(value)) return null;
+  const fields: ProfileField[] = [];
+  for (const field of value) {
+    if (!PROFILE_FIELDS.includes(field) || fields.includes(field)) return null;
+    fields.push(field);
+  }
+  return fields;
+}
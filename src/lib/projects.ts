@@ -0,0 +1,70 @@
+import { db, projects, type Project } from "@/lib/db";
+import { and, asc, eq } from "drizzle-orm";
+
+const HEX_COLOR = /^#[0-9a-f]{6}$/i;
+
+export interface ProjectInput {
+  name?: string;
+  color?: string;
+  archived?: boolean;
+  sortOrder?: number;
+}
+
+/**
+ * Validate project fields from a request body.
+ * With `requireName`, the name must be present (creation); otherwise every field is optional (update).
+ */
+export function parseProjectInput(body: unknown, requireName: boolean): { value: ProjectInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+  const { name, color, archived, sortOrder } = body as Record<string, unknown>;
+  const value: ProjectInput = {};
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== "string" || name.trim() === "") {
+      return { error: "Name is required and must be a non-empty string" };
+    }
+    value.name = name.trim();
+  }
+  if (color !== undefined) {
+    if (typeof color !== "string" || !HEX_COLOR.test(color)) {
+      return { error: "Color must be a hex color like #8b5cf6" };
+    }
+    value.color = color.toLowerCase();
+  }
+  if (archived !== undefined) {
+    if (typeof archived !== "boolean") {
+      return { error: "Archived must be a boolean" };
+    }
+    value.archived = archived;
+  }
+  if (sortOrder !== undefined) {
+    if (typeof sortOrder !== "number" || !Number.isInteger(sortOrder)) {
+      return { error: "Sort order must be an integer" };
+    }
+    value.sortOrder = sortOrder;
+  }
+
+  return { value };
+}
+
+/**
+ * Projects for a user in display order (archived ones excluded unless requested)
+ */
+export async function getUserProjects(userId: string, includeArchived = false): Promise<Project[]> {
+  const condition = includeArchived ? eq(projects.userId, userId) : and(eq(projects.userId, userId), eq(projects.archived, false));
+  return db.select().from(projects).where(condition).orderBy(asc(projects.sortOrder), asc(projects.createdAt));
+}
+
+/**
+ * Check that a project exists and belongs to the user
+ */
+export async function isUserProject(userId: string, projectId: number): Promise<boolean> {
+  const rows = await db
+    .select({ id: projects.id })
+    .from(projects)
+    .where(and(eq(projects.id, projectId), eq(projects.userId, userId)))
+    .limit(1);
+  return rows.length > 0;
+}
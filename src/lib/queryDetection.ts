@@ -0,0 +1,213 @@
+import { completeValidated, getUserProviders, type AIProvider, type CompletionRequest, type RequestContext } from "@/lib/aiProviders";
+import type { AIRoute } from "@/lib/aiLedger";
+import { validateQueryResponse } from "@/lib/aiSchemas";
+import { trackUsage } from "@/lib/trackUsage";
+import { enforceAIBudget, type BudgetReservation } from "@/lib/aiBudget";
+import { formatProfileForPrompt, getProfileSummary, getUserTimeZone } from "@/lib/profileContext";
+import { describeToday, todayKey, toZonedISOString, zonedDateTime } from "@/lib/timezone";
+import { SNOOZE_MORNING } from "@/lib/snooze";
+import { buildChangeSet, type TodoAction, type TodoChange } from "@/lib/todoActions";
+import { formatSessionForPrompt } from "@/lib/querySessions";
+import { fillResponseTemplate, findMatchingTodos, loadFilterContext, type TodoFilter } from "@/lib/queryFilter";
+import type { QueryTurn } from "@/lib/db";
+import { formatDateAnchorsForPrompt, resolveDateExpressions } from "@/lib/dateParser";
+import { selectQueryModel, budgetModelSelection, escalateModelSelection, validateQueryResults, isLowConfidence, MAX_ESCALATIONS_PER_REQUEST, type ModelSelectionResult } from "@/lib/modelSelector";
+
+// Result of deciding whether an input is a question about the todos or new todos
+export interface QueryDetectionResult {
+  isQuery: boolean;
+  intent: string;
+  keywords: string[];
+  response: string;
+  filter?: TodoFilter; // Questions and commands: which todos they're about, as run against the database
+  matchingTodoIds: number[];
+  snoozeUntil?: string; // Snooze intent: timestamp with the user's offset to snooze matchingTodoIds until
+  action?: TodoAction; // Action intents: what to do to matchingTodoIds
+  changes?: TodoChange[]; // ...and the resulting change set, applied once the user confirms it
+  followUp?: boolean; // Refers back to the previous answer; matchingTodoIds are narrowed to its todos
+  sessionId?: number; // Query session to continue with the next question
+  confidence?: number;
+  confidenceReason?: string;
+}
+
+// The model's part of a result, before its filter is run
+export type QueryResponse = Omit<QueryDetectionResult, "matchingTodoIds" | "changes" | "sessionId">;
+
+// Todo fields a query result is worked out from (as loaded by findMatchingTodos)
+export interface QueryTodo {
+  id: number;
+  text: string;
+  tags?: string[];
+  priority?: string;
+  dueDate?: string | Date | null;
+  dueAt?: string | Date | null;
+  startAt?: string | Date | null;
+  allDay?: boolean;
+  completed: boolean;
+}
+
+/**
+ * Classify an input as a query or todo creation. For queries the model only writes a filter, which is
+ * run against the user's todos to find the matches. `history` is the query session so far, for
+ * follow-up questions.
+ * Walks the user's providers in order; on the provider that answers, starts on the model tier picked
+ * by selectQueryModel and escalates once on low-confidence results. Pass `reservation` when the caller
+ * already took the request's budget slot.
+ */
+export async function detectQuery(text: string, userId: string, route: AIRoute, history: QueryTurn[] = [], reservation?: BudgetReservation): Promise<QueryDetectionResult> {
+  const providers = await getUserProviders(userId);
+  if (providers.length === 0) {
+    throw new Error("No AI provider configured");
+  }
+
+  // Intelligently select model based on complexity; a user low on budget stays on the fast tier without escalating
+  const { downgrade } = reservation ?? (await enforceAIBudget(userId, route));
+  const modelSelection = downgrade ? budgetModelSelection() : selectQueryModel(text);
+  console.log(`Model selection: ${modelSelection.tier} tier - ${modelSelection.reason}`);
+  const [profile, timeZone, filterContext] = await Promise.all([getProfileSummary(userId), getUserTimeZone(userId), loadFilterContext(userId)]);
+  const query: QueryInput = { text, history, profile, timeZone, ...filterContext };
+
+  const errors: string[] = [];
+  for (const provider of providers) {
+    try {
+      return await detectWithProvider(provider, query, { userId, route, tier: modelSelection.tier, escalated: false }, modelSelection, !downgrade);
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : "Unknown error";
+      console.error(`${provider.label} query detection failed:`, errorMessage);
+      errors.push(`${provider.label}: ${errorMessage}`);
+    }
+  }
+
+  throw new Error(`All AI providers failed: ${errors.join("; ")}`);
+}
+
+// Everything a classification attempt works from
+interface QueryInput {
+  text: string;
+  history: QueryTurn[];
+  profile: string;
+  timeZone: string;
+  tags: string[]; // Tags in use, listed for the model
+  todoCount: number;
+}
+
+async function detectWithProvider(provider: AIProvider, query: QueryInput, context: RequestContext, modelSelection: ModelSelectionResult, canEscalate: boolean): Promise<QueryDetectionResult> {
+  // Track escalations to prevent runaway costs
+  let escalationCount = 0;
+
+  let model = provider.pickModel(modelSelection);
+  console.log(`Using ${provider.label} for query detection (${model})`);
+  let result = await classify(provider, query, model, context);
+  await trackUsage(context.userId, "query", provider.name, model);
+
+  // Check for low confidence or suspicious results if we used fast model
+  if (canEscalate && modelSelection.tier === "fast" && escalationCount < MAX_ESCALATIONS_PER_REQUEST) {
+    const confidenceCheck = isLowConfidence(result);
+    const validationCheck = validateQueryResults(result, query.text, query.todoCount);
+
+    if (confidenceCheck.isLow || !validationCheck.isValid) {
+      const escalationReason = confidenceCheck.reason || validationCheck.reason || "Low confidence";
+      console.log(`⚠️ ESCALATION: ${escalationReason}`);
+      if (confidenceCheck.confidence !== undefined) {
+        console.log(`   Original confidence: ${confidenceCheck.confidence.toFixed(2)}`);
+      }
+      escalationCount++;
+
+      // Retry with advanced model
+      const escalation = escalateModelSelection(escalationReason);
+      model = provider.pickModel(escalation);
+      result = await classify(provider, query, model, { ...context, tier: escalation.tier, escalated: true });
+      await trackUsage(context.userId, "query", provider.name, model);
+      console.log(`✅ Escalation complete - used advanced model`);
+    }
+  }
+
+  return result;
+}
+
+function buildQueryPrompt({ text, history, profile, timeZone, tags }: QueryInput): string {
+  return `You are a smart todo assistant. Analyze this user input and determine if it's a QUERY/QUESTION about their todos, a SNOOZE or ACTION command for existing todos, or if it's TODO CREATION input.
+
+USER INPUT: "${text}"
+
+TODAY: ${describeToday(timeZone)}${formatDateAnchorsForPrompt(resolveDateExpressions(text, todayKey(timeZone)))}
+
+TAGS IN USE: ${tags.join(", ") || "none"}${formatProfileForPrompt(profile)}${formatSessionForPrompt(history)}
+
+You don't see the todos. For questions and commands, describe which todos they're about as a FILTER; it is run against the user's todos to find the matches:
+- { "type": "all" } - every todo
+- { "type": "tag", "tag": "work" } - tagged with this tag
+- { "type": "priority", "priorities": ["high"] } - priority is one of these ("high", "medium", "low")
+- { "type": "status", "status": "active" | "completed" }
+- { "type": "due", "from": day | null, "to": day | null } - due on a day in this range, inclusive (both null: has any due date). A day is relative when the question is ("today", "today+6", "today-1", "monday" for this week's Monday, "monday+7" for next week's) so the filter still holds tomorrow, or "YYYY-MM-DD" for a date the user names
+- { "type": "text", "term": "dentist" } - the todo's text or notes contain this word
+- { "type": "and" | "or", "filters": [...] } and { "type": "not", "filter": {...} } to combine them (at most 4 levels deep)
+
+Respond in JSON format:
+{
+  "isQuery": boolean,
+  "intent": "filter_by_tag" | "filter_by_priority" | "filter_by_date" | "filter_by_status" | "summarize" | "search" | "todo_creation" | "snooze" | "complete" | "delete" | "retag" | "reschedule" | "reprioritize",
+  "keywords": ["word1", "word2"],
+  "filter": { ... } (required when isQuery is true),
+  "response": "A natural language answer; write {count} for the number of matching todos and {titles} for their titles",
+  "followUp": boolean (true when the input refers back to the previous answer),
+  "snoozeUntil": "YYYY-MM-DD" or "YYYY-MM-DDTHH:MM" (snooze intent only, the user's local time),
+  "action": { "addTags": [], "removeTags": [], "dueDate": "YYYY-MM-DD", "priority": "high" | "medium" | "low" } (action intents only: tags for retag, dueDate for reschedule, priority for reprioritize),
+  "confidence": 0.95,
+  "confidenceReason": "Clear intent with specific keywords"
+}
+
+IMPORTANT: 
+- Only filter on tags from TAGS IN USE; for other topics use a text filter. Dates in filters are the user's local calendar days; fixed ones are worked out from TODAY.
+- "Overdue" means active and due before today. Unless the user asks about finished todos, questions are about active ones.
+- Include a confidence score (0-1) indicating how certain you are about this classification.
+- Provide a brief reason for your confidence level.
+- If the input follows up on the conversation ("which of those are overdue?", "mark them done", "what about the work ones?"), set followUp: true and write the filter for the new condition only; matches are limited to the previous answer's todos. A new, unrelated question is followUp: false.
+- Asking to snooze, defer or hide existing todos until later is a snooze command (isQuery: true, intent: "snooze"), not todo creation. The filter picks the todos to snooze; leave the time off snoozeUntil unless the user gives one.
+- Commands to change existing todos are actions (isQuery: true), not todo creation: "complete" (mark done), "delete", "retag" (add or remove tags), "reschedule" (move the due date) and "reprioritize". The filter picks every todo the command applies to. Nothing changes until the user confirms, so the response describes the proposed change ("This will mark {count} todos done").
+
+Examples:
+- "What's urgent?" → isQuery: true, intent: "filter_by_priority", keywords: ["urgent", "high"], filter: { "type": "and", "filters": [{ "type": "priority", "priorities": ["high"] }, { "type": "status", "status": "active" }] }, response: "You have {count} urgent tasks: {titles}.", confidence: 0.95, confidenceReason: "Clear priority filter request"
+- "Show me work stuff" → isQuery: true, intent: "filter_by_tag", keywords: ["work"], filter: { "type": "and", "filters": [{ "type": "tag", "tag": "work" }, { "type": "status", "status": "active" }] }, response: "Here are your {count} work todos.", confidence: 0.9, confidenceReason: "Specific tag filter"
+- "What's overdue?" → isQuery: true, intent: "filter_by_date", keywords: ["overdue"], filter: { "type": "and", "filters": [{ "type": "status", "status": "active" }, { "type": "due", "from": null, "to": "today-1" }] }, response: "{count} todos are overdue.", confidence: 0.9, confidenceReason: "Date range query"
+- "What's next week?" → isQuery: true, intent: "filter_by_date", keywords: ["next week"], filter: { "type": "and", "filters": [{ "type": "status", "status": "active" }, { "type": "due", "from": "monday+7", "to": "monday+13" }] }, response: "You have {count} tasks next week.", confidence: 0.85, confidenceReason: "Date range query"
+- "snooze the dentist thing until Monday" → isQuery: true, intent: "snooze", keywords: ["dentist"], filter: { "type": "and", "filters": [{ "type": "text", "term": "dentist" }, { "type": "status", "status": "active" }] }, response: "Snoozed {titles} until Monday.", snoozeUntil: "Monday's date as YYYY-MM-DD", confidence: 0.9, confidenceReason: "Explicit snooze command"
+- "mark all grocery items done" → isQuery: true, intent: "complete", keywords: ["grocery"], filter: { "type": "and", "filters": [{ "type": "tag", "tag": "grocery" }, { "type": "status", "status": "active" }] }, response: "This will mark {count} grocery todos done.", confidence: 0.9, confidenceReason: "Explicit bulk completion"
+- "move everything tagged work to Friday" → isQuery: true, intent: "reschedule", keywords: ["work"], filter: { "type": "and", "filters": [{ "type": "tag", "tag": "work" }, { "type": "status", "status": "active" }] }, response: "This will move {count} work todos to Friday.", action: { "dueDate": "Friday's date as YYYY-MM-DD" }, confidence: 0.9, confidenceReason: "Explicit reschedule command"
+- "buy groceries tomorrow" → isQuery: false, intent: "todo_creation", keywords: [], response: "", confidence: 0.98, confidenceReason: "Clear action item with future date"`;
+}
+
+async function classify(provider: AIProvider, query: QueryInput, model: string, context: RequestContext): Promise<QueryDetectionResult> {
+  const request: CompletionRequest = {
+    task: "query",
+    system: "You classify todo app input and turn questions about the user's todos into filters. Respond with JSON only.",
+    prompt: buildQueryPrompt(query),
+    input: query.text,
+    model,
+    maxTokens: 1024,
+    context,
+  };
+  const validated = await completeValidated(provider, request, validateQueryResponse);
+  if (!validated.filter) {
+    return { ...validated, matchingTodoIds: [] };
+  }
+
+  // Follow-ups narrow the previous answer: only todos it matched can match again
+  const previous = query.history[query.history.length - 1];
+  const found = await findMatchingTodos(context.userId, validated.filter, query.timeZone);
+  const matches = validated.followUp && previous ? found.filter((todo) => previous.matchingTodoIds.includes(todo.id)) : found;
+  const result: QueryDetectionResult = { ...validated, response: fillResponseTemplate(validated.response, matches), matchingTodoIds: matches.map((todo) => todo.id) };
+
+  if (result.snoozeUntil) {
+    return { ...result, snoozeUntil: resolveSnoozeUntil(result.snoozeUntil, query.timeZone) };
+  }
+  if (result.action) {
+    return { ...result, changes: buildChangeSet(result.action, matches, query.timeZone) };
+  }
+  return result;
+}
+// The model's local snooze date ("2026-10-19", optionally "T14:00") as a timestamp; dates alone mean the morning
+function resolveSnoozeUntil(local: string, timeZone: string): string {
+  const [date, time] = local.split("T");
+  return toZonedISOString(zonedDateTime(date, time ?? SNOOZE_MORNING, timeZone), timeZone);
+}
@@ -0,0 +1,117 @@
+/**
+ * Structured todo filters for the query box. The model only translates a question into a filter
+ * ("urgent work stuff due this week" -> and(tag work, priority high, due this week)); the filter is then
+ * run against the database here, so matches are exact and the prompt never has to carry the todo list.
+ */
+import { db, todos } from "@/lib/db";
+import { and, count, eq, gte, ilike, inArray, isNotNull, isNull, lte, not, or, sql, type SQL } from "drizzle-orm";
+import { addDaysToKey, dateKeyToDate, todayKey } from "@/lib/timezone";
+import type { QueryTodo } from "@/lib/queryDetection";
+
+// Dates are the user's local calendar days, matched against each todo's due day: fixed ("YYYY-MM-DD") or
+// relative (see RELATIVE_DAY), so a filter saved as a view keeps meaning "this week"
+export type TodoFilter =
+  | { type: "all" }
+  | { type: "tag"; tag: string }
+  | { type: "priority"; priorities: ("high" | "medium" | "low")[] }
+  | { type: "status"; status: "active" | "completed" }
+  | { type: "due"; from: string | null; to: string | null } // Inclusive; both null = has a due date
+  | { type: "text"; term: string } // Text or original context contains the term
+  | { type: "and" | "or"; filters: TodoFilter[] }
+  | { type: "not"; filter: TodoFilter };
+
+export const MAX_FILTER_DEPTH = 4;
+
+// "today", "today+6", "today-1", or "monday", "monday+7" (Monday of the current week; weeks start on Monday)
+export const RELATIVE_DAY = /^(today|monday)([+-]\d{1,3})?$/;
+
+// Tags listed in the prompt, so the model filters on tags the user actually has
+const MAX_PROMPT_TAGS = 100;
+
+// How many matching titles a response's {titles} placeholder names before "and N more"
+const MAX_RESPONSE_TITLES = 3;
+
+function escapeLikePattern(term: string): string {
+  return term.replace(/[\\%_]/g, "\\$&");
+}
+
+/**
+ * A due filter bound as a calendar day: fixed dates as written, relative ones counted from the user's today
+ */
+export function resolveFilterDay(value: string, timeZone: string): string {
+  const match = value.match(RELATIVE_DAY);
+  if (!match) return value;
+  const today = todayKey(timeZone);
+  const base = match[1] === "today" ? today : addDaysToKey(today, -((dateKeyToDate(today).getUTCDay() + 6) % 7));
+  return addDaysToKey(base, Number(match[2] ?? 0));
+}
+
+/**
+ * The filter as a WHERE condition on the todos table. Negations treat unknowns (no due date, no context)
+ * as non-matches first, so "not due this week" includes undated todos. Relative days are resolved in
+ * `timeZone`.
+ */
+export function compileTodoFilter(filter: TodoFilter, timeZone: string): SQL {
+  switch (filter.type) {
+    case "all":
+      return sql`true`;
+    case "tag":
+      return sql`${todos.tags} @> ${JSON.stringify([filter.tag])}::jsonb`;
+    case "priority":
+      return inArray(todos.priority, filter.priorities);
+    case "status":
+      return eq(todos.completed, filter.status === "completed");
+    case "due": {
+      const from = filter.from ? gte(todos.dueDate, dateKeyToDate(resolveFilterDay(filter.from, timeZone))) : undefined;
+      const to = filter.to ? lte(todos.dueDate, dateKeyToDate(resolveFilterDay(filter.to, timeZone))) : undefined;
+      return and(isNotNull(todos.dueDate), from, to) ?? sql`true`;
+    }
+    case "text": {
+      const pattern = `%${escapeLikePattern(filter.term)}%`;
+      return or(ilike(todos.text, pattern), ilike(todos.context, pattern)) ?? sql`false`;
+    }
+    case "and":
+      return and(...filter.filters.map((part) => compileTodoFilter(part, timeZone))) ?? sql`true`;
+    case "or":
+      return or(...filter.filters.map((part) => compileTodoFilter(part, timeZone))) ?? sql`false`;
+    case "not":
+      return not(sql`coalesce(${compileTodoFilter(filter.filter, timeZone)}, false)`);
+  }
+}
+
+/**
+ * The user's todos (not trashed) that match the filter, oldest first
+ */
+export async function findMatchingTodos(userId: string, filter: TodoFilter, timeZone: string): Promise<QueryTodo[]> {
+  return db
+    .select({ id: todos.id, text: todos.text, tags: todos.tags, priority: todos.priority, dueDate: todos.dueDate, dueAt: todos.dueAt, startAt: todos.startAt, allDay: todos.allDay, completed: todos.completed })
+    .from(todos)
+    .where(and(eq(todos.userId, userId), isNull(todos.deletedAt), compileTodoFilter(filter, timeZone)))
+    .orderBy(todos.id);
+}
+
+/**
+ * What the model needs to know to write a filter (the tags in use) and what result checks compare
+ * against (how many todos there are)
+ */
+export async function loadFilterContext(userId: string): Promise<{ tags: string[]; todoCount: number }> {
+  const live = and(eq(todos.userId, userId), isNull(todos.deletedAt));
+  const [tagRows, [total]] = await Promise.all([
+    db
+      .selectDistinct({ tag: sql<string>`jsonb_array_elements_text(${todos.tags})` })
+      .from(todos)
+      .where(live),
+    db.select({ count: count() }).from(todos).where(live),
+  ]);
+  return { tags: tagRows.map((row) => row.tag).sort().slice(0, MAX_PROMPT_TAGS), todoCount: total?.count ?? 0 };
+}
+
+/**
+ * Fill in the placeholders of a model response: {count} is the number of matches, {titles} names them
+ */
+export function fillResponseTemplate(template: string, matches: QueryTodo[]): string {
+  const quoted = matches.slice(0, MAX_RESPONSE_TITLES).map((todo) => `"${todo.text}"`);
+  const rest = matches.length - quoted.length;
+  const titles = quoted.length === 0 ? "nothing" : rest > 0 ? `${quoted.join(", ")} and ${rest} more` : quoted.join(", ");
+  return template.replace(/\{count\}/g, String(matches.length)).replace(/\{titles\}/g, titles);
+}
@@ -0,0 +1,77 @@
+/**
+ * Query sessions: short-term memory for the query box, so "and which of those are overdue?" can refer
+ * back to the previous answer. A session keeps the last few turns and expires after a while without
+ * questions; the client starts a new one when the user dismisses the answer.
+ */
+import { db, querySessions, type QueryTurn } from "@/lib/db";
+import { and, eq, gt, lte } from "drizzle-orm";
+
+// Turns kept (and shown to the model); older ones drop off
+export const MAX_SESSION_TURNS = 6;
+
+// A session idle this long is over; the next question starts a new one
+const SESSION_IDLE_MINUTES = 30;
+
+function idleCutoff(): Date {
+  return new Date(Date.now() - SESSION_IDLE_MINUTES * 60 * 1000);
+}
+
+/**
+ * The turns of a user's live session (empty for no session, someone else's, or an expired one)
+ */
+export async function loadQuerySession(userId: string, sessionId: number | null): Promise<QueryTurn[]> {
+  if (sessionId === null) return [];
+  const [session] = await db
+    .select({ turns: querySessions.turns })
+    .from(querySessions)
+    .where(and(eq(querySessions.id, sessionId), eq(querySessions.userId, userId), gt(querySessions.updatedAt, idleCutoff())))
+    .limit(1);
+  return session?.turns ?? [];
+}
+
+/**
+ * Append a turn to the session (or start a new one if it's gone or expired). Returns the session ID to
+ * send with the next question.
+ */
+export async function recordQueryTurn(userId: string, sessionId: number | null, turn: QueryTurn): Promise<number> {
+  if (sessionId !== null) {
+    const turns = await loadQuerySession(userId, sessionId);
+    const [updated] = await db
+      .update(querySessions)
+      .set({ turns: [...turns, turn].slice(-MAX_SESSION_TURNS), updatedAt: new Date() })
+      .where(and(eq(querySessions.id, sessionId), eq(querySessions.userId, userId), gt(querySessions.updatedAt, idleCutoff())))
+      .returning({ id: querySessions.id });
+    if (updated) return updated.id;
+  }
+
+  const [created] = await db.insert(querySessions).values({ userId, turns: [turn] }).returning({ id: querySessions.id });
+  return created.id;
+}
+
+/**
+ * Retention job: delete sessions idle past the expiry (no question can resume them). Returns how many went.
+ */
+export async function purgeExpiredQuerySessions(): Promise<number> {
+  const purged = await db.delete(querySessions).where(lte(querySessions.updatedAt, idleCutoff())).returning({ id: querySessions.id });
+  return purged.length;
+}
+
+/**
+ * The conversation so far as a prompt section (empty for a first question)
+ */
+export function formatSessionForPrompt(turns: QueryTurn[]): string {
+  if (turns.length === 0) return "";
+  const lines = turns.map((turn, index) => `${index + 1}. User: "${turn.question}"\n   You (${turn.intent}): ${turn.response || "(no answer)"}\n   (matched ${turn.matchingTodoIds.length} todos)`);
+  return `\n\nCONVERSATION SO FAR (oldest first):\n${lines.join("\n")}`;
+}
+
+/**
+ * Parse a session ID from a request body (absent or null = start a new conversation)
+ */
+export function parseQuerySessionId(value: unknown): { value: number | null } | { error: string } {
+  if (value === undefined || value === null) return { value: null };
+  if (typeof value !== "number" || !Number.isInteger(value)) {
+    return { error: "Session ID must be an integer or null" };
+  }
+  return { value };
+}
@@ -0,0 +1,70 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { describeRecurrence, getNextOccurrence, normalizeRecurrence } from "@/lib/recurrence";
+
+function utc(date: string): Date {
+  return new Date(`${date}T00:00:00.000Z`);
+}
+
+// Follow a series through `count` completions, each done on its due date
+function series(rule: string, firstDue: string, count: number): string[] {
+  const dates: string[] = [];
+  let current = { recurrence: rule, dueDate: utc(firstDue) };
+  for (let i = 0; i < count; i++) {
+    const next = getNextOccurrence(current.recurrence, current.dueDate, current.dueDate);
+    assert.ok(next);
+    dates.push(next.dueDate.toISOString().slice(0, 10));
+    current = next;
+  }
+  return dates;
+}
+
+describe("getNextOccurrence", () => {
+  it("clamps monthly rules to short months and returns to the original day", () => {
+    assert.deepEqual(series("FREQ=MONTHLY", "2026-01-31", 4), ["2026-02-28", "2026-03-31", "2026-04-30", "2026-05-31"]);
+    assert.deepEqual(series("FREQ=MONTHLY", "2027-12-30", 3), ["2028-01-30", "2028-02-29", "2028-03-30"]);
+  });
+
+  it("keeps a leap day yearly series on Feb 29 when there is one", () => {
+    assert.deepEqual(series("FREQ=YEARLY", "2028-02-29", 4), ["2029-02-28", "2030-02-28", "2031-02-28", "2032-02-29"]);
+  });
+
+  it("follows a due date moved by hand instead of the carried day", () => {
+    const next = getNextOccurrence("FREQ=MONTHLY;BYMONTHDAY=31", utc("2026-03-15"), utc("2026-03-15"));
+    assert.equal(next?.dueDate.toISOString().slice(0, 10), "2026-04-15");
+    assert.equal(next?.recurrence, "FREQ=MONTHLY;BYMONTHDAY=15");
+  });
+
+  it("applies intervals", () => {
+    assert.deepEqual(series("FREQ=DAILY;INTERVAL=3", "2026-10-18", 2), ["2026-10-21", "2026-10-24"]);
+    assert.deepEqual(series("FREQ=WEEKLY;INTERVAL=2", "2026-10-20", 2), ["2026-11-03", "2026-11-17"]);
+    assert.deepEqual(series("FREQ=MONTHLY;INTERVAL=3", "2026-11-30", 2), ["2027-02-28", "2027-05-30"]);
+  });
+
+  it("walks weekday rules within the week, then jumps by the interval", () => {
+    // 2026-10-19 is a Monday
+    assert.deepEqual(series("FREQ=WEEKLY;BYDAY=MO,WE,FR", "2026-10-19", 4), ["2026-10-21", "2026-10-23", "2026-10-26", "2026-10-28"]);
+    assert.deepEqual(series("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU,TH", "2026-10-22", 2), ["2026-11-03", "2026-11-05"]);
+    assert.deepEqual(series("FREQ=WEEKLY;BYDAY=MO,TU,WE,TH,FR", "2026-10-23", 1), ["2026-10-26"]);
+  });
+
+  it("skips occurrences that passed while the todo sat undone", () => {
+    const next = getNextOccurrence("FREQ=WEEKLY", utc("2026-09-01"), utc("2026-10-18"));
+    assert.equal(next?.dueDate.toISOString().slice(0, 10), "2026-10-20");
+  });
+
+  it("ends series at COUNT and UNTIL", () => {
+    assert.equal(getNextOccurrence("FREQ=DAILY;COUNT=2", utc("2026-10-18"), utc("2026-10-18"))?.recurrence, "FREQ=DAILY;COUNT=1");
+    assert.equal(getNextOccurrence("FREQ=DAILY;COUNT=1", utc("2026-10-18"), utc("2026-10-18")), null);
+    assert.equal(getNextOccurrence("FREQ=WEEKLY;UNTIL=20261024", utc("2026-10-18"), utc("2026-10-18")), null);
+  });
+});
+
+describe("normalizeRecurrence", () => {
+  it("accepts BYMONTHDAY only on monthly and yearly rules", () => {
+    assert.equal(normalizeRecurrence("RRULE:freq=monthly;bymonthday=31"), "FREQ=MONTHLY;BYMONTHDAY=31");
+    assert.equal(normalizeRecurrence("FREQ=WEEKLY;BYMONTHDAY=3"), null);
+    assert.equal(normalizeRecurrence("FREQ=MONTHLY;BYMONTHDAY=32"), null);
+    assert.equal(describeRecurrence("FREQ=MONTHLY;BYMONTHDAY=31"), "Every month on day 31");
+  });
+});
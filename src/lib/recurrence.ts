@@ -0,0 +1,241 @@
+/**
+ * RRULE-style recurrence for todos
+ * Supports the subset of RFC 5545 we actually need: FREQ, INTERVAL, BYDAY, BYMONTHDAY, COUNT, UNTIL
+ */
+
+export type RecurrenceFrequency = "DAILY" | "WEEKLY" | "MONTHLY" | "YEARLY";
+export type Weekday = "MO" | "TU" | "WE" | "TH" | "FR" | "SA" | "SU";
+
+export interface RecurrenceRule {
+  freq: RecurrenceFrequency;
+  interval: number;
+  byDay: Weekday[]; // Only meaningful for WEEKLY
+  byMonthDay?: number; // MONTHLY/YEARLY: day of the month, on the last day in months that are shorter
+  count?: number; // Remaining occurrences (including the current one)
+  until?: Date; // Last allowed occurrence date (inclusive)
+}
+
+const FREQUENCIES: RecurrenceFrequency[] = ["DAILY", "WEEKLY", "MONTHLY", "YEARLY"];
+
+// Ordered to match Date.getUTCDay() (0 = Sunday)
+const WEEKDAYS: Weekday[] = ["SU", "MO", "TU", "WE", "TH", "FR", "SA"];
+
+const WEEKDAY_NAMES: Record<Weekday, string> = {
+  MO: "Monday",
+  TU: "Tuesday",
+  WE: "Wednesday",
+  TH: "Thursday",
+  FR: "Friday",
+  SA: "Saturday",
+  SU: "Sunday",
+};
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Parse an RRULE string ("FREQ=WEEKLY;INTERVAL=2;BYDAY=TU"), with or without the "RRULE:" prefix.
+ * Returns null if the rule is malformed or uses unsupported parts.
+ */
+export function parseRecurrence(rule: string): RecurrenceRule | null {
+  const body = rule.trim().replace(/^RRULE:/i, "");
+  if (!body) return null;
+
+  const parts: Record<string, string> = {};
+  for (const segment of body.split(";")) {
+    if (!segment) continue;
+    const [key, value] = segment.split("=");
+    if (!key || value === undefined || value === "") return null;
+    parts[key.trim().toUpperCase()] = value.trim().toUpperCase();
+  }
+
+  const freq = parts.FREQ as RecurrenceFrequency;
+  if (!FREQUENCIES.includes(freq)) return null;
+
+  const interval = parts.INTERVAL ? Number(parts.INTERVAL) : 1;
+  if (!Number.isInteger(interval) || interval < 1 || interval > 365) return null;
+
+  let byDay: Weekday[] = [];
+  if (parts.BYDAY) {
+    const days = parts.BYDAY.split(",");
+    if (days.some((d) => !WEEKDAYS.includes(d as Weekday))) return null;
+    // Keep Monday-first order and drop duplicates
+    byDay = WEEKDAYS.slice(1)
+      .concat("SU")
+      .filter((d) => days.includes(d));
+  }
+  if (byDay.length > 0 && freq !== "WEEKLY") return null;
+
+  const result: RecurrenceRule = { freq, interval, byDay };
+
+  if (parts.BYMONTHDAY) {
+    const day = Number(parts.BYMONTHDAY);
+    if (!Number.isInteger(day) || day < 1 || day > 31 || (freq !== "MONTHLY" && freq !== "YEARLY")) return null;
+    result.byMonthDay = day;
+  }
+
+  if (parts.COUNT) {
+    const count = Number(parts.COUNT);
+    if (!Number.isInteger(count) || count < 1) return null;
+    result.count = count;
+  }
+
+  if (parts.UNTIL) {
+    const match = parts.UNTIL.match(/^(\d{4})(\d{2})(\d{2})/);
+    if (!match) return null;
+    const until = new Date(Date.UTC(Number(match[1]), Number(match[2]) - 1, Number(match[3])));
+    if (isNaN(until.getTime()) || until.getUTCDate() !== Number(match[3])) return null;
+    result.until = until;
+  }
+
+  return result;
+}
+
+/**
+ * Serialize a rule back to its canonical RRULE string (without the "RRULE:" prefix)
+ */
+export function formatRecurrence(rule: RecurrenceRule): string {
+  const parts = [`FREQ=${rule.freq}`];
+  if (rule.interval > 1) parts.push(`INTERVAL=${rule.interval}`);
+  if (rule.byDay.length > 0) parts.push(`BYDAY=${rule.byDay.join(",")}`);
+  if (rule.byMonthDay !== undefined) parts.push(`BYMONTHDAY=${rule.byMonthDay}`);
+  if (rule.count !== undefined) parts.push(`COUNT=${rule.count}`);
+  if (rule.until) parts.push(`UNTIL=${rule.until.toISOString().slice(0, 10).replace(/-/g, "")}`);
+  return parts.join(";");
+}
+
+/**
+ * Normalize user/AI supplied rules to canonical form, or null if invalid
+ */
+export function normalizeRecurrence(rule: unknown): string | null {
+  if (typeof rule !== "string") return null;
+  const parsed = parseRecurrence(rule);
+  return parsed ? formatRecurrence(parsed) : null;
+}
+
+function daysInMonth(date: Date): number {
+  return new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + 1, 0)).getUTCDate();
+}
+
+// `day` is the series' day of the month, which may differ from `date`'s after an earlier clamp
+function addMonthsClamped(date: Date, months: number, day: number = date.getUTCDate()): Date {
+  const target = new Date(Date.UTC(date.getUTCFullYear(), date.getUTCMonth() + months, 1, date.getUTCHours(), date.getUTCMinutes()));
+  // Clamp e.g. Jan 31 + 1 month to Feb 28/29 instead of rolling into March
+  target.setUTCDate(Math.min(day, daysInMonth(target)));
+  return target;
+}
+
+// Single step from one occurrence to the next, ignoring COUNT/UNTIL
+function stepOccurrence(rule: RecurrenceRule, from: Date): Date {
+  switch (rule.freq) {
+    case "DAILY":
+      return new Date(from.getTime() + rule.interval * DAY_MS);
+    case "MONTHLY":
+      return addMonthsClamped(from, rule.interval, rule.byMonthDay);
+    case "YEARLY":
+      return addMonthsClamped(from, rule.interval * 12, rule.byMonthDay);
+    case "WEEKLY": {
+      if (rule.byDay.length === 0) {
+        return new Date(from.getTime() + rule.interval * 7 * DAY_MS);
+      }
+
+      // Weeks start on Monday (RRULE default WKST=MO)
+      const fromDay = (from.getUTCDay() + 6) % 7; // 0 = Monday
+      const wantedDays = rule.byDay.map((d) => (WEEKDAYS.indexOf(d) + 6) % 7);
+
+      // Later day in the same week?
+      const laterThisWeek = wantedDays.find((d) => d > fromDay);
+      if (laterThisWeek !== undefined) {
+        return new Date(from.getTime() + (laterThisWeek - fromDay) * DAY_MS);
+      }
+
+      // Otherwise jump INTERVAL weeks ahead and take the first wanted day
+      const weekStart = from.getTime() - fromDay * DAY_MS;
+      return new Date(weekStart + rule.interval * 7 * DAY_MS + wantedDays[0] * DAY_MS);
+    }
+  }
+}
+
+export interface NextOccurrence {
+  dueDate: Date;
+  recurrence: string; // Rule to carry forward (COUNT decremented)
+}
+
+/**
+ * The day of the month a monthly or yearly series falls on, as of the instance due on `from`: the rule's
+ * BYMONTHDAY while `from` still sits on it (or on the last day of a month too short for it), otherwise
+ * `from`'s own day, so a due date moved by hand moves the series with it
+ */
+function seriesMonthDay(rule: RecurrenceRule, from: Date): number {
+  const day = from.getUTCDate();
+  return rule.byMonthDay !== undefined && Math.min(rule.byMonthDay, daysInMonth(from)) === day ? rule.byMonthDay : day;
+}
+
+/**
+ * Compute the occurrence that follows a completed instance.
+ * Occurrences that already passed (completed late) are skipped so the new instance isn't born overdue.
+ * Monthly and yearly series carry their day of the month forward as BYMONTHDAY, so one clamped to a short
+ * month (Jan 31 -> Feb 28) returns to the 31st afterwards.
+ * Returns null when the series is exhausted (COUNT reached or past UNTIL).
+ * `now` is only read for its UTC calendar date, so callers pass the user's local today as UTC midnight.
+ */
+export function getNextOccurrence(rule: string, previousDueDate: Date | null, now: Date = new Date()): NextOccurrence | null {
+  let parsed = parseRecurrence(rule);
+  if (!parsed) return null;
+
+  if (parsed.count !== undefined && parsed.count <= 1) return null;
+
+  const today = new Date(Date.UTC(now.getUTCFullYear(), now.getUTCMonth(), now.getUTCDate()));
+  const from = previousDueDate ?? today;
+  if (parsed.freq === "MONTHLY" || parsed.freq === "YEARLY") {
+    parsed = { ...parsed, byMonthDay: seriesMonthDay(parsed, from) };
+  }
+  let next = stepOccurrence(parsed, from);
+
+  // Guard against pathological loops (e.g. a daily task completed years late)
+  for (let i = 0; next < today && i < 1000; i++) {
+    next = stepOccurrence(parsed, next);
+  }
+
+  if (parsed.until && next > new Date(parsed.until.getTime() + DAY_MS - 1)) return null;
+
+  const carried: RecurrenceRule = { ...parsed, count: parsed.count !== undefined ? parsed.count - 1 : undefined };
+  return { dueDate: next, recurrence: formatRecurrence(carried) };
+}
+
+/**
+ * Human-readable summary, e.g. "Every other week on Tuesday"
+ */
+export function describeRecurrence(rule: string): string {
+  const parsed = parseRecurrence(rule);
+  if (!parsed) return "Repeats";
+
+  const units: Record<RecurrenceFrequency, string> = { DAILY: "day", WEEKLY: "week", MONTHLY: "month", YEARLY: "year" };
+  const unit = units[parsed.freq];
+
+  let description: string;
+  const isWeekdays = parsed.byDay.length === 5 && !parsed.byDay.includes("SA") && !parsed.byDay.includes("SU");
+  if (isWeekdays && parsed.interval === 1) {
+    description = "Every weekday";
+  } else if (parsed.interval === 1) {
+    description = `Every ${unit}`;
+  } else if (parsed.interval === 2) {
+    description = `Every other ${unit}`;
+  } else {
+    description = `Every ${parsed.interval} ${unit}s`;
+  }
+
+  if (parsed.byDay.length > 0 && !(isWeekdays && parsed.interval === 1)) {
+    description += ` on ${parsed.byDay.map((d) => WEEKDAY_NAMES[d]).join(", ")}`;
+  }
+  if (parsed.byMonthDay !== undefined) {
+    description += ` on day ${parsed.byMonthDay}`;
+  }
+  if (parsed.count !== undefined) {
+    description += ` (${parsed.count} left)`;
+  }
+  if (parsed.until) {
+    description += ` until ${parsed.until.toISOString().slice(0, 10)}`;
+  }
+
+  return description;
+}
@@ -0,0 +1,87 @@
+/**
+ * Saved views: named filter combinations ("Work urgent this week") kept per user and shown as smart
+ * lists. A view stores its filters as GET /api/todos parameters, so the same string drives the list,
+ * the live count and a shareable link.
+ */
+import { db, savedViews, type SavedView } from "@/lib/db";
+import { asc, eq } from "drizzle-orm";
+import { parseTodoListQuery } from "@/lib/todoSearch";
+
+// The list parameters a view keeps: the filters the app can show. Paging, sorting, date ranges and
+// one-off ID lists aren't part of a view.
+export const VIEW_QUERY_PARAMS = ["q", "priority", "tag", "status", "due", "project", "filter"];
+
+export const MAX_SAVED_VIEWS = 50;
+
+const MAX_VIEW_NAME_LENGTH = 80;
+
+export interface SavedViewInput {
+  name?: string;
+  query?: string;
+  sortOrder?: number;
+}
+
+/**
+ * Reduce a query string to the view parameters, in the order the app writes them (so the active view can be
+ * recognized), and check the list endpoint accepts them
+ */
+export function normalizeViewQuery(query: string): { value: string } | { error: string } {
+  const params = new URLSearchParams(query.replace(/^\?/, ""));
+  const kept = new URLSearchParams();
+  for (const key of VIEW_QUERY_PARAMS) {
+    const value = params.get(key);
+    if (value !== null && value !== "") kept.set(key, value);
+  }
+  const parsed = parseTodoListQuery(kept);
+  if ("error" in parsed) {
+    return { error: parsed.error };
+  }
+  return { value: kept.toString() };
+}
+
+/**
+ * Validate saved view fields from a request body.
+ * With `requireName`, the name and query must be present (creation); otherwise every field is optional (update).
+ */
+export function parseSavedViewInput(body: unknown, requireName: boolean): { value: SavedViewInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Request body must be an object" };
+  }
+  const { name, query, sortOrder } = body as Record<string, unknown>;
+  const value: SavedViewInput = {};
+
+  if (name !== undefined || requireName) {
+    if (typeof name !== "string" || name.trim() === "") {
+      return { error: "Name is required and must be a non-empty string" };
+    }
+    if (name.trim().length > MAX_VIEW_NAME_LENGTH) {
+      return { error: `Name must be at most ${MAX_VIEW_NAME_LENGTH} characters` };
+    }
+    value.name = name.trim();
+  }
+  if (query !== undefined || requireName) {
+    if (typeof query !== "string") {
+      return { error: "Query is required and must be a string of list parameters" };
+    }
+    const normalized = normalizeViewQuery(query);
+    if ("error" in normalized) {
+      return { error: `Invalid query: ${normalized.error}` };
+    }
+    value.query = normalized.value;
+  }
+  if (sortOrder !== undefined) {
+    if (typeof sortOrder !== "number" || !Number.isInteger(sortOrder)) {
+      return { error: "Sort order must be an integer" };
+    }
+    value.sortOrder = sortOrder;
+  }
+
+  return { value };
+}
+
+/**
+ * Saved views for a user in display order
+ */
+export async function getUserViews(userId: string): Promise<SavedView[]> {
+  return db.select().from(savedViews).where(eq(savedViews.userId, userId)).orderBy(asc(savedViews.sortOrder), asc(savedViews.createdAt));
+}
@@ -0,0 +1,41 @@
+/**
+ * Snoozing hides a todo from the list until `snoozedUntil` (an instant) passes, without touching its
+ * dates. Presets are resolved in the user's time zone, so "tomorrow morning" is their morning.
+ * Shared by the server (query commands) and the browser (the snooze menu).
+ */
+import { addDaysToKey, dateKeyToDate, todayKey, zonedDateTime } from "@/lib/timezone";
+
+export const SNOOZE_PRESETS = [
+  { id: "later-today", label: "Later today" },
+  { id: "tomorrow-morning", label: "Tomorrow morning" },
+  { id: "next-week", label: "Next week" },
+] as const;
+export type SnoozePreset = (typeof SNOOZE_PRESETS)[number]["id"];
+
+// Time of day a snooze to a date (without a time) ends
+export const SNOOZE_MORNING = "09:00";
+
+const LATER_TODAY_HOURS = 3;
+const HOUR_MS = 60 * 60 * 1000;
+
+/**
+ * When a preset snooze ends: "later today" is a few hours out (on the hour), the others are mornings
+ * (next week = next Monday)
+ */
+export function resolveSnoozePreset(preset: SnoozePreset, timeZone: string, now: Date = new Date()): Date {
+  const today = todayKey(timeZone, now);
+  switch (preset) {
+    case "later-today":
+      return new Date(Math.ceil((now.getTime() + LATER_TODAY_HOURS * HOUR_MS) / HOUR_MS) * HOUR_MS);
+    case "tomorrow-morning":
+      return zonedDateTime(addDaysToKey(today, 1), SNOOZE_MORNING, timeZone);
+    case "next-week": {
+      const daysToMonday = 8 - (dateKeyToDate(today).getUTCDay() || 7);
+      return zonedDateTime(addDaysToKey(today, daysToMonday), SNOOZE_MORNING, timeZone);
+    }
+  }
+}
+
+export function isSnoozed(todo: { snoozedUntil: Date | string | null }, now: Date = new Date()): boolean {
+  return !!todo.snoozedUntil && new Date(todo.snoozedUntil).getTime() > now.getTime();
+}
@@ -0,0 +1,187 @@
+/**
+ * Time zone helpers shared by the server and the browser.
+ * Due dates are calendar dates, stored as UTC midnight of that date ("2026-03-14" -> 2026-03-14T00:00:00Z)
+ * so they mean the same day wherever they are read; timed starts and dues are exact instants.
+ * "Today" is always the user's local date, taken from the IANA time zone on their profile.
+ */
+
+export const DEFAULT_TIME_ZONE = "UTC";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export function isValidTimeZone(value: unknown): value is string {
+  if (typeof value !== "string" || !value) return false;
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone: value });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The browser's zone, used until the user saves one on their profile
+export function getBrowserTimeZone(): string {
+  const zone = Intl.DateTimeFormat().resolvedOptions().timeZone;
+  return isValidTimeZone(zone) ? zone : DEFAULT_TIME_ZONE;
+}
+
+/**
+ * The calendar date (YYYY-MM-DD) of an instant in a time zone
+ */
+export function toDateKey(instant: Date, timeZone: string): string {
+  // en-CA formats as YYYY-MM-DD
+  return new Intl.DateTimeFormat("en-CA", { timeZone, year: "numeric", month: "2-digit", day: "2-digit" }).format(instant);
+}
+
+/**
+ * The local time (HH:MM, 24-hour) of an instant in a time zone
+ */
+export function toTimeKey(instant: Date, timeZone: string): string {
+  return new Intl.DateTimeFormat("en-GB", { timeZone, hour: "2-digit", minute: "2-digit", hourCycle: "h23" }).format(instant);
+}
+
+// How far the zone's wall clock is ahead of UTC at an instant (to the minute)
+function zoneOffsetMs(instant: Date, timeZone: string): number {
+  const [hours, minutes] = toTimeKey(instant, timeZone).split(":").map(Number);
+  const wall = dateKeyToDate(toDateKey(instant, timeZone)).getTime() + (hours * 60 + minutes) * 60000;
+  return wall - Math.floor(instant.getTime() / 60000) * 60000;
+}
+
+/**
+ * The instant a local date and time (HH:MM) happen in a time zone.
+ * A time skipped by a daylight saving jump lands just after the gap.
+ */
+export function zonedDateTime(key: string, time: string, timeZone: string): Date {
+  const wall = new Date(`${key}T${time}:00.000Z`).getTime();
+  const first = wall - zoneOffsetMs(new Date(wall), timeZone);
+  const second = wall - zoneOffsetMs(new Date(first), timeZone);
+  // Inside a gap neither reading shows the requested time; the later one is just past the jump
+  return new Date(toTimeKey(new Date(second), timeZone) === time ? second : Math.max(first, second));
+}
+
+/**
+ * An instant as a local timestamp with its offset ("2026-03-14T15:00:00-07:00"), so the date it is
+ * written with is the user's date rather than UTC's
+ */
+export function toZonedISOString(instant: Date, timeZone: string): string {
+  const offset = Math.round(zoneOffsetMs(instant, timeZone) / 60000);
+  const hours = String(Math.floor(Math.abs(offset) / 60)).padStart(2, "0");
+  const minutes = String(Math.abs(offset) % 60).padStart(2, "0");
+  return `${toDateKey(instant, timeZone)}T${toTimeKey(instant, timeZone)}:00${offset < 0 ? "-" : "+"}${hours}:${minutes}`;
+}
+
+export function todayKey(timeZone: string, now: Date = new Date()): string {
+  return toDateKey(now, timeZone);
+}
+
+/**
+ * The calendar date of a stored due date (a Date or an ISO string from the API)
+ */
+export function dueDateKey(dueDate: Date | string): string {
+  return new Date(dueDate).toISOString().slice(0, 10);
+}
+
+export function dateKeyToDate(key: string): Date {
+  return new Date(`${key}T00:00:00.000Z`);
+}
+
+export function addDaysToKey(key: string, days: number): string {
+  return new Date(dateKeyToDate(key).getTime() + days * DAY_MS).toISOString().slice(0, 10);
+}
+
+/**
+ * Normalize a due date from a request body to the stored form.
+ * Date-only strings are taken as-is; full timestamps keep the calendar date they were written with
+ * (the writer's local date), so "2026-03-14T23:30:00-08:00" is due on the 14th, not the 15th.
+ */
+export function parseDueDateInput(value: string): Date | null {
+  const match = value.trim().match(/^(\d{4}-\d{2}-\d{2})(?:[T ].*)?$/);
+  if (!match || isNaN(new Date(value.trim()).getTime())) return null;
+  // Reject impossible dates rather than rolling them over (2026-02-30 is not March 2nd)
+  const date = dateKeyToDate(match[1]);
+  return !isNaN(date.getTime()) && dueDateKey(date) === match[1] ? date : null;
+}
+
+/**
+ * Parse a start/due value from a request body: a date ("2026-03-14") or a timestamp with an offset
+ * ("2026-03-14T15:00:00-07:00"). `key` is the date it was written with. Timestamps without an offset
+ * are rejected - there's no telling whose clock they were read from.
+ */
+export function parseDateTimeInput(value: string): { key: string; instant: Date; timed: boolean } | null {
+  const trimmed = value.trim();
+  const date = parseDueDateInput(trimmed);
+  if (!date) return null;
+  if (/^\d{4}-\d{2}-\d{2}$/.test(trimmed)) {
+    return { key: dueDateKey(date), instant: date, timed: false };
+  }
+  if (!/(?:Z|[+-]\d{2}:?\d{2})$/i.test(trimmed)) return null;
+  return { key: dueDateKey(date), instant: new Date(trimmed), timed: true };
+}
+
+/**
+ * A todo's start and due as the user sees them: local dates (YYYY-MM-DD) and times (HH:MM, null for none).
+ * This is what forms edit and what extraction produces.
+ */
+export interface LocalSchedule {
+  dueDate: string | null;
+  dueTime: string | null;
+  startDate: string | null;
+  startTime: string | null;
+}
+
+/**
+ * The calendar date of a stored start/due value: all-day values are UTC midnight of the date,
+ * timed ones an instant read in the user's zone
+ */
+export function scheduleDateKey(value: Date | string, allDay: boolean, timeZone: string): string {
+  return allDay ? dueDateKey(value) : toDateKey(new Date(value), timeZone);
+}
+
+export function toLocalSchedule(todo: { dueAt: Date | string | null; startAt: Date | string | null; allDay: boolean }, timeZone: string): LocalSchedule {
+  const time = (value: Date | string | null) => (value && !todo.allDay ? toTimeKey(new Date(value), timeZone) : null);
+  return {
+    dueDate: todo.dueAt ? scheduleDateKey(todo.dueAt, todo.allDay, timeZone) : null,
+    dueTime: time(todo.dueAt),
+    startDate: todo.startAt ? scheduleDateKey(todo.startAt, todo.allDay, timeZone) : null,
+    startTime: time(todo.startAt),
+  };
+}
+
+/**
+ * The API fields for a local schedule. Dates alone make an all-day todo; once either end has a time
+ * the todo is timed, and a date without one means the start (or the end) of that day.
+ */
+export function toScheduleInput(schedule: LocalSchedule, timeZone: string): { dueAt: string | null; startAt: string | null; allDay: boolean } {
+  const allDay = !schedule.dueTime && !schedule.startTime;
+  const value = (key: string | null, time: string | null, fallbackTime: string) => {
+    if (!key) return null;
+    return allDay ? key : toZonedISOString(zonedDateTime(key, time ?? fallbackTime, timeZone), timeZone);
+  };
+  return {
+    dueAt: value(schedule.dueDate, schedule.dueTime, "23:59"),
+    startAt: value(schedule.startDate, schedule.startTime, "00:00"),
+    allDay,
+  };
+}
+
+/**
+ * Display a date key; formatted in UTC so the calendar date never shifts
+ */
+export function formatDateKey(key: string, options: Intl.DateTimeFormatOptions = {}, locale?: string): string {
+  return dateKeyToDate(key).toLocaleDateString(locale, { ...options, timeZone: "UTC" });
+}
+
+/**
+ * "Saturday, 2026-03-14 (America/Los_Angeles)" - today's date as handed to AI prompts
+ */
+export function describeToday(timeZone: string, now: Date = new Date()): string {
+  const key = todayKey(timeZone, now);
+  return `${formatDateKey(key, { weekday: "long" }, "en-US")}, ${key} (${timeZone})`;
+}
+
+/**
+ * Display the local time of a timed value ("3:00 PM")
+ */
+export function formatTimeInZone(value: Date | string, timeZone: string, locale?: string): string {
+  return new Date(value).toLocaleTimeString(locale, { timeZone, hour: "numeric", minute: "2-digit" });
+}
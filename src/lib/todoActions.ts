@@ -0,0 +1,195 @@
+/**
+ * Bulk actions on existing todos ("mark all grocery items done", "move everything tagged work to Friday").
+ * Query detection turns an action intent into a change set - a PATCH body or a removal per todo - which the
+ * user confirms before POST /api/todos/bulk applies it in one transaction.
+ */
+import { db, todos, type Todo } from "@/lib/db";
+import { and, eq, inArray, isNull } from "drizzle-orm";
+import { parseTodoPatch, resolveSchedule, saveTodoUpdate, shiftSchedule, type ScheduleInput, type TodoPatch, type TodoSchedule } from "@/lib/todos";
+import { softDeleteTodo } from "@/lib/trash";
+import { dateKeyToDate, dueDateKey, toZonedISOString } from "@/lib/timezone";
+import type { QueryTodo } from "@/lib/queryDetection";
+
+// An action intent with its validated parameters (dueDate is the user's local calendar date)
+export type TodoAction =
+  | { type: "complete" }
+  | { type: "delete" }
+  | { type: "retag"; addTags: string[]; removeTags: string[] }
+  | { type: "reschedule"; dueDate: string }
+  | { type: "reprioritize"; priority: "high" | "medium" | "low" };
+
+// One todo's part of a change set, as sent to POST /api/todos/bulk
+export type TodoChange = { id: number; patch: Record<string, unknown> } | { id: number; delete: true };
+
+export const MAX_BULK_CHANGES = 100;
+
+/**
+ * The changes an action makes to the given todos, leaving out the ones it wouldn't change.
+ * Built from the todos as loaded for the query; the bulk endpoint re-checks everything when the set comes back.
+ */
+export function buildChangeSet(action: TodoAction, targets: QueryTodo[], timeZone: string): TodoChange[] {
+  const changes: TodoChange[] = [];
+  for (const todo of targets) {
+    switch (action.type) {
+      case "complete":
+        if (!todo.completed) changes.push({ id: todo.id, patch: { completed: true } });
+        break;
+      case "delete":
+        changes.push({ id: todo.id, delete: true });
+        break;
+      case "retag": {
+        const current = todo.tags ?? [];
+        const tags = [...new Set([...current.filter((tag) => !action.removeTags.includes(tag)), ...action.addTags])];
+        if (tags.length !== current.length || tags.some((tag) => !current.includes(tag))) {
+          changes.push({ id: todo.id, patch: { tags } });
+        }
+        break;
+      }
+      case "reschedule": {
+        const patch = reschedulePatch(todo, action.dueDate, timeZone);
+        if (patch) changes.push({ id: todo.id, patch });
+        break;
+      }
+      case "reprioritize":
+        if (todo.priority !== action.priority) changes.push({ id: todo.id, patch: { priority: action.priority } });
+        break;
+    }
+  }
+  return changes;
+}
+
+// Dates may be Date objects or ISO strings; unparseable ones count as unset
+function toInstant(value: QueryTodo["dueDate"]): Date | null {
+  return value && !isNaN(new Date(value).getTime()) ? new Date(value) : null;
+}
+
+/**
+ * Schedule fields that make a todo due on `dueDate`, keeping its time of day and the gap to its start
+ * (a start that would land after the new due is dropped). Null if it's already due that day.
+ */
+function reschedulePatch(todo: QueryTodo, dueDate: string, timeZone: string): Record<string, unknown> | null {
+  const current: TodoSchedule = { dueDate: toInstant(todo.dueDate), dueAt: toInstant(todo.dueAt ?? todo.dueDate), startAt: toInstant(todo.startAt), allDay: todo.allDay !== false };
+  if (current.dueDate && dueDateKey(current.dueDate) === dueDate) {
+    return null;
+  }
+
+  const next = shiftSchedule(current, dateKeyToDate(dueDate), timeZone);
+  const startAt = next.startAt && next.dueAt && next.startAt > next.dueAt ? null : next.startAt;
+  const format = (value: Date | null) => (value ? (next.allDay ? dueDateKey(value) : toZonedISOString(value, timeZone)) : null);
+  return { dueAt: format(next.dueAt), startAt: format(startAt), allDay: next.allDay };
+}
+
+// A validated change: the fields parseTodoPatch accepted, or a removal
+export type BulkChange = { id: number; delete: true } | { id: number; delete: false; patch: TodoPatch; schedule: ScheduleInput | null };
+
+export interface BulkChangeResult {
+  todos: Todo[]; // Updated todos
+  nextOccurrences: Todo[]; // Spawned by completing recurring todos
+  deletedIds: number[]; // Trashed todos, subtasks included
+}
+
+/**
+ * Validate a change set from a request body. Patches follow PATCH /api/todos/[id], except that moving a todo
+ * under another parent isn't allowed in bulk (the moves could form a cycle together).
+ */
+export function parseBulkChanges(body: unknown): { value: BulkChange[] } | { error: string } {
+  const items = body && typeof body === "object" && !Array.isArray(body) ? (body as Record<string, unknown>).changes : undefined;
+  if (!Array.isArray(items) || items.length === 0) {
+    return { error: "Changes must be a non-empty array" };
+  }
+  if (items.length > MAX_BULK_CHANGES) {
+    return { error: `A change set can contain at most ${MAX_BULK_CHANGES} changes` };
+  }
+
+  const value: BulkChange[] = [];
+  const seen = new Set<number>();
+  for (const [index, item] of items.entries()) {
+    const label = `Change ${index + 1}`;
+    if (!item || typeof item !== "object" || Array.isArray(item)) {
+      return { error: `${label}: must be an object` };
+    }
+    const { id, patch, delete: remove } = item as Record<string, unknown>;
+    if (typeof id !== "number" || !Number.isInteger(id)) {
+      return { error: `${label}: id must be an integer` };
+    }
+    if (seen.has(id)) {
+      return { error: `${label}: todo ${id} is changed more than once` };
+    }
+    seen.add(id);
+
+    if (remove !== undefined && remove !== true) {
+      return { error: `${label}: delete must be true when present` };
+    }
+    if (remove === true) {
+      if (patch !== undefined) {
+        return { error: `${label}: send either a patch or delete, not both` };
+      }
+      value.push({ id, delete: true });
+      continue;
+    }
+
+    const parsed = parseTodoPatch(patch);
+    if ("error" in parsed) {
+      return { error: `${label}: ${parsed.error}` };
+    }
+    if (parsed.value.parentId !== undefined) {
+      return { error: `${label}: move todos under a parent one at a time with PATCH /api/todos/[id]` };
+    }
+    value.push({ id, delete: false, patch: parsed.value, schedule: parsed.schedule });
+  }
+
+  return { value };
+}
+
+/**
+ * Apply a change set in one transaction: every change lands or none does. All todos are loaded and their
+ * schedules resolved before anything is written; deleting a todo trashes its subtasks with it.
+ */
+export async function applyBulkChanges(userId: string, changes: BulkChange[], timeZone: string): Promise<{ value: BulkChangeResult } | { error: string; status: number }> {
+  return db.transaction(async (tx) => {
+    const ids = changes.map((change) => change.id);
+    const rows = await tx
+      .select()
+      .from(todos)
+      .where(and(eq(todos.userId, userId), inArray(todos.id, ids), isNull(todos.deletedAt)));
+    const current = new Map(rows.map((row) => [row.id, row]));
+
+    const updates: { todo: Todo; patch: TodoPatch }[] = [];
+    const deletes: number[] = [];
+    for (const change of changes) {
+      const todo = current.get(change.id);
+      if (!todo) {
+        return { error: `Todo ${change.id} not found`, status: 404 };
+      }
+      if (change.delete) {
+        deletes.push(todo.id);
+        continue;
+      }
+
+      const patch: TodoPatch = { ...change.patch };
+      if (change.schedule) {
+        const schedule = resolveSchedule(change.schedule, { todo, timeZone });
+        if ("error" in schedule) {
+          return { error: `Todo ${todo.id}: ${schedule.error}`, status: 400 };
+        }
+        Object.assign(patch, schedule.value);
+      }
+      updates.push({ todo, patch });
+    }
+
+    const result: BulkChangeResult = { todos: [], nextOccurrences: [], deletedIds: [] };
+    for (const { todo, patch } of updates) {
+      const saved = await saveTodoUpdate(tx, userId, todo, patch, timeZone);
+      if (saved) {
+        result.todos.push(saved.todo);
+        if (saved.nextOccurrence) result.nextOccurrences.push(saved.nextOccurrence);
+      }
+    }
+    // A todo already trashed with its parent earlier in the set just returns no ids
+    for (const id of deletes) {
+      result.deletedIds.push(...(await softDeleteTodo(userId, id, tx)));
+    }
+
+    return { value: result };
+  });
+}
@@ -0,0 +1,391 @@
+/**
+ * Server-side listing for GET /api/todos: search, filters, sorting and cursor pagination, so clients
+ * with thousands of todos can load them a page at a time instead of downloading everything.
+ */
+import { db, todos, type Todo } from "@/lib/db";
+import { and, asc, count, desc, eq, getTableColumns, gt, gte, inArray, isNull, lt, lte, notInArray, or, sql, type SQL } from "drizzle-orm";
+import { addDaysToKey, dateKeyToDate, dueDateKey, parseDueDateInput, todayKey } from "@/lib/timezone";
+import { compileTodoFilter, type TodoFilter } from "@/lib/queryFilter";
+import { validateTodoFilter } from "@/lib/aiSchemas";
+
+export const TODO_SORTS = ["created", "due", "priority"] as const;
+export type TodoSort = (typeof TODO_SORTS)[number];
+
+// Due date presets, matching the list's date filter chips (a todo matching any of them is included)
+export const DUE_PRESETS = ["overdue", "today", "this-week", "no-date"] as const;
+export type DuePreset = (typeof DUE_PRESETS)[number];
+
+const PRIORITIES = ["high", "medium", "low"] as const;
+
+export const DEFAULT_PAGE_SIZE = 50;
+export const MAX_PAGE_SIZE = 200;
+const MAX_SEARCH_TERMS = 10;
+const MAX_FILTER_IDS = 500;
+
+export interface TodoListQuery {
+  search: string[]; // Words that must all appear (as word prefixes) in the text, context or tags
+  tags: string[]; // Any of these tags
+  priorities: Todo["priority"][];
+  status: "all" | "active" | "completed";
+  due: DuePreset[];
+  dueFrom: string | null; // Inclusive calendar dates (YYYY-MM-DD)
+  dueTo: string | null;
+  project: number | "inbox" | null; // null = every project
+  ids: number[] | null;
+  filter: TodoFilter | null; // A query box filter (from an AI answer saved as a view), run live
+  snoozed: boolean; // Only todos snoozed until later
+  sort: TodoSort;
+  order: "asc" | "desc";
+  limit: number | null; // null = everything (unpaginated)
+  cursor: TodoCursor | null;
+}
+
+// Position after the last row of a page: its sort key (as Postgres text) and id
+interface TodoCursor {
+  sort: TodoSort;
+  order: "asc" | "desc";
+  key: string;
+  id: number;
+}
+
+// Sort expressions, each with the Postgres type its cursor key is read back as and its natural order
+const SORT_KEYS: Record<TodoSort, { key: SQL; type: "timestamp" | "integer"; order: "asc" | "desc" }> = {
+  created: { key: sql`${todos.createdAt}`, type: "timestamp", order: "desc" },
+  due: { key: sql`coalesce(${todos.dueAt}, 'infinity'::timestamp)`, type: "timestamp", order: "asc" },
+  priority: { key: sql`case ${todos.priority} when 'high' then 0 when 'medium' then 1 else 2 end`, type: "integer", order: "asc" },
+};
+
+// Same expression as the idx_todos_search_document index, so searches can use it. Tags are searched as
+// words too; the JSON punctuation of the tags array is blanked out rather than unnested, to keep it indexable.
+const SEARCH_DOCUMENT = sql`to_tsvector('simple', ${todos.text} || ' ' || coalesce(${todos.context}, '') || ' ' || translate(${todos.tags}::text, '[]",', '    '))`;
+
+function splitList(value: string | null): string[] {
+  return value ? value.split(",").map((item) => item.trim()).filter(Boolean) : [];
+}
+
+function encodeCursor(cursor: TodoCursor): string {
+  return Buffer.from(JSON.stringify(cursor)).toString("base64url");
+}
+
+function decodeCursor(value: string): TodoCursor | null {
+  try {
+    const cursor = JSON.parse(Buffer.from(value, "base64url").toString());
+    if (TODO_SORTS.includes(cursor?.sort) && (cursor.order === "asc" || cursor.order === "desc") && typeof cursor.key === "string" && Number.isInteger(cursor.id)) {
+      return { sort: cursor.sort, order: cursor.order, key: cursor.key, id: cursor.id };
+    }
+  } catch {
+    // Fall through: anything unreadable is an invalid cursor
+  }
+  return null;
+}
+
+function parseDateParam(value: string | null, name: string): { value: string | null } | { error: string } {
+  if (value === null) return { value: null };
+  const date = /^\d{4}-\d{2}-\d{2}$/.test(value) ? parseDueDateInput(value) : null;
+  return date ? { value: dueDateKey(date) } : { error: `${name} must be a YYYY-MM-DD date` };
+}
+
+/**
+ * Parse GET /api/todos query parameters. Lists are comma-separated; without `limit` (or `cursor`) every
+ * matching todo is returned.
+ */
+export function parseTodoListQuery(params: URLSearchParams): { value: TodoListQuery } | { error: string } {
+  const search = (params.get("q") ?? "").toLowerCase().match(/[\p{L}\p{N}]+/gu) ?? [];
+  if (search.length > MAX_SEARCH_TERMS) {
+    return { error: `Search can have at most ${MAX_SEARCH_TERMS} words` };
+  }
+
+  const priorities = splitList(params.get("priority"));
+  if (priorities.some((priority) => !PRIORITIES.includes(priority as Todo["priority"]))) {
+    return { error: "Priority must be a comma-separated list of high, medium and low" };
+  }
+
+  const status = params.get("status") ?? "all";
+  if (status !== "all" && status !== "active" && status !== "completed") {
+    return { error: "Status must be all, active or completed" };
+  }
+
+  const due = splitList(params.get("due"));
+  if (due.some((preset) => !DUE_PRESETS.includes(preset as DuePreset))) {
+    return { error: `Due must be a comma-separated list of ${DUE_PRESETS.join(", ")}` };
+  }
+
+  const dueFrom = parseDateParam(params.get("dueFrom"), "dueFrom");
+  if ("error" in dueFrom) return dueFrom;
+  const dueTo = parseDateParam(params.get("dueTo"), "dueTo");
+  if ("error" in dueTo) return dueTo;
+  if (dueFrom.value && dueTo.value && dueFrom.value > dueTo.value) {
+    return { error: "dueFrom must not be after dueTo" };
+  }
+
+  let project: TodoListQuery["project"] = null;
+  const projectParam = params.get("project");
+  if (projectParam === "inbox") {
+    project = "inbox";
+  } else if (projectParam !== null) {
+    if (!/^\d+$/.test(projectParam)) {
+      return { error: 'Project must be a project ID or "inbox"' };
+    }
+    project = Number(projectParam);
+  }
+
+  let ids: number[] | null = null;
+  if (params.has("ids")) {
+    const list = splitList(params.get("ids"));
+    if (list.some((id) => !/^\d+$/.test(id))) {
+      return { error: "IDs must be a comma-separated list of todo IDs" };
+    }
+    if (list.length > MAX_FILTER_IDS) {
+      return { error: `At most ${MAX_FILTER_IDS} IDs can be requested at once` };
+    }
+    ids = list.map(Number);
+  }
+
+  let filter: TodoFilter | null = null;
+  const filterParam = params.get("filter");
+  if (filterParam !== null) {
+    let raw: unknown;
+    try {
+      raw = JSON.parse(filterParam);
+    } catch {
+      return { error: "Filter must be JSON" };
+    }
+    const parsed = validateTodoFilter(raw);
+    if ("error" in parsed) {
+      return { error: `Invalid filter: ${parsed.error}` };
+    }
+    filter = parsed.value;
+  }
+
+  const snoozed = params.get("snoozed") === "true";
+
+  const sort = (params.get("sort") ?? "created") as TodoSort;
+  if (!TODO_SORTS.includes(sort)) {
+    return { error: `Sort must be one of ${TODO_SORTS.join(", ")}` };
+  }
+  const order = params.get("order") ?? SORT_KEYS[sort].order;
+  if (order !== "asc" && order !== "desc") {
+    return { error: "Order must be asc or desc" };
+  }
+
+  let cursor: TodoCursor | null = null;
+  const cursorParam = params.get("cursor");
+  if (cursorParam !== null) {
+    cursor = decodeCursor(cursorParam);
+    if (!cursor || cursor.sort !== sort || cursor.order !== order) {
+      return { error: "Invalid cursor (it must come from a page with the same sort and order)" };
+    }
+  }
+
+  let limit: number | null = cursor ? DEFAULT_PAGE_SIZE : null;
+  const limitParam = params.get("limit");
+  if (limitParam !== null) {
+    limit = Number(limitParam);
+    if (!Number.isInteger(limit) || limit < 1 || limit > MAX_PAGE_SIZE) {
+      return { error: `Limit must be an integer from 1 to ${MAX_PAGE_SIZE}` };
+    }
+  }
+
+  return {
+    value: {
+      search,
+      tags: [...new Set(splitList(params.get("tag")))],
+      priorities: priorities as Todo["priority"][],
+      status,
+      due: due as DuePreset[],
+      dueFrom: dueFrom.value,
+      dueTo: dueTo.value,
+      project,
+      ids,
+      filter,
+      snoozed,
+      sort,
+      order,
+      limit,
+      cursor,
+    },
+  };
+}
+
+// Due presets are read in the user's time zone, like the list's date groups
+function duePresetCondition(preset: DuePreset, timeZone: string): SQL {
+  const key = todayKey(timeZone);
+  const today = dateKeyToDate(key);
+  switch (preset) {
+    case "overdue":
+      return lt(todos.dueDate, today);
+    case "today":
+      return eq(todos.dueDate, today);
+    case "this-week":
+      return and(gte(todos.dueDate, today), lt(todos.dueDate, dateKeyToDate(addDaysToKey(key, 7)))) ?? sql`false`;
+    case "no-date":
+      return isNull(todos.dueDate);
+  }
+}
+
+function buildConditions(userId: string, query: TodoListQuery, timeZone: string): SQL[] {
+  const conditions: SQL[] = [eq(todos.userId, userId), isNull(todos.deletedAt)];
+  if (query.search.length > 0) {
+    // Every word must match the start of a word ("meet" finds "meeting"); terms are letters and digits only
+    const tsquery = query.search.map((term) => `${term}:*`).join(" & ");
+    conditions.push(sql`${SEARCH_DOCUMENT} @@ to_tsquery('simple', ${tsquery})`);
+  }
+  if (query.tags.length > 0) {
+    conditions.push(sql`${todos.tags} ?| array[${sql.join(query.tags.map((tag) => sql`${tag}`), sql`, `)}]::text[]`);
+  }
+  if (query.priorities.length > 0) {
+    conditions.push(inArray(todos.priority, query.priorities));
+  }
+  if (query.status !== "all") {
+    conditions.push(eq(todos.completed, query.status === "completed"));
+  }
+  if (query.due.length > 0) {
+    conditions.push(or(...query.due.map((preset) => duePresetCondition(preset, timeZone))) ?? sql`false`);
+  }
+  if (query.dueFrom) {
+    conditions.push(gte(todos.dueDate, dateKeyToDate(query.dueFrom)));
+  }
+  if (query.dueTo) {
+    conditions.push(lte(todos.dueDate, dateKeyToDate(query.dueTo)));
+  }
+  if (query.project === "inbox") {
+    conditions.push(isNull(todos.projectId));
+  } else if (query.project !== null) {
+    conditions.push(eq(todos.projectId, query.project));
+  }
+  if (query.ids) {
+    conditions.push(query.ids.length > 0 ? inArray(todos.id, query.ids) : sql`false`);
+  }
+  if (query.filter) {
+    conditions.push(compileTodoFilter(query.filter, timeZone));
+  }
+  if (query.snoozed) {
+    conditions.push(gt(todos.snoozedUntil, new Date()));
+  }
+  return conditions;
+}
+
+// Every live subtask below the given todos (any depth)
+async function loadSubtrees(userId: string, ids: number[]): Promise<Todo[]> {
+  if (ids.length === 0) return [];
+  return db
+    .select()
+    .from(todos)
+    .where(
+      and(
+        eq(todos.userId, userId),
+        sql`${todos.id} IN (
+          WITH RECURSIVE tree AS (
+            SELECT id FROM todos WHERE parent_id IN (${sql.join(ids.map((id) => sql`${id}`), sql`, `)}) AND deleted_at IS NULL
+            UNION ALL
+            SELECT t.id FROM todos t JOIN tree ON t.parent_id = tree.id WHERE t.deleted_at IS NULL
+          )
+          SELECT id FROM tree
+        )`
+      )
+    )
+    .orderBy(todos.id);
+}
+
+/**
+ * One page of the user's todos (not trashed) matching the query, plus the cursor for the next page
+ * (null on the last one). Pages are keyset-paginated on the sort key and id, so todos added or changed
+ * while paging don't shift later pages.
+ *
+ * A page holds whole trees: `limit` counts the top-level matches (todos whose parent doesn't match), and
+ * each comes with all of its subtasks, so a subtask never arrives on a different page from its parent.
+ * Without a limit every match is returned as a flat list.
+ */
+export async function listTodos(userId: string, query: TodoListQuery, timeZone: string): Promise<{ todos: Todo[]; nextCursor: string | null }> {
+  const { key, type } = SORT_KEYS[query.sort];
+  const direction = query.order === "asc" ? asc : desc;
+  const conditions = buildConditions(userId, query, timeZone);
+  if (query.limit !== null) {
+    const matchingIds = db
+      .select({ id: todos.id })
+      .from(todos)
+      .where(and(...conditions));
+    conditions.push(or(isNull(todos.parentId), notInArray(todos.parentId, matchingIds)) ?? sql`true`);
+  }
+  if (query.cursor) {
+    const operator = sql.raw(query.order === "asc" ? ">" : "<");
+    conditions.push(sql`(${key}, ${todos.id}) ${operator} (cast(${query.cursor.key} as ${sql.raw(type)}), ${query.cursor.id})`);
+  }
+
+  const pageQuery = db
+    .select({ todo: getTableColumns(todos), sortKey: sql<string>`(${key})::text` })
+    .from(todos)
+    .where(and(...conditions))
+    .orderBy(direction(key), direction(todos.id));
+  // One row past the page tells whether there's another
+  const rows = query.limit === null ? await pageQuery : await pageQuery.limit(query.limit + 1);
+
+  const hasMore = query.limit !== null && rows.length > query.limit;
+  const page = hasMore ? rows.slice(0, query.limit ?? rows.length) : rows;
+  const last = page[page.length - 1];
+  const pageTodos = page.map((row) => row.todo);
+  // A matching subtask can sit below a non-matching one, so it's also a top-level match of its own
+  const pageIds = new Set(pageTodos.map((todo) => todo.id));
+  const subtasks = query.limit === null ? [] : (await loadSubtrees(userId, [...pageIds])).filter((todo) => !pageIds.has(todo.id));
+  return {
+    todos: [...pageTodos, ...subtasks],
+    nextCursor: hasMore && last ? encodeCursor({ sort: query.sort, order: query.order, key: last.sortKey, id: last.todo.id }) : null,
+  };
+}
+
+/**
+ * How many of the user's todos each query matches, ignoring paging, in one pass over the todos. Like the
+ * list, the counts leave out trashed todos and ones snoozed until later.
+ */
+export async function countTodosByQuery(userId: string, queries: TodoListQuery[], timeZone: string): Promise<number[]> {
+  if (queries.length === 0) return [];
+  const counts = Object.fromEntries(queries.map((query, i) => [`q${i}`, sql<number>`(count(*) filter (where ${and(...buildConditions(userId, query, timeZone))}))::int`]));
+  const [row] = await db
+    .select(counts)
+    .from(todos)
+    .where(and(eq(todos.userId, userId), isNull(todos.deletedAt), or(isNull(todos.snoozedUntil), lte(todos.snoozedUntil, new Date()))));
+  return queries.map((_, i) => Number(row?.[`q${i}`] ?? 0));
+}
+
+export interface TodoCounts {
+  total: number;
+  completed: number;
+}
+
+export interface TodoFacets {
+  all: TodoCounts;
+  inbox: TodoCounts;
+  projects: Record<number, TodoCounts>;
+  tags: string[]; // Every tag in use, sorted
+}
+
+/**
+ * What the list's project switcher, stats and tag chips show while only some todos are loaded: how many
+ * todos (not trashed) each view has, and which tags are in use
+ */
+export async function getTodoFacets(userId: string): Promise<TodoFacets> {
+  const live = and(eq(todos.userId, userId), isNull(todos.deletedAt));
+  const [rows, tagRows] = await Promise.all([
+    db
+      .select({ projectId: todos.projectId, total: count(), completed: sql<number>`count(*) filter (where ${todos.completed})::int` })
+      .from(todos)
+      .where(live)
+      .groupBy(todos.projectId),
+    db
+      .selectDistinct({ tag: sql<string>`jsonb_array_elements_text(${todos.tags})` })
+      .from(todos)
+      .where(live),
+  ]);
+
+  const facets: TodoFacets = { all: { total: 0, completed: 0 }, inbox: { total: 0, completed: 0 }, projects: {}, tags: tagRows.map((row) => row.tag).sort() };
+  for (const { projectId, total, completed } of rows) {
+    facets.all.total += total;
+    facets.all.completed += completed;
+    if (projectId === null) {
+      facets.inbox = { total, completed };
+    } else {
+      facets.projects[projectId] = { total, completed };
+    }
+  }
+  return facets;
+}
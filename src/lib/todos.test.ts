@@ -0,0 +1,27 @@
+import { describe, it } from "node:test";
+import assert from "node:assert/strict";
+import { fitsSubtaskDepth, getInputDepth, MAX_SUBTASK_DEPTH, parseTodoInput, type TodoInput } from "@/lib/todos";
+
+function parsed(body: unknown): TodoInput {
+  const result = parseTodoInput(body);
+  assert.ok("value" in result, "error" in result ? result.error : "");
+  return result.value;
+}
+
+describe("subtask depth", () => {
+  it("counts the levels below a payload", () => {
+    assert.equal(getInputDepth(parsed({ text: "plan trip" })), 0);
+    assert.equal(getInputDepth(parsed({ text: "plan trip", subtasks: [{ text: "flights" }, { text: "hotel", subtasks: [{ text: "compare prices" }] }] })), 2);
+  });
+
+  it("refuses to attach anything to a parent already at the maximum depth", () => {
+    assert.equal(fitsSubtaskDepth(MAX_SUBTASK_DEPTH, getInputDepth(parsed({ text: "one more level" }))), false);
+  });
+
+  it("counts the new todo's own subtasks below the parent", () => {
+    const withSubtask = parsed({ text: "pack", subtasks: [{ text: "charger" }] });
+    assert.equal(fitsSubtaskDepth(1, getInputDepth(withSubtask)), true);
+    assert.equal(fitsSubtaskDepth(2, getInputDepth(withSubtask)), false);
+    assert.equal(fitsSubtaskDepth(2, 0), true);
+  });
+});
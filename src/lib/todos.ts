@@ -0,0 +1,557 @@
+import { db, todoBatches, todos, type NewTodo, type Todo } from "@/lib/db";
+import { getNextOccurrence, normalizeRecurrence } from "@/lib/recurrence";
+import { addDaysToKey, dateKeyToDate, dueDateKey, parseDateTimeInput, parseDueDateInput, scheduleDateKey, toDateKey, todayKey, toTimeKey, zonedDateTime } from "@/lib/timezone";
+import { and, eq, inArray, isNull, sql } from "drizzle-orm";
+
+// Subtasks can nest, but keep trees shallow enough to render sensibly
+export const MAX_SUBTASK_DEPTH = 3;
+
+type Transaction = Parameters<Parameters<typeof db.transaction>[0]>[0];
+export type DbExecutor = typeof db | Transaction;
+
+// Shape accepted by POST /api/todos (and produced by AI extraction)
+export interface TodoInput {
+  text: string;
+  tags: string[];
+  priority: "high" | "medium" | "low";
+  dueDate: Date | null;
+  dueAt: Date | null;
+  startAt: Date | null;
+  allDay: boolean;
+  context: string | null;
+  aiGenerated: boolean;
+  recurrence: string | null;
+  projectId: number | null;
+  subtasks: TodoInput[];
+}
+
+export type TodoWithSubtasks = Todo & { subtasks: TodoWithSubtasks[] };
+
+// The schedule columns, written together so dueDate always matches dueAt
+export type TodoSchedule = Pick<Todo, "dueDate" | "dueAt" | "startAt" | "allDay">;
+
+// A start/due value as sent: the date it was written with, its instant, and whether it had a time
+type ScheduleMoment = NonNullable<ReturnType<typeof parseDateTimeInput>>;
+
+// Schedule fields present in a request (undefined = not sent, null = clear)
+export interface ScheduleInput {
+  dueAt?: ScheduleMoment | null;
+  startAt?: ScheduleMoment | null;
+  allDay?: boolean;
+}
+
+const SCHEDULE_FIELDS = ["dueDate", "dueAt", "startAt", "allDay"];
+
+// Read dueAt, startAt and allDay from a request body; a bare dueDate (older clients) is an all-day dueAt
+function parseScheduleFields(fields: Record<string, unknown>): { value: ScheduleInput } | { error: string } {
+  const value: ScheduleInput = {};
+
+  for (const [key, label] of [["dueAt", "Due"], ["startAt", "Start"]] as const) {
+    const raw = fields[key];
+    if (raw === undefined) continue;
+    const moment = raw === null ? null : typeof raw === "string" ? parseDateTimeInput(raw) : null;
+    if (raw !== null && !moment) {
+      return { error: `${label} must be a date (YYYY-MM-DD), a timestamp with a UTC offset, or null` };
+    }
+    value[key] = moment;
+  }
+
+  if (fields.dueDate !== undefined && value.dueAt === undefined) {
+    const { dueDate } = fields;
+    const parsedDueDate = typeof dueDate === "string" ? parseDueDateInput(dueDate) : null;
+    if (dueDate !== null && !parsedDueDate) {
+      return { error: "Due date must be an ISO 8601 date string or null" };
+    }
+    value.dueAt = parsedDueDate ? { key: dueDateKey(parsedDueDate), instant: parsedDueDate, timed: false } : null;
+  }
+
+  if (fields.allDay !== undefined) {
+    if (typeof fields.allDay !== "boolean") {
+      return { error: "All day must be a boolean" };
+    }
+    value.allDay = fields.allDay;
+  }
+
+  return { value };
+}
+
+/**
+ * Turn schedule fields into column values. Fields not sent keep the todo's current values (read in the
+ * user's time zone). Without an explicit allDay, a todo is timed when its start or due has a time; a timed
+ * todo needs a time on both, and all-day todos keep just the dates.
+ */
+export function resolveSchedule(input: ScheduleInput, current: { todo: TodoSchedule; timeZone: string } | null = null): { value: TodoSchedule } | { error: string } {
+  const stored = (value: Date | null): ScheduleMoment | null =>
+    value && current ? { key: scheduleDateKey(value, current.todo.allDay, current.timeZone), instant: value, timed: !current.todo.allDay } : null;
+  const due = input.dueAt !== undefined ? input.dueAt : stored(current?.todo.dueAt ?? null);
+  const start = input.startAt !== undefined ? input.startAt : stored(current?.todo.startAt ?? null);
+  const allDay = input.allDay ?? !(due?.timed || start?.timed);
+
+  if (!allDay) {
+    if (due && !due.timed) return { error: "Due needs a time unless the todo is all-day" };
+    if (start && !start.timed) return { error: "Start needs a time unless the todo is all-day" };
+  }
+
+  const toColumn = (moment: ScheduleMoment | null) => (moment ? (allDay ? dateKeyToDate(moment.key) : moment.instant) : null);
+  const dueAt = toColumn(due);
+  const startAt = toColumn(start);
+  if (dueAt && startAt && startAt > dueAt) {
+    return { error: "Start must not be after the due date" };
+  }
+
+  return { value: { dueDate: due ? dateKeyToDate(due.key) : null, dueAt, startAt, allDay } };
+}
+
+/**
+ * Move a schedule so it's due on `dueDate` (a calendar date), keeping its times of day and the number
+ * of days between start and due. Used for the next occurrence of a recurring todo.
+ */
+export function shiftSchedule(todo: TodoSchedule, dueDate: Date, timeZone: string): TodoSchedule {
+  const days = todo.dueDate ? Math.round((dueDate.getTime() - dateKeyToDate(dueDateKey(todo.dueDate)).getTime()) / (24 * 60 * 60 * 1000)) : 0;
+  const move = (value: Date | null): Date | null => {
+    if (!value) return null;
+    if (todo.allDay) return dateKeyToDate(addDaysToKey(dueDateKey(value), days));
+    return zonedDateTime(addDaysToKey(toDateKey(value, timeZone), days), toTimeKey(value, timeZone), timeZone);
+  };
+
+  const fallbackDueAt = todo.allDay ? dueDate : zonedDateTime(dueDateKey(dueDate), "23:59", timeZone);
+  return { dueDate, dueAt: move(todo.dueAt) ?? fallbackDueAt, startAt: move(todo.startAt), allDay: todo.allDay };
+}
+
+/**
+ * Validate a (possibly nested) todo payload from a request body
+ */
+export function parseTodoInput(body: unknown, depth = 0): { value: TodoInput } | { error: string } {
+  if (!body || typeof body !== "object") {
+    return { error: "Todo must be an object" };
+  }
+  const fields = body as Record<string, unknown>;
+  const { text, tags, priority, context, aiGenerated, recurrence, projectId, subtasks } = fields;
+
+  if (!text || typeof text !== "string" || text.trim() === "") {
+    return { error: "Text is required and must be a non-empty string" };
+  }
+
+  const normalizedRecurrence = recurrence ? normalizeRecurrence(recurrence) : null;
+  if (recurrence && !normalizedRecurrence) {
+    return { error: "Recurrence must be a valid RRULE (e.g. FREQ=WEEKLY;BYDAY=TU)" };
+  }
+
+  if (projectId !== undefined && projectId !== null && (typeof projectId !== "number" || !Number.isInteger(projectId))) {
+    return { error: "Project ID must be an integer" };
+  }
+
+  const scheduleFields = parseScheduleFields(fields);
+  if ("error" in scheduleFields) {
+    return scheduleFields;
+  }
+  const schedule = resolveSchedule(scheduleFields.value);
+  if ("error" in schedule) {
+    return schedule;
+  }
+
+  const parsedSubtasks: TodoInput[] = [];
+  if (subtasks !== undefined && subtasks !== null) {
+    if (!Array.isArray(subtasks)) {
+      return { error: "Subtasks must be an array" };
+    }
+    if (subtasks.length > 0 && depth + 1 >= MAX_SUBTASK_DEPTH) {
+      return { error: `Subtasks can only be nested ${MAX_SUBTASK_DEPTH} levels deep` };
+    }
+    for (const subtask of subtasks) {
+      const parsed = parseTodoInput(subtask, depth + 1);
+      if ("error" in parsed) {
+        return { error: `Subtask: ${parsed.error}` };
+      }
+      parsedSubtasks.push(parsed.value);
+    }
+  }
+
+  return {
+    value: {
+      text: text.trim(),
+      tags: Array.isArray(tags) ? tags.filter((t): t is string => typeof t === "string") : [],
+      priority: priority === "high" || priority === "low" ? priority : "medium",
+      ...schedule.value,
+      context: typeof context === "string" && context ? context : null,
+      aiGenerated: aiGenerated === true,
+      recurrence: normalizedRecurrence,
+      projectId: typeof projectId === "number" ? projectId : null,
+      subtasks: parsedSubtasks,
+    },
+  };
+}
+
+// Largest batch accepted by POST /api/todos/batch
+export const MAX_BATCH_SIZE = 50;
+
+// Columns a client may change through PATCH /api/todos/[id] (the schedule ones once resolved against the todo)
+export type TodoPatch = Partial<Pick<NewTodo, "text" | "completed" | "tags" | "priority" | "dueDate" | "dueAt" | "startAt" | "allDay" | "snoozedUntil" | "context" | "aiGenerated" | "recurrence" | "parentId" | "projectId">>;
+
+const PATCHABLE_FIELDS = ["text", "completed", "tags", "priority", ...SCHEDULE_FIELDS, "snoozedUntil", "context", "aiGenerated", "recurrence", "parentId", "projectId"];
+const READ_ONLY_FIELDS = ["id", "userId", "createdAt", "updatedAt", "deletedAt"];
+
+const MAX_TAGS = 20;
+const MAX_TAG_LENGTH = 50;
+
+function isNullableInteger(value: unknown): value is number | null {
+  return value === null || (typeof value === "number" && Number.isInteger(value));
+}
+
+/**
+ * Validate a partial todo update. Every field is optional, but each one present must be
+ * well-typed; unknown and read-only fields are rejected rather than silently ignored.
+ * Schedule fields come back separately: they can only be resolved against the todo's current schedule.
+ */
+export function parseTodoPatch(body: unknown): { value: TodoPatch; schedule: ScheduleInput | null } | { error: string } {
+  if (!body || typeof body !== "object" || Array.isArray(body)) {
+    return { error: "Request body must be an object" };
+  }
+  const fields = body as Record<string, unknown>;
+
+  for (const key of Object.keys(fields)) {
+    if (READ_ONLY_FIELDS.includes(key)) {
+      return { error: `Field "${key}" cannot be updated` };
+    }
+    if (!PATCHABLE_FIELDS.includes(key)) {
+      return { error: `Unknown field "${key}"` };
+    }
+  }
+
+  const { text, completed, tags, priority, snoozedUntil, context, aiGenerated, recurrence, parentId, projectId } = fields;
+  const value: TodoPatch = {};
+
+  if (text !== undefined) {
+    if (typeof text !== "string" || text.trim() === "") {
+      return { error: "Text must be a non-empty string" };
+    }
+    value.text = text.trim();
+  }
+  if (completed !== undefined) {
+    if (typeof completed !== "boolean") {
+      return { error: "Completed must be a boolean" };
+    }
+    value.completed = completed;
+  }
+  if (tags !== undefined) {
+    if (!Array.isArray(tags) || tags.some((tag) => typeof tag !== "string")) {
+      return { error: "Tags must be an array of strings" };
+    }
+    // Trim, lowercase and de-duplicate, matching what the extractor produces
+    const normalizedTags = [...new Set(tags.map((tag: string) => tag.trim().toLowerCase()).filter((tag) => tag !== ""))];
+    if (normalizedTags.length > MAX_TAGS) {
+      return { error: `A todo can have at most ${MAX_TAGS} tags` };
+    }
+    if (normalizedTags.some((tag) => tag.length > MAX_TAG_LENGTH)) {
+      return { error: `Tags must be at most ${MAX_TAG_LENGTH} characters` };
+    }
+    value.tags = normalizedTags;
+  }
+  if (priority !== undefined) {
+    if (priority !== "high" && priority !== "medium" && priority !== "low") {
+      return { error: 'Priority must be "high", "medium" or "low"' };
+    }
+    value.priority = priority;
+  }
+  if (snoozedUntil !== undefined) {
+    // An exact instant: snoozes end at a time of day, so a bare date would be ambiguous
+    const until = typeof snoozedUntil === "string" ? parseDateTimeInput(snoozedUntil) : null;
+    if (snoozedUntil !== null && !until?.timed) {
+      return { error: "Snoozed until must be a timestamp with a UTC offset, or null" };
+    }
+    value.snoozedUntil = until ? until.instant : null;
+  }
+  if (context !== undefined) {
+    if (context !== null && typeof context !== "string") {
+      return { error: "Context must be a string or null" };
+    }
+    value.context = context === null || context.trim() === "" ? null : context;
+  }
+  if (aiGenerated !== undefined) {
+    if (typeof aiGenerated !== "boolean") {
+      return { error: "AI generated must be a boolean" };
+    }
+    value.aiGenerated = aiGenerated;
+  }
+  if (recurrence !== undefined) {
+    const normalizedRecurrence = recurrence === null ? null : normalizeRecurrence(recurrence);
+    if (recurrence !== null && !normalizedRecurrence) {
+      return { error: "Recurrence must be a valid RRULE (e.g. FREQ=WEEKLY;BYDAY=TU)" };
+    }
+    value.recurrence = normalizedRecurrence;
+  }
+  if (parentId !== undefined) {
+    if (!isNullableInteger(parentId)) {
+      return { error: "Parent ID must be an integer or null" };
+    }
+    value.parentId = parentId;
+  }
+  if (projectId !== undefined) {
+    if (!isNullableInteger(projectId)) {
+      return { error: "Project ID must be an integer or null" };
+    }
+    value.projectId = projectId;
+  }
+
+  let schedule: ScheduleInput | null = null;
+  if (SCHEDULE_FIELDS.some((key) => fields[key] !== undefined)) {
+    const scheduleFields = parseScheduleFields(fields);
+    if ("error" in scheduleFields) {
+      return scheduleFields;
+    }
+    schedule = scheduleFields.value;
+  }
+
+  return { value, schedule };
+}
+
+/**
+ * Levels of subtasks below a todo payload (0 when it has none)
+ */
+export function getInputDepth(input: TodoInput): number {
+  return input.subtasks.reduce((depth, subtask) => Math.max(depth, getInputDepth(subtask) + 1), 0);
+}
+
+/**
+ * Whether a subtree `subtreeDepth` levels deep fits under a parent with `parentLevels` todos from it up
+ * to its root (1 for a top-level parent) within MAX_SUBTASK_DEPTH
+ */
+export function fitsSubtaskDepth(parentLevels: number, subtreeDepth: number): boolean {
+  return parentLevels + 1 + subtreeDepth <= MAX_SUBTASK_DEPTH;
+}
+
+// Walk up from a todo to its root, the todo itself first; stops past MAX_SUBTASK_DEPTH levels.
+// `broken` when an ancestor is missing or trashed (an empty chain means the todo itself is).
+async function loadAncestorChain(userId: string, id: number): Promise<{ ids: number[]; broken: boolean }> {
+  const ids: number[] = [];
+  let currentId: number | null = id;
+  while (currentId !== null && ids.length <= MAX_SUBTASK_DEPTH) {
+    const [ancestor] = await db
+      .select({ id: todos.id, parentId: todos.parentId })
+      .from(todos)
+      .where(and(eq(todos.id, currentId), eq(todos.userId, userId), isNull(todos.deletedAt)))
+      .limit(1);
+    if (!ancestor) {
+      return { ids, broken: ids.length > 0 };
+    }
+    ids.push(ancestor.id);
+    currentId = ancestor.parentId;
+  }
+  return { ids, broken: false };
+}
+
+/**
+ * Check that `parentId` can become the parent of todo `id`: it must be another live todo owned by
+ * the user, must not sit inside the todo's own subtree, and the move must keep the tree within
+ * MAX_SUBTASK_DEPTH. Returns an error message, or null if the move is allowed.
+ */
+export async function validateParentMove(userId: string, id: number, parentId: number): Promise<string | null> {
+  if (parentId === id) {
+    return "A todo cannot be its own parent";
+  }
+
+  const ancestors = await loadAncestorChain(userId, parentId);
+  if (ancestors.ids.length === 0) {
+    return "Parent todo not found";
+  }
+  if (ancestors.ids.includes(id)) {
+    return "A todo cannot be moved under one of its own subtasks";
+  }
+  if (ancestors.broken) {
+    return "Parent todo's hierarchy is broken";
+  }
+
+  // Levels below the moved todo (0 when it has no subtasks)
+  const result = await db.execute<{ depth: number }>(sql`
+    WITH RECURSIVE tree AS (
+      SELECT id, 0 AS depth FROM todos WHERE id = ${id}
+      UNION ALL
+      SELECT t.id, tree.depth + 1 FROM todos t JOIN tree ON t.parent_id = tree.id WHERE t.deleted_at IS NULL
+    )
+    SELECT COALESCE(MAX(depth), 0) AS depth FROM tree
+  `);
+  const subtreeDepth = Number(result.rows[0]?.depth ?? 0);
+
+  if (!fitsSubtaskDepth(ancestors.ids.length, subtreeDepth)) {
+    return `Subtasks can only be nested ${MAX_SUBTASK_DEPTH} levels deep`;
+  }
+
+  return null;
+}
+
+/**
+ * Check that a new todo (and its nested subtasks) can be created under the live parent `parentId`
+ * without nesting past MAX_SUBTASK_DEPTH. Returns an error message, or null if it fits.
+ */
+export async function validateNewSubtree(userId: string, parentId: number, input: TodoInput): Promise<string | null> {
+  const ancestors = await loadAncestorChain(userId, parentId);
+  if (ancestors.broken) {
+    return "Parent todo's hierarchy is broken";
+  }
+  if (!fitsSubtaskDepth(ancestors.ids.length, getInputDepth(input))) {
+    return `Subtasks can only be nested ${MAX_SUBTASK_DEPTH} levels deep`;
+  }
+  return null;
+}
+
+/**
+ * Write a validated update to a todo the caller has loaded (schedule fields already resolved against it).
+ * Completing a recurring todo spawns its next occurrence, which takes over the rule; fields edited in the
+ * same update carry over to it. Returns null if the todo is gone.
+ */
+export async function saveTodoUpdate(executor: DbExecutor, userId: string, current: Todo, update: TodoPatch, timeZone: string): Promise<{ todo: Todo; nextOccurrence: Todo | null } | null> {
+  const values: TodoPatch & { updatedAt: Date } = { ...update, updatedAt: new Date() };
+  const existing = { ...current, ...update };
+
+  const completesRecurring = update.completed === true && !current.completed && existing.recurrence !== null;
+  // Skipping missed occurrences goes by the user's local today, not the server's
+  const next = completesRecurring ? getNextOccurrence(existing.recurrence!, existing.dueDate, dateKeyToDate(todayKey(timeZone))) : null;
+  if (completesRecurring) {
+    values.recurrence = null;
+  }
+
+  const [updated] = await executor
+    .update(todos)
+    .set(values)
+    .where(and(eq(todos.id, current.id), eq(todos.userId, userId)))
+    .returning();
+  if (!updated) {
+    return null;
+  }
+  if (!next) {
+    return { todo: updated, nextOccurrence: null };
+  }
+
+  const [nextOccurrence] = await executor
+    .insert(todos)
+    .values({
+      userId,
+      text: existing.text,
+      completed: false,
+      tags: existing.tags,
+      priority: existing.priority,
+      ...shiftSchedule(existing, next.dueDate, timeZone),
+      context: existing.context,
+      aiGenerated: existing.aiGenerated,
+      recurrence: next.recurrence,
+      parentId: existing.parentId,
+      projectId: existing.projectId,
+    })
+    .returning();
+  return { todo: updated, nextOccurrence };
+}
+
+/**
+ * Every project referenced anywhere in a todo tree (for ownership checks)
+ */
+export function collectProjectIds(input: TodoInput): number[] {
+  const ids = input.subtasks.flatMap(collectProjectIds);
+  return input.projectId !== null ? [input.projectId, ...ids] : ids;
+}
+
+/**
+ * Insert a todo and all of its subtasks, returning the created tree.
+ * Subtasks without their own project inherit the parent's.
+ */
+export async function insertTodoTree(
+  executor: DbExecutor,
+  userId: string,
+  input: TodoInput,
+  parentId: number | null = null,
+  inheritedProjectId: number | null = null
+): Promise<TodoWithSubtasks> {
+  const [created] = await executor
+    .insert(todos)
+    .values({
+      userId,
+      text: input.text,
+      completed: false,
+      tags: input.tags,
+      priority: input.priority,
+      dueDate: input.dueDate,
+      dueAt: input.dueAt,
+      startAt: input.startAt,
+      allDay: input.allDay,
+      context: input.context,
+      aiGenerated: input.aiGenerated,
+      recurrence: input.recurrence,
+      parentId,
+      projectId: input.projectId ?? inheritedProjectId,
+    })
+    .returning();
+
+  const subtasks: TodoWithSubtasks[] = [];
+  for (const subtask of input.subtasks) {
+    subtasks.push(await insertTodoTree(executor, userId, subtask, created.id, created.projectId));
+  }
+
+  return { ...created, subtasks };
+}
+
+/**
+ * Arrange a flat list of todos into parent/child trees.
+ * Todos whose parent isn't in the list are treated as roots.
+ */
+export function buildTodoTree(rows: Todo[]): TodoWithSubtasks[] {
+  const nodes = new Map<number, TodoWithSubtasks>();
+  rows.forEach((row) => nodes.set(row.id, { ...row, subtasks: [] }));
+
+  const roots: TodoWithSubtasks[] = [];
+  rows.forEach((row) => {
+    const node = nodes.get(row.id)!;
+    const parent = row.parentId !== null ? nodes.get(row.parentId) : undefined;
+    if (parent) {
+      parent.subtasks.push(node);
+    } else {
+      roots.push(node);
+    }
+  });
+
+  return roots;
+}
+
+function collectTreeIds(tree: TodoWithSubtasks): number[] {
+  return [tree.id, ...tree.subtasks.flatMap(collectTreeIds)];
+}
+
+/**
+ * Insert a batch of todo trees in one transaction, keyed by a client-supplied draft ID.
+ * Replaying a draft ID returns the todos created the first time instead of inserting again;
+ * the unique (user_id, draft_id) index makes concurrent retries wait for the first one to commit.
+ */
+export async function insertTodoBatch(userId: string, draftId: string, inputs: TodoInput[]): Promise<{ todos: TodoWithSubtasks[]; replayed: boolean }> {
+  return db.transaction(async (tx) => {
+    const claimed = await tx.insert(todoBatches).values({ userId, draftId }).onConflictDoNothing().returning({ id: todoBatches.id });
+
+    if (claimed.length === 0) {
+      const [batch] = await tx
+        .select()
+        .from(todoBatches)
+        .where(and(eq(todoBatches.userId, userId), eq(todoBatches.draftId, draftId)))
+        .limit(1);
+      const rows =
+        batch.todoIds.length > 0
+          ? await tx
+              .select()
+              .from(todos)
+              .where(and(eq(todos.userId, userId), inArray(todos.id, batch.todoIds), isNull(todos.deletedAt)))
+          : [];
+      // Todos trashed since the batch was created stay out of the replay; keep the original creation order
+      const order = new Map(batch.todoIds.map((id, index) => [id, index]));
+      rows.sort((a, b) => order.get(a.id)! - order.get(b.id)!);
+      return { todos: buildTodoTree(rows), replayed: true };
+    }
+
+    const created: TodoWithSubtasks[] = [];
+    for (const input of inputs) {
+      created.push(await insertTodoTree(tx, userId, input));
+    }
+
+    await tx
+      .update(todoBatches)
+      .set({ todoIds: created.flatMap(collectTreeIds) })
+      .where(eq(todoBatches.id, claimed[0].id));
+
+    return { todos: created, replayed: false };
+  });
+}
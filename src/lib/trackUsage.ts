@@ -1,10 +1,11 @@
 import { db, usage } from "@/lib/db";
 import { eq, sql } from "drizzle-orm";
+import type { ProviderName } from "@/lib/aiProviders";
 
 export type RequestType = "extract" | "query";
-export type AIProvider = "anthropic" | "openai";
 
-export async function trackUsage(userId: string, requestType: RequestType, provider: AIProvider, modelName?: string) {
+// Local and mock requests count toward the totals but have no per-provider column
+export async function trackUsage(userId: string, requestType: RequestType, provider: ProviderName, modelName?: string) {
   try {
     // Check if user has a usage record
     const existingUsage = await db.select().from(usage).where(eq(usage.userId, userId)).limit(1);
@@ -0,0 +1,98 @@
+import { db, todos } from "@/lib/db";
+import { and, eq, isNotNull, lt, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/todos";
+
+// How long trashed todos are kept before the retention job purges them
+export const DEFAULT_TRASH_RETENTION_DAYS = 30;
+
+export function getTrashRetentionDays(): number {
+  const days = Number(process.env.TRASH_RETENTION_DAYS);
+  return Number.isInteger(days) && days > 0 ? days : DEFAULT_TRASH_RETENTION_DAYS;
+}
+
+/**
+ * Move a todo and all of its subtasks to the trash.
+ * Everything trashed together shares one deleted_at timestamp so it can be restored together.
+ * Returns the ids that were trashed (empty if the todo doesn't exist or is already trashed).
+ */
+export async function softDeleteTodo(userId: string, id: number, executor: DbExecutor = db): Promise<number[]> {
+  const result = await executor.execute<{ id: number }>(sql`
+    WITH RECURSIVE tree AS (
+      SELECT id FROM todos WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NULL
+      UNION ALL
+      SELECT t.id FROM todos t JOIN tree ON t.parent_id = tree.id WHERE t.deleted_at IS NULL
+    )
+    UPDATE todos SET deleted_at = now(), updated_at = now()
+    WHERE id IN (SELECT id FROM tree)
+    RETURNING id
+  `);
+  return result.rows.map((row) => Number(row.id));
+}
+
+/**
+ * Restore a trashed todo along with the subtasks that were trashed with it.
+ * A subtask whose parent is still in the trash comes back as a top-level todo, so purging the parent
+ * later doesn't cascade to it. Returns the ids that were restored.
+ */
+export async function restoreTodo(userId: string, id: number): Promise<number[]> {
+  const result = await db.execute<{ id: number }>(sql`
+    WITH RECURSIVE root AS (
+      SELECT id, deleted_at FROM todos WHERE id = ${id} AND user_id = ${userId} AND deleted_at IS NOT NULL
+    ),
+    tree AS (
+      SELECT id FROM root
+      UNION ALL
+      SELECT t.id FROM todos t JOIN tree ON t.parent_id = tree.id WHERE t.deleted_at = (SELECT deleted_at FROM root)
+    )
+    UPDATE todos SET
+      deleted_at = NULL,
+      updated_at = now(),
+      parent_id = CASE
+        WHEN todos.id = ${id} AND EXISTS (SELECT 1 FROM todos parent WHERE parent.id = todos.parent_id AND parent.deleted_at IS NOT NULL) THEN NULL
+        ELSE todos.parent_id
+      END
+    WHERE id IN (SELECT id FROM tree)
+    RETURNING id
+  `);
+  return result.rows.map((row) => Number(row.id));
+}
+
+/**
+ * Permanently delete a trashed todo (subtasks go with it via ON DELETE CASCADE)
+ */
+export async function purgeTodo(userId: string, id: number): Promise<boolean> {
+  const purged = await db
+    .delete(todos)
+    .where(and(eq(todos.id, id), eq(todos.userId, userId), isNotNull(todos.deletedAt)))
+    .returning({ id: todos.id });
+  return purged.length > 0;
+}
+
+/**
+ * Permanently delete everything in a user's trash
+ */
+export async function emptyTrash(userId: string): Promise<number> {
+  const purged = await db
+    .delete(todos)
+    .where(and(eq(todos.userId, userId), isNotNull(todos.deletedAt)))
+    .returning({ id: todos.id });
+  return purged.length;
+}
+
+/**
+ * Retention job: purge todos that have been in the trash longer than the retention window.
+ * Scoped to one user when userId is given, otherwise runs across all users.
+ */
+export async function purgeExpiredTrash(retentionDays: number = getTrashRetentionDays(), userId?: string): Promise<number> {
+  const cutoff = new Date(Date.now() - retentionDays * 24 * 60 * 60 * 1000);
+  const conditions = [isNotNull(todos.deletedAt), lt(todos.deletedAt, cutoff)];
+  if (userId) {
+    conditions.push(eq(todos.userId, userId));
+  }
+
+  const purged = await db
+    .delete(todos)
+    .where(and(...conditions))
+    .returning({ id: todos.id });
+  return purged.length;
+}
@@ -0,0 +1,128 @@
+/**
+ * Usage periods
+ * Resetting usage stats closes the current period instead of discarding it: the counters (and the
+ * ledger's token/cost totals for the same window) are archived to usage_periods, so this month can
+ * be compared to last.
+ */
+import { db, usage, usagePeriods, aiRequests, type UsagePeriod } from "@/lib/db";
+import { and, desc, eq, gte, lt, sql } from "drizzle-orm";
+import type { DbExecutor } from "@/lib/todos";
+
+export interface UsagePeriodSummary {
+  id: number | null; // null for the current, still-open period
+  startedAt: string;
+  endedAt: string | null;
+  totalRequests: number;
+  extractRequests: number;
+  queryRequests: number;
+  anthropicRequests: number;
+  openaiRequests: number;
+  inputTokens: number;
+  outputTokens: number;
+  estimatedCostUsd: number;
+}
+
+function toSummary(period: UsagePeriod): UsagePeriodSummary {
+  return {
+    id: period.id,
+    startedAt: period.startedAt.toISOString(),
+    endedAt: period.endedAt.toISOString(),
+    totalRequests: period.totalRequests,
+    extractRequests: period.extractRequests,
+    queryRequests: period.queryRequests,
+    anthropicRequests: period.anthropicRequests,
+    openaiRequests: period.openaiRequests,
+    inputTokens: period.inputTokens,
+    outputTokens: period.outputTokens,
+    estimatedCostUsd: period.estimatedCostUsd,
+  };
+}
+
+// Token and cost totals from the ledger for [from, to)
+async function ledgerTotals(database: DbExecutor, userId: string, from: Date, to: Date) {
+  const [row] = await database
+    .select({
+      inputTokens: sql<number>`coalesce(sum(${aiRequests.inputTokens}), 0)::int`,
+      outputTokens: sql<number>`coalesce(sum(${aiRequests.outputTokens}), 0)::int`,
+      estimatedCostUsd: sql<number>`coalesce(sum(${aiRequests.estimatedCostUsd}), 0)::float8`,
+    })
+    .from(aiRequests)
+    .where(and(eq(aiRequests.userId, userId), gte(aiRequests.createdAt, from), lt(aiRequests.createdAt, to)));
+  return row ?? { inputTokens: 0, outputTokens: 0, estimatedCostUsd: 0 };
+}
+
+/**
+ * Close the current period: archive its counters and start a new one with zeroed counters.
+ * Returns the archived period, or null when the user has no usage record yet.
+ */
+export async function archiveUsagePeriod(userId: string): Promise<UsagePeriodSummary | null> {
+  return db.transaction(async (tx) => {
+    const [current] = await tx.select().from(usage).where(eq(usage.userId, userId)).limit(1).for("update");
+    if (!current) return null;
+
+    const endedAt = new Date();
+    const totals = await ledgerTotals(tx, userId, current.periodStartedAt, endedAt);
+
+    const [period] = await tx
+      .insert(usagePeriods)
+      .values({
+        userId,
+        startedAt: current.periodStartedAt,
+        endedAt,
+        totalRequests: current.totalRequests,
+        extractRequests: current.extractRequests,
+        queryRequests: current.queryRequests,
+        anthropicRequests: current.anthropicRequests,
+        openaiRequests: current.openaiRequests,
+        ...totals,
+      })
+      .returning();
+
+    await tx
+      .update(usage)
+      .set({
+        totalRequests: 0,
+        extractRequests: 0,
+        queryRequests: 0,
+        anthropicRequests: 0,
+        openaiRequests: 0,
+        periodStartedAt: endedAt,
+        updatedAt: endedAt,
+      })
+      .where(eq(usage.userId, userId));
+
+    return toSummary(period);
+  });
+}
+
+/**
+ * The current period (live) followed by archived periods, newest first
+ */
+export async function getUsagePeriods(userId: string, limit = 12): Promise<UsagePeriodSummary[]> {
+  const [current] = await db.select().from(usage).where(eq(usage.userId, userId)).limit(1);
+  const archived = await db
+    .select()
+    .from(usagePeriods)
+    .where(eq(usagePeriods.userId, userId))
+    .orderBy(desc(usagePeriods.endedAt))
+    .limit(limit);
+
+  const periods = archived.map(toSummary);
+
+  if (current) {
+    const totals = await ledgerTotals(db, userId, current.periodStartedAt, new Date());
+    periods.unshift({
+      id: null,
+      startedAt: current.periodStartedAt.toISOString(),
+      endedAt: null,
+      totalRequests: current.totalRequests,
+      extractRequests: current.extractRequests,
+      queryRequests: current.queryRequests,
+      anthropicRequests: current.anthropicRequests,
+      openaiRequests: current.openaiRequests,
+      ...totals,
+    });
+  }
+
+  return periods;
+}
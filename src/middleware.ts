@@ -3,6 +3,7 @@ import { clerkMiddleware, createRouteMatcher } from "@clerk/nextjs/server";
 // Define public routes (everything else requires authentication)
 const isPublicRoute = createRouteMatcher([
   "/api/setup(.*)",
+  "/api/cron(.*)", // Authenticated with CRON_SECRET inside the route
   "/setup(.*)",
   "/manifest.json",
   "/icon.svg",